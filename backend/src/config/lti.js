@@ -0,0 +1,55 @@
+// LTI 1.3 Configuration - Registered platforms (Moodle, Canvas, ...) and tool URLs
+//
+// LTI_PLATFORMS is a JSON array, one entry per platform registration:
+// {
+//   "issuer": "https://moodle.kampus.ac.id",
+//   "clientId": "abc123",                                  // issued by the platform
+//   "deploymentIds": ["1"],                                // empty = any deployment
+//   "authLoginUrl": "https://moodle.kampus.ac.id/mod/lti/auth.php",
+//   "authTokenUrl": "https://moodle.kampus.ac.id/mod/lti/token.php",
+//   "keysetUrl": "https://moodle.kampus.ac.id/mod/lti/certs.php",
+//   "resourceLinks": { "<context id>:<resource link id>": "<tutorial id>" }
+// }
+// A launch maps to a tutorial through the custom parameter `tutorial_id` set on
+// the LMS activity, or else through `resourceLinks`.
+
+const toolUrl = (process.env.LTI_TOOL_URL || 'http://localhost:3001').replace(/\/$/, '');
+const frontendUrl = (process.env.FRONTEND_URL || 'http://localhost:5000').replace(/\/$/, '');
+
+// The mock platform in mock-dicoding (development only). The browser reaches it
+// on localhost, the backend on the Docker network.
+const mockPlatformBrowserUrl = (process.env.MOCK_LTI_PLATFORM_URL || 'http://localhost:3002').replace(/\/$/, '');
+const mockPlatformServerUrl = (process.env.MOCK_DICODING_API_URL || 'http://localhost:3002').replace(/\/$/, '');
+
+const mockPlatform = {
+  issuer: mockPlatformBrowserUrl,
+  clientId: 'learncheck-dev',
+  deploymentIds: ['1'],
+  authLoginUrl: `${mockPlatformBrowserUrl}/lti/platform/authorize`,
+  authTokenUrl: `${mockPlatformServerUrl}/lti/platform/token`,
+  keysetUrl: `${mockPlatformServerUrl}/lti/platform/jwks`,
+  resourceLinks: {}
+};
+
+const parsePlatforms = () => {
+  if (!process.env.LTI_PLATFORMS) {
+    return process.env.NODE_ENV === 'production' ? [] : [mockPlatform];
+  }
+
+  const platforms = JSON.parse(process.env.LTI_PLATFORMS);
+  return platforms.map(platform => ({
+    deploymentIds: [],
+    resourceLinks: {},
+    ...platform
+  }));
+};
+
+const ltiConfig = {
+  platforms: parsePlatforms(),
+  loginUrl: `${toolUrl}/lti/login`,
+  launchUrl: `${toolUrl}/lti/launch`,
+  jwksUrl: `${toolUrl}/lti/jwks`,
+  frontendUrl
+};
+
+module.exports = { ltiConfig };
@@ -0,0 +1,27 @@
+// Quiz Configuration - Backend defaults, overridable per tutorial via `quizConfig`
+
+const QUESTION_TYPES = ['multiple-choice', 'true-false', 'short-answer', 'multi-select'];
+
+// How multi-select questions are scored:
+// - all-or-nothing: credit only when exactly the correct options are selected
+// - partial: proportional credit (correct picks minus wrong picks, never below 0)
+const SCORING_MODES = ['all-or-nothing', 'partial'];
+
+// Self-reported confidence per answer, used for the calibration report
+const CONFIDENCE_LEVELS = ['guess', 'unsure', 'sure'];
+
+const parseList = (value, fallback) =>
+  value ? value.split(',').map(item => item.trim()).filter(Boolean) : fallback;
+
+const quizDefaults = {
+  questionCount: parseInt(process.env.QUIZ_QUESTION_COUNT) || 3,
+  timeLimitMinutes: parseInt(process.env.QUIZ_TIME_LIMIT_MINUTES) || 5,
+  passingScore: parseInt(process.env.QUIZ_PASSING_SCORE) || 80, // percentage
+  questionTypes: parseList(process.env.QUIZ_QUESTION_TYPES, ['multiple-choice']),
+  maxAttempts: parseInt(process.env.QUIZ_MAX_ATTEMPTS) || 0, // 0 = unlimited
+  startingDifficulty: process.env.QUIZ_STARTING_DIFFICULTY || 'medium',
+  codeQuestions: process.env.QUIZ_CODE_QUESTIONS !== 'false', // code-reading questions when the tutorial has code
+  scoringMode: SCORING_MODES.includes(process.env.QUIZ_SCORING_MODE) ? process.env.QUIZ_SCORING_MODE : 'all-or-nothing'
+};
+
+module.exports = { QUESTION_TYPES, SCORING_MODES, CONFIDENCE_LEVELS, quizDefaults };
@@ -0,0 +1,35 @@
+// xAPI Configuration - Learning Record Store (LRS) that receives quiz statements
+//
+// XAPI_LRS_ENDPOINT   LRS base URL, statements are posted to `${endpoint}/statements`
+// XAPI_LRS_USERNAME   Basic auth key (optional)
+// XAPI_LRS_PASSWORD   Basic auth secret (optional)
+// XAPI_ACTIVITY_BASE  IRI prefix of LearnCheck activities (default: FRONTEND_URL)
+// XAPI_ACTOR_HOMEPAGE Account home page of learners (default: https://www.dicoding.com)
+//
+// Without XAPI_LRS_ENDPOINT, development posts to the in-memory LRS of
+// mock-dicoding (GET /xapi/statements) and production sends nothing.
+
+const trimSlash = (url) => url.replace(/\/$/, '');
+
+const mockLrsUrl = `${trimSlash(process.env.MOCK_DICODING_API_URL || 'http://localhost:3002')}/xapi`;
+
+const resolveEndpoint = () => {
+  if (process.env.XAPI_LRS_ENDPOINT) {
+    return trimSlash(process.env.XAPI_LRS_ENDPOINT);
+  }
+  return process.env.NODE_ENV === 'production' ? null : mockLrsUrl;
+};
+
+const endpoint = resolveEndpoint();
+
+const xapiConfig = {
+  enabled: Boolean(endpoint),
+  endpoint,
+  username: process.env.XAPI_LRS_USERNAME || null,
+  password: process.env.XAPI_LRS_PASSWORD || null,
+  activityBase: trimSlash(process.env.XAPI_ACTIVITY_BASE || process.env.FRONTEND_URL || 'http://localhost:5000'),
+  actorHomePage: process.env.XAPI_ACTOR_HOMEPAGE || 'https://www.dicoding.com',
+  version: '1.0.3'
+};
+
+module.exports = { xapiConfig };
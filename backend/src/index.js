@@ -10,6 +10,7 @@ require('dotenv').config();
 const logger = require('./services/logger');
 const { generalLimiter } = require('./middleware/rateLimiter');
 const { errorHandler } = require('./middleware/errorHandler');
+const { requireLaunchToken } = require('./middleware/auth');
 
 // Import routes
 const healthRoutes = require('./routes/health');
@@ -17,6 +18,10 @@ const tutorialRoutes = require('./routes/tutorials');
 const userRoutes = require('./routes/users');
 const llmRoutes = require('./routes/llm');
 const submissionRoutes = require('./routes/submissions');
+const sessionRoutes = require('./routes/sessions');
+const ltiRoutes = require('./routes/lti');
+const ltiGradeService = require('./services/ltiGradeService');
+const xapiService = require('./services/xapiService');
 
 const app = express();
 const PORT = process.env.PORT || 3001;
@@ -24,6 +29,13 @@ const PORT = process.env.PORT || 3001;
 // Security middleware
 app.use(helmet());
 
+// LTI 1.3 - the LMS posts forms from its own origin, so these routes sit before the CORS allowlist
+app.use('/lti', generalLimiter, express.urlencoded({ extended: false }), ltiRoutes);
+
+// Analytics sinks - LMS gradebook (LTI AGS) and learning record store (xAPI)
+ltiGradeService.register();
+xapiService.register();
+
 // CORS configuration - support multiple origins
 const allowedOrigins = (process.env.CORS_ORIGIN || 'http://localhost:3000').split(',');
 app.use(cors({
@@ -54,12 +66,16 @@ app.use(express.urlencoded({ extended: true, limit: '10mb' }));
 // Rate limiting
 app.use('/api', generalLimiter);
 
+// Every API call needs the signed launch token (learner + tutorial)
+app.use('/api', requireLaunchToken);
+
 // API Routes
 app.use('/health', healthRoutes);
 app.use('/api/tutorials', tutorialRoutes);
 app.use('/api/users', userRoutes);
 app.use('/api/llm', llmRoutes);
 app.use('/api/submissions', submissionRoutes);
+app.use('/api/sessions', sessionRoutes);
 
 // Alias route for direct LLM access
 app.use('/api/generate-questions', llmRoutes);
@@ -84,10 +100,16 @@ app.use('*', (req, res) => {
       'GET /health',
       'GET /api/tutorials',
       'GET /api/tutorials/:id',
+      'GET /api/tutorials/:id/quiz-config',
       'GET /api/users/:id/preferences',
       'PUT /api/users/:id/preferences',
       'POST /api/llm/generate-questions',
-      'POST /api/submissions'
+      'POST /api/submissions',
+      'POST /api/sessions/:sessionId/start',
+      'GET|POST /lti/login',
+      'POST /lti/launch',
+      'GET /lti/jwks',
+      'GET /lti/config'
     ]
   });
 });
@@ -0,0 +1,73 @@
+// Auth Middleware - Every API call carries the signed launch token
+// (Authorization: Bearer <token>, see services/launchTokenService.js).
+// Learner and tutorial come from the verified token, never from the URL or body.
+const logger = require('../services/logger');
+const { verifyLaunchToken } = require('../services/launchTokenService');
+
+const sendAuthError = (res, statusCode, error, message) =>
+  res.status(statusCode).json({
+    error,
+    message,
+    status: 'error',
+    timestamp: new Date().toISOString()
+  });
+
+// Verify the launch token and expose it as req.launch = { userId, tutorialId, expiresAt }
+const requireLaunchToken = (req, res, next) => {
+  const [scheme, token] = (req.headers.authorization || '').split(' ');
+  if (scheme !== 'Bearer' || !token) {
+    return sendAuthError(res, 401, 'Authentication required', 'Missing launch token (Authorization: Bearer <token>)');
+  }
+
+  try {
+    req.launch = verifyLaunchToken(token);
+    next();
+  } catch (error) {
+    if (error.statusCode !== 401) {
+      logger.error('[Auth] Launch token verification unavailable:', error.message);
+      return sendAuthError(res, 500, 'Authentication unavailable', error.message);
+    }
+
+    logger.warn(`[Auth] Rejected launch token for ${req.method} ${req.originalUrl}: ${error.message}`);
+    sendAuthError(res, 401, error.name === 'TokenExpiredError' ? 'Launch expired' : 'Invalid launch token', error.message);
+  }
+};
+
+/**
+ * Route param handler (router.param) that only lets the launching learner/tutorial through
+ * @param {'userId'|'tutorialId'} claim - Launch claim the param must equal
+ * @returns {Function} Express param callback
+ */
+const requireLaunchParam = (claim) => (req, res, next, value) => {
+  if (req.launch && req.launch[claim] === value) {
+    return next();
+  }
+
+  logger.warn(`[Auth] ${req.launch?.userId} denied access to ${claim} ${value}`);
+  sendAuthError(res, 403, 'Forbidden', `This launch does not grant access to ${claim} ${value}`);
+};
+
+/**
+ * Reject access to a quiz session created for another learner or another tutorial
+ * (a launch for one tutorial must not start or submit a quiz of another)
+ * @param {Object} req - Request with req.launch
+ * @param {Object} res - Response
+ * @param {Object} session - Quiz session
+ * @returns {boolean} true when a 403 was sent
+ */
+const denyForeignSession = (req, res, session) => {
+  if (session.userId === req.launch.userId && session.tutorialId === req.launch.tutorialId) {
+    return false;
+  }
+
+  const owner = session.userId === req.launch.userId ? 'another tutorial' : 'another learner';
+  logger.warn(`[Auth] ${req.launch.userId} (tutorial ${req.launch.tutorialId}) denied access to quiz session ${session.id}`);
+  sendAuthError(res, 403, 'Forbidden', `This quiz session belongs to ${owner}`);
+  return true;
+};
+
+module.exports = {
+  requireLaunchToken,
+  requireLaunchParam,
+  denyForeignSession
+};
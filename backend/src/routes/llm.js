@@ -11,6 +11,9 @@ const { GoogleGenerativeAI } = require('@google/generative-ai');
 const Joi = require('joi');
 const logger = require('../services/logger');
 const cache = require('../services/cache');
+const quizSessionService = require('../services/quizSessionService');
+const historyService = require('../services/historyService');
+const { QUESTION_TYPES } = require('../config/quiz');
 
 const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY);
 
@@ -20,13 +23,18 @@ const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY);
 
 const generateQuestionsSchema = Joi.object({
   content: Joi.string().min(100).max(50000).required(),
-  questionCount: Joi.number().integer().min(1).max(10).default(3),
-  difficulty: Joi.string().valid('easy', 'medium', 'hard').default('medium'),
+  // Ignored - count, formats and difficulty come from the tutorial quiz config and the
+  // learner's graded attempts, so a client cannot ask for a shorter or easier quiz
+  questionCount: Joi.number().integer().min(1).max(10).optional(),
+  difficulty: Joi.string().valid('easy', 'medium', 'hard').optional(),
+  questionType: Joi.string().valid(...QUESTION_TYPES).optional(),
+  questionTypes: Joi.array().items(Joi.string().valid(...QUESTION_TYPES)).min(1).unique().optional(),
+  previousScore: Joi.number().integer().min(0).max(100).optional(),
   language: Joi.string().valid('id', 'en').default('id'),
-  questionType: Joi.string().valid('multiple-choice', 'true-false', 'short-answer').default('multiple-choice'),
   attemptNumber: Joi.number().integer().min(0).default(0), // For cache busting
-  previousScore: Joi.number().integer().min(0).max(100).optional(), // For adaptive difficulty
-  userId: Joi.string().optional() // For personalized questions
+  userId: Joi.string().optional(), // Ignored - learner and tutorial come from the launch token
+  tutorialId: Joi.string().optional(),
+  codeQuestions: Joi.boolean().default(true) // Code-reading questions from tutorial code blocks
 });
 
 // ============================================================================
@@ -34,6 +42,8 @@ const generateQuestionsSchema = Joi.object({
 // ============================================================================
 // Generates questions with adaptive difficulty based on user performance
 // Cache key includes attemptNumber to ensure fresh questions on retry
+// Answer keys stay in a server-side quiz session - the client only receives
+// questions + sessionId and gets graded via POST /api/submissions
 // ============================================================================
 
 router.post('/generate-questions', async (req, res) => {
@@ -47,7 +57,26 @@ router.post('/generate-questions', async (req, res) => {
       });
     }
 
-    const { content, questionCount, difficulty, language, questionType, attemptNumber, previousScore, userId } = value;
+    const { content, language, attemptNumber, codeQuestions } = value;
+    // Stored on the quiz session for grading and access checks
+    const { userId, tutorialId } = req.launch;
+
+    // The attempt limit is enforced here - the quiz UI only hides the retry button
+    const { maxAttempts, questionCount, questionTypes, startingDifficulty } = await quizSessionService.resolveQuizConfig(tutorialId);
+    if (await historyService.hasReachedAttemptLimit(userId, tutorialId, maxAttempts)) {
+      return res.status(403).json({
+        error: 'Attempt limit reached',
+        message: `Maximum of ${maxAttempts} attempts for tutorial ${tutorialId} reached`
+      });
+    }
+
+    // Adapt from the last attempt the server graded, not from what the client reports
+    const lastGraded = tutorialId ? await historyService.getLastGradedAttempt(userId, tutorialId) : null;
+    const difficulty = lastGraded?.difficulty || startingDifficulty;
+    const previousScore = lastGraded?.percentage;
+
+    // Real code from the tutorial, used for code comprehension questions
+    const codeBlocks = codeQuestions ? extractCodeBlocks(content) : [];
 
     // ========================================================================
     // ADAPTIVE DIFFICULTY LOGIC
@@ -60,7 +89,7 @@ router.post('/generate-questions', async (req, res) => {
     
     let adjustedDifficulty = difficulty;
     
-    if (previousScore !== undefined && attemptNumber > 0) {
+    if (previousScore !== undefined) {
       const scorePercentage = previousScore;
       
       if (scorePercentage >= 80 && difficulty !== 'hard') {
@@ -76,20 +105,32 @@ router.post('/generate-questions', async (req, res) => {
     // CACHE KEY GENERATION
     // ========================================================================
     // Include attemptNumber and userId to prevent returning same questions
-    // Format: questions:{contentHash}:{difficulty}:{count}:{attempt}:{userId}
+    // Format: questions:{contentHash}:{difficulty}:{count}:{types}:{code}:{attempt}:{userId}
     // ========================================================================
     
     const contentHash = Buffer.from(content).toString('base64').slice(0, 32);
-    const cacheKey = `questions:${contentHash}:${adjustedDifficulty}:${questionCount}:${attemptNumber}:${userId || 'anonymous'}`;
+    const codeMode = codeBlocks.length > 0 ? 'code' : 'text';
+    const cacheKey = `questions:${contentHash}:${adjustedDifficulty}:${questionCount}:${language}:${questionTypes.join('+')}:${codeMode}:${attemptNumber}:${userId || 'anonymous'}`;
     
     const cached = await cache.get(cacheKey);
     
     if (cached) {
       logger.info(`✅ Returning cached questions (attempt: ${attemptNumber}, difficulty: ${adjustedDifficulty})`);
+      const cachedQuestions = JSON.parse(cached);
+      const cachedSession = await quizSessionService.createSession({
+        userId,
+        tutorialId,
+        difficulty: adjustedDifficulty,
+        attemptNumber,
+        language,
+        questions: cachedQuestions
+      });
+
       return res.json({
         success: true,
         data: {
-          questions: JSON.parse(cached)
+          sessionId: cachedSession.id,
+          questions: quizSessionService.toPublicQuestions(cachedQuestions)
         },
         cached: true,
         difficulty: adjustedDifficulty,
@@ -104,7 +145,7 @@ router.post('/generate-questions', async (req, res) => {
     
     const model = genAI.getGenerativeModel({ model: "gemini-2.5-flash" });
 
-    const prompt = createPrompt(content, questionCount, adjustedDifficulty, language, questionType, attemptNumber);
+    const prompt = createPrompt(content, questionCount, adjustedDifficulty, language, questionTypes, attemptNumber, codeBlocks);
     
     logger.info(`🤖 Generating ${questionCount} questions (difficulty: ${adjustedDifficulty}, attempt: ${attemptNumber})`);
     
@@ -116,7 +157,7 @@ router.post('/generate-questions', async (req, res) => {
     // PARSE AND VALIDATE RESPONSE
     // ========================================================================
     
-    const questions = parseGeminiResponse(text, questionCount);
+    const questions = parseGeminiResponse(text, questionCount, questionTypes, language);
 
     if (!questions || questions.length === 0) {
       throw new Error('Failed to generate valid questions');
@@ -131,13 +172,23 @@ router.post('/generate-questions', async (req, res) => {
     logger.info(`✅ Successfully generated ${questions.length} questions (difficulty: ${adjustedDifficulty})`);
 
     // ========================================================================
-    // RETURN RESPONSE
+    // STORE ANSWER KEY IN QUIZ SESSION & RETURN RESPONSE
     // ========================================================================
     
+    const session = await quizSessionService.createSession({
+      userId,
+      tutorialId,
+      difficulty: adjustedDifficulty,
+      attemptNumber,
+      language,
+      questions
+    });
+
     res.json({
       success: true,
       data: {
-        questions
+        sessionId: session.id,
+        questions: quizSessionService.toPublicQuestions(questions)
       },
       cached: false,
       difficulty: adjustedDifficulty,
@@ -148,7 +199,8 @@ router.post('/generate-questions', async (req, res) => {
         adjustedDifficulty,
         previousScore,
         language,
-        questionType,
+        questionTypes,
+        codeBlocks: codeBlocks.length,
         contentLength: content.length,
         questionCount: questions.length
       }
@@ -161,14 +213,33 @@ router.post('/generate-questions', async (req, res) => {
     // FALLBACK: Return demo questions on error
     // ========================================================================
     
-    const fallbackQuestions = getFallbackQuestions(req.body.questionCount || 3);
+    const fallbackQuestions = getFallbackQuestions();
+
+    let fallbackSession;
+    try {
+      fallbackSession = await quizSessionService.createSession({
+        userId: req.launch.userId,
+        tutorialId: req.launch.tutorialId,
+        difficulty: 'medium', // Demo questions are not graded by difficulty
+        attemptNumber: req.body.attemptNumber || 0,
+        language: 'id', // Demo questions are Indonesian
+        questions: fallbackQuestions
+      });
+    } catch (sessionError) {
+      logger.error('❌ Failed to create fallback quiz session:', sessionError);
+      return res.status(500).json({
+        error: 'Question generation failed',
+        message: sessionError.message
+      });
+    }
     
     res.status(200).json({
       success: false,
       error: 'Question generation failed',
       message: 'Menggunakan soal contoh untuk development/demo',
       data: {
-        questions: fallbackQuestions
+        sessionId: fallbackSession.id,
+        questions: quizSessionService.toPublicQuestions(fallbackQuestions)
       },
       fallback: true,
       generatedAt: new Date().toISOString()
@@ -176,13 +247,135 @@ router.post('/generate-questions', async (req, res) => {
   }
 });
 
+// ============================================================================
+// CODE BLOCK EXTRACTION
+// ============================================================================
+// Pulls real code out of tutorial content (Markdown fences or HTML <pre>)
+// so code comprehension questions quote actual material instead of
+// invented snippets
+// ============================================================================
+
+const MAX_CODE_BLOCKS = 5;
+const MAX_SNIPPET_LENGTH = 1500;
+const MAX_TOPIC_LENGTH = 60;
+
+function decodeHtmlEntities(text) {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&#x27;/g, "'")
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&');
+}
+
+function extractCodeBlocks(content) {
+  const blocks = [];
+
+  // Markdown fenced blocks: ```js ... ```
+  for (const match of content.matchAll(/```([\w+#-]*)[^\n]*\n([\s\S]*?)```/g)) {
+    blocks.push({ language: match[1], snippet: match[2] });
+  }
+
+  // HTML blocks: <pre><code class="language-js">...</code></pre>
+  for (const match of content.matchAll(/<pre[^>]*>([\s\S]*?)<\/pre>/gi)) {
+    const languageMatch = match[0].match(/(?:language|lang)-([\w+#-]+)/i);
+    const snippet = decodeHtmlEntities(match[1].replace(/<[^>]*>/g, ''));
+    blocks.push({ language: languageMatch ? languageMatch[1] : '', snippet });
+  }
+
+  return blocks
+    .map(block => normalizeCodeSnippet(block))
+    .filter(block => block && block.snippet.split('\n').length >= 2) // Skip one-liners (commands, file names)
+    .slice(0, MAX_CODE_BLOCKS);
+}
+
+// Validate a { language, snippet } code object coming from content or the model
+function normalizeCodeSnippet(code) {
+  if (!code || typeof code !== 'object' || typeof code.snippet !== 'string') {
+    return null;
+  }
+
+  const snippet = code.snippet.replace(/\r\n/g, '\n').replace(/^\n+|\s+$/g, '');
+  if (!snippet) {
+    return null;
+  }
+
+  const language = typeof code.language === 'string' ? code.language.trim().toLowerCase() : '';
+
+  return {
+    language: /^[a-z0-9+#-]{1,20}$/.test(language) ? language : 'plaintext',
+    snippet: snippet.substring(0, MAX_SNIPPET_LENGTH)
+  };
+}
+
 // ============================================================================
 // PROMPT CREATION FUNCTION
 // ============================================================================
 // Creates optimized prompt for Gemini with difficulty-aware instructions
+// Supports mixing question types (multiple-choice, true-false, short-answer, multi-select)
 // ============================================================================
 
-function createPrompt(content, questionCount, difficulty, language, questionType, attemptNumber = 0) {
+const QUESTION_TYPE_GUIDES = {
+  'multiple-choice': 'Pilihan ganda: tepat 4 pilihan (A, B, C, D) dengan hanya 1 jawaban benar',
+  'true-false': 'Benar/Salah: berupa pernyataan, options WAJIB [{"id": "true", "text": "Benar"}, {"id": "false", "text": "Salah"}] dan correctAnswer "true" atau "false"',
+  'short-answer': 'Isian singkat: jawaban 1-3 kata, TANPA options, correctAnswer berisi jawaban baku dan acceptedAnswers berisi variasi penulisan lain yang juga benar',
+  'multi-select': 'Pilih semua yang benar: tepat 4 pilihan (A, B, C, D) dengan 2-3 jawaban benar, correctAnswer WAJIB berupa array ID (contoh ["A", "C"]) dan pertanyaan menyebutkan "pilih semua yang benar"'
+};
+
+const QUESTION_TYPE_EXAMPLES = {
+  'multiple-choice': {
+    id: 1,
+    type: 'multiple-choice',
+    topic: 'Nama konsep yang diuji',
+    question: 'Pertanyaan yang jelas dan spesifik?',
+    options: [
+      { id: 'A', text: 'Opsi jawaban A' },
+      { id: 'B', text: 'Opsi jawaban B' },
+      { id: 'C', text: 'Opsi jawaban C' },
+      { id: 'D', text: 'Opsi jawaban D' }
+    ],
+    correctAnswer: 'B',
+    explanation: 'Penjelasan lengkap: Jawaban B benar karena [alasan edukatif yang membantu pemahaman]'
+  },
+  'true-false': {
+    id: 2,
+    type: 'true-false',
+    topic: 'Nama konsep yang diuji',
+    question: 'Pernyataan yang harus dinilai benar atau salah.',
+    options: [
+      { id: 'true', text: 'Benar' },
+      { id: 'false', text: 'Salah' }
+    ],
+    correctAnswer: 'false',
+    explanation: 'Penjelasan mengapa pernyataan tersebut salah'
+  },
+  'short-answer': {
+    id: 3,
+    type: 'short-answer',
+    topic: 'Nama konsep yang diuji',
+    question: 'Pertanyaan dengan jawaban singkat?',
+    correctAnswer: 'jawaban baku',
+    acceptedAnswers: ['variasi jawaban', 'singkatan jawaban'],
+    explanation: 'Penjelasan jawaban yang benar'
+  },
+  'multi-select': {
+    id: 4,
+    type: 'multi-select',
+    topic: 'Nama konsep yang diuji',
+    question: 'Manakah pernyataan berikut yang benar? (pilih semua yang benar)',
+    options: [
+      { id: 'A', text: 'Opsi jawaban A' },
+      { id: 'B', text: 'Opsi jawaban B' },
+      { id: 'C', text: 'Opsi jawaban C' },
+      { id: 'D', text: 'Opsi jawaban D' }
+    ],
+    correctAnswer: ['A', 'C'],
+    explanation: 'Penjelasan mengapa A dan C benar, serta mengapa B dan D salah'
+  }
+};
+
+function createPrompt(content, questionCount, difficulty, language, questionTypes = ['multiple-choice'], attemptNumber = 0, codeBlocks = []) {
   const languageInstructions = language === 'id' ? 
     'Gunakan Bahasa Indonesia yang baik dan benar. WAJIB gunakan Bahasa Indonesia untuk semua soal dan penjelasan.' : 
     'Use clear and proper English';
@@ -201,13 +394,39 @@ function createPrompt(content, questionCount, difficulty, language, questionType
     ? `\n⚠️ INI ADALAH PERCOBAAN KE-${attemptNumber + 1}. Buat soal yang BERBEDA dari sebelumnya dengan memfokuskan aspek yang berbeda dari materi.` 
     : '';
 
+  const isMixed = questionTypes.length > 1;
+  const typeInstructions = questionTypes
+    .map(type => `   - "${type}": ${QUESTION_TYPE_GUIDES[type]}`)
+    .join('\n');
+  const hasCode = codeBlocks.length > 0;
+  const examples = questionTypes.map((type, index) => ({ ...QUESTION_TYPE_EXAMPLES[type], id: index + 1 }));
+  if (hasCode) {
+    examples[0] = {
+      ...examples[0],
+      question: 'Apa output dari kode berikut?',
+      code: { language: codeBlocks[0].language, snippet: 'potongan kode dari materi' }
+    };
+  }
+  const outputExample = JSON.stringify(examples, null, 2);
+
+  // Code comprehension: quote real snippets, ask about output, bugs or behavior
+  const codeSection = hasCode
+    ? `\nPOTONGAN KODE DARI MATERI:\n${codeBlocks
+      .map((block, index) => `[Kode ${index + 1}] (${block.language})\n${block.snippet}`)
+      .join('\n\n')}\n`
+    : '';
+  const codeInstructions = hasCode
+    ? `\n9. Buat sekitar setengah soal sebagai soal CODE COMPREHENSION: salin potongan kode NYATA dari bagian "POTONGAN KODE DARI MATERI" (boleh dipersingkat, maksimal 15 baris) ke field "code" berupa {"language": "...", "snippet": "..."}, lalu tanyakan output, bug, atau perilaku kode tersebut
+10. JANGAN menulis kode di dalam field "question" - kode hanya di field "code". Soal tanpa kode tidak perlu field "code"`
+    : '';
+
   return `Kamu adalah asisten pembuat soal formatif untuk platform pembelajaran Dicoding Indonesia.
 
 KONTEN MATERI PEMBELAJARAN:
 ${cleanContent}
-
+${codeSection}
 TUGAS KAMU:
-Buat ${questionCount} soal pilihan ganda BERKUALITAS TINGGI untuk formative assessment.
+Buat ${questionCount} soal BERKUALITAS TINGGI untuk formative assessment.
 ${variationNote}
 
 ATURAN PENTING:
@@ -215,35 +434,131 @@ ATURAN PENTING:
 2. ${languageInstructions}
 3. Soal harus RELEVAN dengan konten materi di atas
 4. Hindari soal yang terlalu mudah ditebak
-5. Setiap soal HARUS memiliki 4 pilihan (A, B, C, D)
-6. Hanya 1 jawaban benar per soal
+5. Tipe soal yang diizinkan${isMixed ? ' (campurkan tipe-tipe ini dalam satu kuis)' : ''}:
+${typeInstructions}
+6. Setiap soal WAJIB punya field "type" sesuai tipe di atas
 7. Penjelasan harus MENDIDIK dan membantu siswa memahami konsep
+8. Setiap soal WAJIB punya field "topic": nama konsep dari materi yang diuji (2-4 kata, contoh "useEffect Hook"). Gunakan nama topik yang SAMA persis untuk konsep yang sama agar hasil antar percobaan bisa dibandingkan${codeInstructions}
 
 FORMAT OUTPUT - WAJIB JSON VALID:
-[
-  {
-    "id": 1,
-    "question": "Pertanyaan yang jelas dan spesifik?",
-    "options": [
-      {"id": "A", "text": "Opsi jawaban A"},
-      {"id": "B", "text": "Opsi jawaban B"},
-      {"id": "C", "text": "Opsi jawaban C"},
-      {"id": "D", "text": "Opsi jawaban D"}
-    ],
-    "correctAnswer": "B",
-    "explanation": "Penjelasan lengkap: Jawaban B benar karena [alasan edukatif yang membantu pemahaman]"
-  }
-]
+${outputExample}
 
 CRITICAL: 
 - Output HARUS JSON array valid
 - JANGAN tambahkan text di luar JSON
 - JANGAN gunakan markdown code blocks
+- Di dalam teks question/options/explanation boleh pakai Markdown sederhana (\`kode inline\`, **tebal**, daftar), JANGAN pakai tag HTML
+- Rumus matematika ditulis $...$ dan soal yang memakainya WAJIB punya field "math": true; di soal lain JANGAN pakai tanda $ untuk rumus
 - Langsung mulai dengan [ dan akhiri dengan ]`;
 }
 
+// Normalize a single question according to its type; returns null if unusable
+function normalizeQuestion(q, index, questionTypes, language) {
+  const type = questionTypes.includes(q.type) ? q.type : questionTypes[0];
+  const question = q.question || `Soal ${index + 1}`;
+  const explanation = q.explanation || "Penjelasan belum tersedia.";
+
+  if (type === 'true-false') {
+    const answer = String(q.correctAnswer).trim().toLowerCase();
+    return {
+      id: index + 1,
+      type,
+      question,
+      options: getTrueFalseOptions(language),
+      correctAnswer: ['true', 'benar'].includes(answer) ? 'true' : 'false',
+      explanation
+    };
+  }
+
+  if (type === 'short-answer') {
+    const correctAnswer = typeof q.correctAnswer === 'string' ? q.correctAnswer.trim() : '';
+    if (!correctAnswer) {
+      return null; // Cannot be graded without an answer key
+    }
+
+    return {
+      id: index + 1,
+      type,
+      question,
+      correctAnswer,
+      acceptedAnswers: (Array.isArray(q.acceptedAnswers) ? q.acceptedAnswers : [])
+        .filter(answer => typeof answer === 'string' && answer.trim().length > 0),
+      explanation
+    };
+  }
+
+  const normalizedOptions = normalizeOptions(q.options);
+
+  if (type === 'multi-select') {
+    // Accept ["A", "C"] as well as "A, C"
+    const rawAnswer = Array.isArray(q.correctAnswer) ? q.correctAnswer : String(q.correctAnswer || '').split(',');
+    const optionIds = normalizedOptions.map(opt => opt.id);
+    const correctAnswer = [...new Set(rawAnswer.map(id => String(id).trim().toUpperCase()))]
+      .filter(id => optionIds.includes(id))
+      .sort();
+
+    if (correctAnswer.length === 0) {
+      return null; // Cannot be graded without an answer key
+    }
+
+    return {
+      id: index + 1,
+      type,
+      question,
+      options: normalizedOptions,
+      correctAnswer,
+      explanation
+    };
+  }
+
+  return {
+    id: index + 1,
+    type: 'multiple-choice',
+    question,
+    options: normalizedOptions,
+    correctAnswer: q.correctAnswer || "A",
+    explanation
+  };
+}
+
+// Ensure options have correct structure (exactly 4 options A-D)
+function normalizeOptions(options) {
+  const normalizedOptions = (Array.isArray(options) ? options : [])
+    .slice(0, 4)
+    .map((opt, optIndex) => ({
+      id: typeof opt === 'object' && opt.id ? opt.id : String.fromCharCode(65 + optIndex),
+      text: typeof opt === 'object' && opt.text ? opt.text : (typeof opt === 'string' ? opt : `Opsi ${optIndex + 1}`)
+    }));
+
+  while (normalizedOptions.length < 4) {
+    const nextId = String.fromCharCode(65 + normalizedOptions.length);
+    normalizedOptions.push({
+      id: nextId,
+      text: `Opsi ${nextId}`
+    });
+  }
+
+  return normalizedOptions;
+}
+
+// Short concept label used to match questions across attempts
+function normalizeTopic(topic) {
+  if (typeof topic !== 'string') {
+    return null;
+  }
+
+  const normalized = topic.replace(/\s+/g, ' ').trim();
+  return normalized ? normalized.substring(0, MAX_TOPIC_LENGTH) : null;
+}
+
+function getTrueFalseOptions(language) {
+  return language === 'en'
+    ? [{ id: 'true', text: 'True' }, { id: 'false', text: 'False' }]
+    : [{ id: 'true', text: 'Benar' }, { id: 'false', text: 'Salah' }];
+}
+
 // Parse Gemini response dan validate format - IMPROVED VERSION
-function parseGeminiResponse(text, expectedCount) {
+function parseGeminiResponse(text, expectedCount, questionTypes = ['multiple-choice'], language = 'id') {
   try {
     // Log raw response untuk debugging
     logger.info('Raw Gemini response length:', text.length);
@@ -261,44 +576,37 @@ function parseGeminiResponse(text, expectedCount) {
     }
     
     // Parse JSON
-    const questions = JSON.parse(cleanText);
+    let questions = JSON.parse(cleanText);
     
     if (!Array.isArray(questions)) {
       logger.warn('Response is not an array, wrapping in array');
-      return [questions].slice(0, expectedCount);
+      questions = [questions];
     }
 
     if (questions.length === 0) {
       throw new Error('Empty questions array');
     }
 
-    // Validate dan normalize setiap question
-    const validQuestions = questions.slice(0, expectedCount).map((q, index) => {
-      // Ensure options have correct structure
-      const normalizedOptions = (Array.isArray(q.options) ? q.options : [])
-        .slice(0, 4)
-        .map((opt, optIndex) => ({
-          id: typeof opt === 'object' && opt.id ? opt.id : String.fromCharCode(65 + optIndex),
-          text: typeof opt === 'object' && opt.text ? opt.text : (typeof opt === 'string' ? opt : `Opsi ${optIndex + 1}`)
-        }));
-
-      // Ensure we have exactly 4 options
-      while (normalizedOptions.length < 4) {
-        const nextId = String.fromCharCode(65 + normalizedOptions.length);
-        normalizedOptions.push({
-          id: nextId,
-          text: `Opsi ${nextId}`
-        });
-      }
-
-      return {
-        id: index + 1,
-        question: q.question || `Soal ${index + 1}`,
-        options: normalizedOptions,
-        correctAnswer: q.correctAnswer || "A",
-        explanation: q.explanation || "Penjelasan belum tersedia."
-      };
-    });
+    // Validate dan normalize setiap question, lalu renumber setelah filter
+    const validQuestions = questions
+      .slice(0, expectedCount)
+      .map((q, index) => {
+        const normalized = normalizeQuestion(q, index, questionTypes, language);
+        if (!normalized) {
+          return null;
+        }
+
+        const topic = normalizeTopic(q.topic);
+        const code = normalizeCodeSnippet(q.code);
+        return {
+          ...normalized,
+          ...(topic ? { topic } : {}),
+          ...(code ? { code } : {}),
+          ...(q.math === true ? { math: true } : {}) // Text has $...$ formulas, rendered with KaTeX
+        };
+      })
+      .filter(Boolean)
+      .map((q, index) => ({ ...q, id: index + 1 }));
 
     logger.info(`Successfully parsed ${validQuestions.length} questions`);
     return validQuestions;
@@ -315,6 +623,8 @@ function getFallbackQuestions(count = 3) {
   const fallback = [
     {
       id: 1,
+      type: "multiple-choice",
+      topic: "React Hooks",
       question: "Apa keuntungan utama menggunakan React Hooks dibandingkan dengan Class Components?",
       options: [
         { id: "A", text: "Lebih cepat dalam rendering" },
@@ -327,6 +637,8 @@ function getFallbackQuestions(count = 3) {
     },
     {
       id: 2,
+      type: "multiple-choice",
+      topic: "useEffect Hook",
       question: "Kapan sebaiknya menggunakan useEffect() dalam React?",
       options: [
         { id: "A", text: "Hanya untuk API calls" },
@@ -339,6 +651,8 @@ function getFallbackQuestions(count = 3) {
     },
     {
       id: 3,
+      type: "multiple-choice",
+      topic: "Props dan State",
       question: "Apa perbedaan antara props dan state dalam React?",
       options: [
         { id: "A", text: "Props bersifat mutable, state immutable" },
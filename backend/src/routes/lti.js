@@ -0,0 +1,96 @@
+// LTI Routes - LTI 1.3 tool endpoints for Moodle, Canvas and other platforms
+// Not under /api: the LMS calls these directly, before any launch token exists.
+const express = require('express');
+const router = express.Router();
+const logger = require('../services/logger');
+const ltiService = require('../services/ltiService');
+const ltiKeyService = require('../services/ltiKeyService');
+const { signLaunchToken } = require('../services/launchTokenService');
+const { ltiConfig } = require('../config/lti');
+
+// The login state is bound to the browser with a cookie; SameSite=None because the
+// launch is a cross-site form post from the LMS (often inside its iframe)
+const STATE_COOKIE_PREFIX = 'lti_state_';
+const STATE_COOKIE_MAX_AGE_MS = 10 * 60 * 1000; // same as the stored state
+const STATE_COOKIE_OPTIONS = { httpOnly: true, secure: true, sameSite: 'none', path: '/lti' };
+
+const readCookie = (req, name) => {
+  const pair = (req.headers.cookie || '')
+    .split(';')
+    .map(part => part.trim())
+    .find(part => part.startsWith(`${name}=`));
+  return pair ? decodeURIComponent(pair.slice(name.length + 1)) : null;
+};
+
+const sendLtiError = (res, error) => {
+  const statusCode = error.statusCode || 500;
+  res.status(statusCode).json({
+    error: statusCode === 500 ? 'LTI launch failed' : 'Invalid LTI launch',
+    message: error.message,
+    status: 'error',
+    timestamp: new Date().toISOString()
+  });
+};
+
+// GET|POST /lti/login - OIDC third-party initiated login (platforms may use either method)
+const handleLogin = async (req, res) => {
+  try {
+    const params = { ...req.query, ...req.body };
+    const { redirectUrl, state, browserBinding } = await ltiService.createLoginRequest(params);
+    res.cookie(`${STATE_COOKIE_PREFIX}${state}`, browserBinding, { ...STATE_COOKIE_OPTIONS, maxAge: STATE_COOKIE_MAX_AGE_MS });
+    res.redirect(302, redirectUrl);
+  } catch (error) {
+    logger.warn(`[LtiRoutes] Login initiation rejected: ${error.message}`);
+    sendLtiError(res, error);
+  }
+};
+
+router.get('/login', handleLogin);
+router.post('/login', handleLogin);
+
+// POST /lti/launch - Resource link launch (id_token + state, form_post)
+router.post('/launch', async (req, res) => {
+  try {
+    const { id_token: idToken, state } = req.body;
+    const cookieName = `${STATE_COOKIE_PREFIX}${state}`;
+    res.clearCookie(cookieName, STATE_COOKIE_OPTIONS);
+
+    const launch = await ltiService.validateLaunch(idToken, state, readCookie(req, cookieName));
+    await ltiService.recordLaunch(launch);
+
+    logger.info(`[LtiRoutes] Launch from ${launch.issuer}: user ${launch.userId}, tutorial ${launch.tutorialId}, grade passback ${launch.ags ? 'on' : 'off'}`);
+
+    // From here on the LMS launch is an ordinary LearnCheck launch
+    const token = signLaunchToken({ userId: launch.userId, tutorialId: launch.tutorialId });
+    res.redirect(302, `${ltiConfig.frontendUrl}/?token=${token}`);
+  } catch (error) {
+    logger.warn(`[LtiRoutes] Launch rejected: ${error.message}`);
+    sendLtiError(res, error);
+  }
+});
+
+// GET /lti/jwks - Tool public keys (platforms verify our AGS client assertions with these)
+router.get('/jwks', (req, res) => {
+  try {
+    res.json(ltiKeyService.getToolJwks());
+  } catch (error) {
+    logger.error('[LtiRoutes] Tool key unavailable:', error.message);
+    sendLtiError(res, error);
+  }
+});
+
+// GET /lti/config - Values to enter when registering LearnCheck in an LMS
+router.get('/config', (req, res) => {
+  res.json({
+    data: {
+      loginUrl: ltiConfig.loginUrl,
+      launchUrl: ltiConfig.launchUrl,
+      jwksUrl: ltiConfig.jwksUrl,
+      customParameters: 'tutorial_id=<Dicoding tutorial ID>',
+      platforms: ltiConfig.platforms.map(({ issuer, clientId }) => ({ issuer, clientId }))
+    },
+    status: 'success'
+  });
+});
+
+module.exports = router;
@@ -0,0 +1,81 @@
+// Quiz Session Routes - Server-confirmed attempt deadlines
+const express = require('express');
+const router = express.Router();
+const Joi = require('joi');
+const logger = require('../services/logger');
+const quizSessionService = require('../services/quizSessionService');
+const analyticsService = require('../services/analyticsService');
+const { denyForeignSession } = require('../middleware/auth');
+
+// durationMinutes is only used for sessions created without a tutorial quiz config
+const startSessionSchema = Joi.object({
+  durationMinutes: Joi.number().integer().min(1).max(180).default(5)
+});
+
+// POST /api/sessions/:sessionId/start - Fix the attempt deadline (idempotent)
+router.post('/:sessionId/start', async (req, res) => {
+  try {
+    const { error, value } = startSessionSchema.validate(req.body || {});
+    if (error) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.details.map(d => d.message)
+      });
+    }
+
+    const { sessionId } = req.params;
+    const session = await quizSessionService.getSession(sessionId);
+
+    if (!session) {
+      return res.status(404).json({
+        error: 'Quiz session not found',
+        message: `Quiz session ${sessionId} does not exist or has expired`
+      });
+    }
+
+    if (denyForeignSession(req, res, session)) {
+      return;
+    }
+
+    // Deadline is set once - a reload gets the original deadline back
+    if (!session.deadline) {
+      const startedAt = Date.now();
+      const durationMinutes = session.timeLimitMinutes || value.durationMinutes;
+      session.startedAt = new Date(startedAt).toISOString();
+      session.deadline = new Date(startedAt + durationMinutes * 60 * 1000).toISOString();
+      await quizSessionService.saveSession(session);
+
+      logger.info(`[SessionRoutes] Session ${sessionId} started, deadline ${session.deadline}`);
+
+      analyticsService.track('assessment.started', {
+        sessionId,
+        userId: session.userId,
+        tutorialId: session.tutorialId,
+        attemptNumber: session.attemptNumber,
+        difficulty: session.difficulty,
+        language: session.language,
+        startedAt: session.startedAt,
+        deadline: session.deadline
+      });
+    }
+
+    res.json({
+      data: {
+        sessionId,
+        startedAt: session.startedAt,
+        deadline: session.deadline,
+        serverTime: new Date().toISOString() // Lets the client correct clock skew
+      },
+      status: 'success'
+    });
+
+  } catch (error) {
+    logger.error(`[SessionRoutes] Error starting session ${req.params.sessionId}:`, error.message);
+    res.status(500).json({
+      error: 'Failed to start quiz session',
+      message: error.message
+    });
+  }
+});
+
+module.exports = router;
@@ -1,32 +1,185 @@
 // Submission Routes - Handle assessment submissions
+const crypto = require('crypto');
 const express = require('express');
 const router = express.Router();
+const Joi = require('joi');
+const logger = require('../services/logger');
+const quizSessionService = require('../services/quizSessionService');
+const analyticsService = require('../services/analyticsService');
+const historyService = require('../services/historyService');
+const { gradeAnswers, haveSameAnswers, isLateSubmission } = require('../services/gradingService');
+const { CONFIDENCE_LEVELS } = require('../config/quiz');
+const { requireLaunchParam, denyForeignSession } = require('../middleware/auth');
 
-// POST /api/submissions
-router.post('/', (req, res) => {
+router.param('userId', requireLaunchParam('userId'));
+
+const submissionSchema = Joi.object({
+  sessionId: Joi.string().required(),
+  userId: Joi.string().optional(), // Ignored - the session records who it was generated for
+  tutorialId: Joi.string().optional(),
+  answers: Joi.object().pattern(
+    /^\d+$/,
+    Joi.alternatives().try(
+      Joi.string().allow(''),
+      Joi.array().items(Joi.string()).max(10) // multi-select option IDs
+    )
+  ).required(),
+  confidence: Joi.object().pattern(/^\d+$/, Joi.string().valid(...CONFIDENCE_LEVELS)).default({}),
+  // Per-question interaction data captured by the quiz UI
+  telemetry: Joi.object({
+    questions: Joi.object().pattern(/^\d+$/, Joi.object({
+      timeOnTaskMs: Joi.number().integer().min(0).required(),
+      answerChanges: Joi.number().integer().min(0).required(),
+      visits: Joi.number().integer().min(0).required()
+    })).required(),
+    visitOrder: Joi.array().items(Joi.number().integer().min(0)).max(500).required()
+  }).optional(),
+  // Set by the frontend outbox when the learner submitted while offline
+  queuedAt: Joi.string().isoDate().optional()
+});
+
+const sendExistingSubmission = (res, submission) =>
+  res.status(200).json({
+    data: submission,
+    status: 'success',
+    message: 'Assessment already submitted'
+  });
+
+/**
+ * Grade answers against the session's answer key, store the result on the session
+ * and record the attempt. Callers hold the submission lock.
+ * @param {Object} session - Quiz session (not yet submitted)
+ * @param {Object} params - answers, confidence, telemetry, queuedAt from the request
+ * @returns {Promise<Object>} Submission
+ */
+const gradeSubmission = async (session, { answers, confidence, telemetry, queuedAt }) => {
+  const grading = gradeAnswers(session.questions, answers, {
+    passingScore: session.passingScore,
+    scoringMode: session.scoringMode,
+    confidence
+  });
+
+  // queuedAt is client-reported and never trusted on its own. A submission replayed
+  // from the offline outbox is timed by the server-stamped draft checkpoint when the
+  // checkpoint already held exactly these answers; otherwise by arrival time
+  const checkpoint = session.answersCheckpoint;
+  const submittedAtMs = queuedAt && checkpoint && haveSameAnswers(checkpoint.answers, answers)
+    ? new Date(checkpoint.receivedAt).getTime()
+    : Date.now();
+
+  const submission = {
+    id: crypto.randomUUID(),
+    sessionId: session.id,
+    userId: session.userId,
+    tutorialId: session.tutorialId,
+    difficulty: session.difficulty,
+    attemptNumber: session.attemptNumber,
+    ...grading,
+    deadline: session.deadline || null,
+    submittedLate: isLateSubmission(session.deadline, submittedAtMs),
+    submittedAt: new Date().toISOString(),
+    telemetry: telemetry || null,
+    queuedAt: queuedAt || null,
+    status: 'completed'
+  };
+
+  session.submission = submission;
+  await quizSessionService.saveSession(session);
+
+  // History sync is best-effort - the client still records the attempt and syncs it later
   try {
-    const { userId, tutorialId, results, score } = req.body;
-    
-    // In production, save to database
-    // For now, just return success response
-    
-    const submission = {
-      id: `sub_${Date.now()}`,
-      userId,
-      tutorialId,
-      results,
-      score,
-      submittedAt: new Date().toISOString(),
-      status: 'completed'
-    };
+    await historyService.recordSubmission(session, submission, { answers, confidence });
+  } catch (historyError) {
+    logger.warn(`Failed to record attempt history for ${submission.id}: ${historyError.message}`);
+  }
+
+  return submission;
+};
+
+// POST /api/submissions - Grade answers against the session's answer key
+router.post('/', async (req, res) => {
+  try {
+    const { error, value } = submissionSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.details.map(d => d.message)
+      });
+    }
+
+    const { sessionId, answers, confidence, telemetry, queuedAt } = value;
+    const session = await quizSessionService.getSession(sessionId);
+
+    if (!session) {
+      return res.status(404).json({
+        error: 'Quiz session not found',
+        message: `Quiz session ${sessionId} does not exist or has expired`
+      });
+    }
+
+    if (denyForeignSession(req, res, session)) {
+      return;
+    }
+
+    // Repeated submits (double click, retry after timeout) get the original grading
+    if (session.submission) {
+      return sendExistingSubmission(res, session.submission);
+    }
+
+    if (!await quizSessionService.acquireSubmissionLock(session.userId, session.tutorialId)) {
+      return res.status(409).json({
+        error: 'Submission in progress',
+        message: `Another submission for tutorial ${session.tutorialId} is being graded - retry shortly`
+      });
+    }
+
+    let submission;
+    try {
+      // Read again under the lock - a parallel submit may have graded this session meanwhile
+      const current = (await quizSessionService.getSession(sessionId)) || session;
+      if (current.submission) {
+        return sendExistingSubmission(res, current.submission);
+      }
+
+      // Sessions generated before the limit was reached (e.g. in parallel) can't exceed it either
+      if (await historyService.hasReachedAttemptLimit(session.userId, session.tutorialId, session.maxAttempts)) {
+        return res.status(403).json({
+          error: 'Attempt limit reached',
+          message: `Maximum of ${session.maxAttempts} attempts for tutorial ${session.tutorialId} reached`
+        });
+      }
+
+      submission = await gradeSubmission(current, { answers, confidence, telemetry, queuedAt });
+    } finally {
+      await quizSessionService.releaseSubmissionLock(session.userId, session.tutorialId);
+    }
 
     // Log submission for monitoring (would be saved to DB in production)
-    logger.info('Assessment submission received', {
-      userId,
-      tutorialId, 
-      score: `${score.percentage}%`,
-      correctAnswers: score.correct,
-      totalQuestions: score.total
+    logger.info('Assessment submission graded', {
+      userId: submission.userId,
+      tutorialId: submission.tutorialId,
+      score: `${submission.score.percentage}%`,
+      submittedLate: submission.submittedLate,
+      correctAnswers: submission.score.correct,
+      totalQuestions: submission.score.total,
+      misconceptions: submission.calibration.misconceptions // Confident but wrong
+    });
+
+    analyticsService.track('assessment.submitted', {
+      submissionId: submission.id,
+      sessionId,
+      userId: submission.userId,
+      tutorialId: submission.tutorialId,
+      attemptNumber: submission.attemptNumber,
+      difficulty: submission.difficulty,
+      language: session.language,
+      score: submission.score,
+      passed: submission.passed,
+      calibration: submission.calibration,
+      results: submission.results,
+      telemetry: submission.telemetry,
+      startedAt: session.startedAt || null,
+      submittedAt: submission.submittedAt
     });
 
     res.status(201).json({
@@ -44,25 +197,25 @@ router.post('/', (req, res) => {
   }
 });
 
-// GET /api/submissions/:userId
-router.get('/:userId', (req, res) => {
-  const { userId } = req.params;
-  
-  // Mock user submissions history
-  const submissions = [
-    {
-      id: 'sub_1',
-      tutorialId: 'react-hooks',
-      score: { correct: 2, total: 3, percentage: 67 },
-      submittedAt: new Date(Date.now() - 86400000).toISOString()
-    }
-  ];
+// GET /api/submissions/:userId - Attempt summaries across tutorials, newest first
+router.get('/:userId', async (req, res) => {
+  try {
+    const { userId } = req.params;
+    const submissions = await historyService.getAttemptSummaries(userId);
 
-  res.json({
-    data: submissions,
-    status: 'success',
-    count: submissions.length
-  });
+    res.json({
+      data: submissions,
+      status: 'success',
+      count: submissions.length
+    });
+
+  } catch (error) {
+    logger.error('Failed to fetch submissions:', error);
+    res.status(500).json({
+      error: 'Failed to fetch submissions',
+      message: error.message
+    });
+  }
 });
 
 module.exports = router;
\ No newline at end of file
@@ -4,8 +4,17 @@ const router = express.Router();
 const dicodingService = require('../services/dicodingService');
 const logger = require('../services/logger');
 const cacheService = require('../services/cache');
+const quizConfigService = require('../services/quizConfigService');
+const { requireLaunchParam } = require('../middleware/auth');
+
+// A launch only grants access to its own tutorial
+router.param('id', requireLaunchParam('tutorialId'));
+
+const ownTutorials = (req, tutorials = []) =>
+  tutorials.filter(tutorial => String(tutorial.id) === req.launch.tutorialId);
 
 // GET /api/tutorials - Get all tutorials with optional filtering
+// Only the launch's own tutorial is listed
 router.get('/', async (req, res) => {
   try {
     const { category, difficulty, search } = req.query;
@@ -18,10 +27,11 @@ router.get('/', async (req, res) => {
     const cached = await cacheService.get(cacheKey);
     if (cached) {
       logger.info('[TutorialRoutes] Returning cached tutorials list');
+      const data = ownTutorials(req, cached.data);
       return res.json({
         success: true,
-        data: cached.data,
-        count: cached.count,
+        data,
+        count: data.length,
         source: 'cache',
         status: 'success',
         timestamp: new Date().toISOString()
@@ -33,11 +43,12 @@ router.get('/', async (req, res) => {
     
     // Cache the result for 5 minutes
     await cacheService.set(cacheKey, result, 300);
-    
+
+    const data = ownTutorials(req, result.data);
     res.json({
       success: true,
-      data: result.data,
-      count: result.count,
+      data,
+      count: data.length,
       source: result.source,
       status: 'success',
       timestamp: new Date().toISOString()
@@ -120,4 +131,37 @@ router.get('/:id', async (req, res) => {
   }
 });
 
+// GET /api/tutorials/:id/quiz-config - Quiz settings (backend defaults + tutorial overrides)
+router.get('/:id/quiz-config', async (req, res) => {
+  try {
+    const { id } = req.params;
+    const config = await quizConfigService.getQuizConfig(id);
+
+    res.json({
+      success: true,
+      data: config,
+      status: 'success',
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error) {
+    if (error.message.includes('not found')) {
+      return res.status(404).json({
+        error: 'Tutorial not found',
+        message: error.message,
+        status: 'error',
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    logger.error(`[TutorialRoutes] Error fetching quiz config ${req.params.id}:`, error.message);
+    res.status(500).json({
+      error: 'Failed to fetch quiz config',
+      message: error.message,
+      status: 'error',
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
 module.exports = router;
\ No newline at end of file
@@ -4,6 +4,43 @@ const router = express.Router();
 const dicodingService = require('../services/dicodingService');
 const logger = require('../services/logger');
 const cacheService = require('../services/cache');
+const historyService = require('../services/historyService');
+const quizSessionService = require('../services/quizSessionService');
+const { requireLaunchParam } = require('../middleware/auth');
+const Joi = require('joi');
+
+// Learners can only reach their own data, for the tutorial they were launched into
+router.param('id', requireLaunchParam('userId'));
+router.param('tutorialId', requireLaunchParam('tutorialId'));
+
+// Attempts are stored as recorded by the client; only the fields used for merging are checked.
+// For attempts graded by the server only flaggedQuestions and pruned are taken over (see historyService)
+const attemptSchema = Joi.object({
+  id: Joi.string().max(100).required(),
+  timestamp: Joi.string().isoDate().required(),
+  updatedAt: Joi.string().isoDate().optional(),
+  flaggedQuestions: Joi.array().items(Joi.number().integer().min(0)).max(500).optional(),
+  pruned: Joi.boolean().optional()
+}).unknown(true);
+
+const historySyncSchema = Joi.object({
+  attempts: Joi.array().items(attemptSchema).max(200).required()
+});
+
+const draftSchema = Joi.object({
+  draft: Joi.object({
+    sessionId: Joi.string().required()
+  }).unknown(true).required(),
+  updatedAt: Joi.string().isoDate().required()
+});
+
+// Same values the frontend settings panel offers; partial updates are allowed
+const preferencesSchema = Joi.object({
+  theme: Joi.string().valid('light', 'dark'),
+  fontSize: Joi.string().valid('small', 'default', 'large'),
+  layoutWidth: Joi.string().valid('default', 'fullWidth'),
+  language: Joi.string().valid('id', 'en')
+}).min(1);
 
 // GET /api/users/:id/preferences  
 router.get('/:id/preferences', async (req, res) => {
@@ -52,8 +89,15 @@ router.get('/:id/preferences', async (req, res) => {
 // PUT /api/users/:id/preferences - Update user preferences
 router.put('/:id/preferences', async (req, res) => {
   try {
+    const { error, value: preferences } = preferencesSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.details.map(d => d.message)
+      });
+    }
+
     const { id } = req.params;
-    const preferences = req.body;
     
     // Update preferences via Dicoding service
     const result = await dicodingService.updateUserPreferences(id, preferences);
@@ -81,4 +125,136 @@ router.put('/:id/preferences', async (req, res) => {
   }
 });
 
+// GET /api/users/:id/history/:tutorialId - Attempt history stored for this tutorial
+router.get('/:id/history/:tutorialId', async (req, res) => {
+  try {
+    const { id, tutorialId } = req.params;
+    const attempts = await historyService.getAttempts(id, tutorialId);
+
+    res.json({
+      data: attempts,
+      status: 'success',
+      count: attempts.length
+    });
+
+  } catch (error) {
+    logger.error(`[UserRoutes] Error fetching history for user ${req.params.id}:`, error.message);
+    res.status(500).json({
+      error: 'Failed to fetch attempt history',
+      message: error.message
+    });
+  }
+});
+
+// PUT /api/users/:id/history/:tutorialId - Merge attempts from a device, returns the merged history
+router.put('/:id/history/:tutorialId', async (req, res) => {
+  try {
+    const { error, value } = historySyncSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.details.map(d => d.message)
+      });
+    }
+
+    const { id, tutorialId } = req.params;
+    const attempts = await historyService.mergeAttempts(id, tutorialId, value.attempts);
+
+    res.json({
+      data: attempts,
+      status: 'success',
+      count: attempts.length
+    });
+
+  } catch (error) {
+    logger.error(`[UserRoutes] Error syncing history for user ${req.params.id}:`, error.message);
+    res.status(500).json({
+      error: 'Failed to sync attempt history',
+      message: error.message
+    });
+  }
+});
+
+// GET /api/users/:id/drafts/:tutorialId - In-progress attempt saved by any device
+router.get('/:id/drafts/:tutorialId', async (req, res) => {
+  try {
+    const { id, tutorialId } = req.params;
+    const record = await historyService.getDraft(id, tutorialId);
+
+    if (!record) {
+      return res.status(404).json({
+        error: 'Draft not found',
+        message: `No draft for tutorial ${tutorialId}`
+      });
+    }
+
+    res.json({
+      data: record,
+      status: 'success'
+    });
+
+  } catch (error) {
+    logger.error(`[UserRoutes] Error fetching draft for user ${req.params.id}:`, error.message);
+    res.status(500).json({
+      error: 'Failed to fetch draft',
+      message: error.message
+    });
+  }
+});
+
+// PUT /api/users/:id/drafts/:tutorialId - Save draft; a newer stored draft is kept and returned
+router.put('/:id/drafts/:tutorialId', async (req, res) => {
+  try {
+    const { error, value } = draftSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.details.map(d => d.message)
+      });
+    }
+
+    const { id, tutorialId } = req.params;
+    const { record, applied } = await historyService.saveDraft(id, tutorialId, value.draft, value.updatedAt);
+
+    // Proof of when these answers existed, for a submission the outbox replays later
+    if (value.draft.answers && typeof value.draft.answers === 'object') {
+      await quizSessionService.checkpointAnswers(value.draft.sessionId, id, value.draft.answers);
+    }
+
+    res.status(applied ? 200 : 409).json({
+      data: record,
+      applied,
+      status: 'success',
+      ...(applied ? {} : { message: 'A newer draft is already stored' })
+    });
+
+  } catch (error) {
+    logger.error(`[UserRoutes] Error saving draft for user ${req.params.id}:`, error.message);
+    res.status(500).json({
+      error: 'Failed to save draft',
+      message: error.message
+    });
+  }
+});
+
+// DELETE /api/users/:id/drafts/:tutorialId - Attempt submitted or abandoned
+router.delete('/:id/drafts/:tutorialId', async (req, res) => {
+  try {
+    const { id, tutorialId } = req.params;
+    await historyService.deleteDraft(id, tutorialId);
+
+    res.json({
+      status: 'success',
+      message: 'Draft deleted'
+    });
+
+  } catch (error) {
+    logger.error(`[UserRoutes] Error deleting draft for user ${req.params.id}:`, error.message);
+    res.status(500).json({
+      error: 'Failed to delete draft',
+      message: error.message
+    });
+  }
+});
+
 module.exports = router;
\ No newline at end of file
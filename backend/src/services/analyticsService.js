@@ -0,0 +1,24 @@
+// Analytics Service - Fan-out point for learning analytics events
+// Sinks (LRS, data warehouse, ...) subscribe with analyticsService.on('event', handler)
+const { EventEmitter } = require('events');
+const logger = require('./logger');
+
+class AnalyticsService extends EventEmitter {
+  /**
+   * Publish an analytics event to all subscribed sinks
+   * @param {string} event - Event name, e.g. 'assessment.submitted'
+   * @param {Object} payload - Event data
+   */
+  track(event, payload) {
+    logger.info(`[Analytics] ${event}`);
+
+    try {
+      this.emit('event', { event, payload, timestamp: new Date().toISOString() });
+    } catch (error) {
+      // A failing sink must never break the request that produced the event
+      logger.error(`[Analytics] Sink failed for ${event}: ${error.message}`);
+    }
+  }
+}
+
+module.exports = new AnalyticsService();
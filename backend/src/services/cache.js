@@ -95,6 +95,24 @@ const cache = {
     }
   },
 
+  // Set value only if the key does not exist yet (atomic - used as a lock)
+  // Returns false when the key exists or Redis is not available
+  setNX: async (key, value, ttl = 3600) => {
+    try {
+      if (!cache.isAvailable()) {
+        logger.warn('Redis not available for SET NX operation');
+        return false;
+      }
+
+      const serializedValue = JSON.stringify(value);
+      const result = await client.set(key, serializedValue, { NX: true, EX: ttl });
+      return result === 'OK';
+    } catch (error) {
+      logger.error('Cache SET NX error:', error.message);
+      return false;
+    }
+  },
+
   // Delete value from cache
   del: async (key) => {
     try {
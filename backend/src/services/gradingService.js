@@ -0,0 +1,225 @@
+// Grading Service - Scores submissions against the server-side answer key
+
+const PASSING_SCORE = 80; // default percentage when the session has no quiz config
+const SCORING_MODE = 'all-or-nothing'; // default multi-select scoring
+const DEADLINE_GRACE_MS = 30 * 1000; // network latency allowance after the deadline
+
+/**
+ * Normalize free text for short-answer comparison
+ * (case, surrounding/duplicate whitespace and trailing punctuation are ignored)
+ * @param {string} text - Raw answer
+ * @returns {string} Normalized answer
+ */
+const normalizeShortAnswer = (text) =>
+  String(text || '')
+    .toLowerCase()
+    .trim()
+    .replace(/\s+/g, ' ')
+    .replace(/[.,;:!?]+$/, '');
+
+/**
+ * Normalize a multi-select answer to unique option IDs
+ * @param {string|string[]|undefined} answer - Raw answer
+ * @returns {string[]} Selected option IDs
+ */
+const toOptionList = (answer) => {
+  const list = Array.isArray(answer) ? answer : (typeof answer === 'string' && answer ? [answer] : []);
+  return [...new Set(list.filter(item => typeof item === 'string'))];
+};
+
+/**
+ * Credit for a multi-select answer
+ * Partial mode: (correct picks - wrong picks) / number of correct options, floored at 0,
+ * so selecting every option does not earn credit
+ * @param {Object} question - Multi-select question with answer key
+ * @param {string[]} selected - Selected option IDs
+ * @param {string} scoringMode - 'all-or-nothing' | 'partial'
+ * @returns {number} Credit between 0 and 1
+ */
+const getMultiSelectCredit = (question, selected, scoringMode) => {
+  const correctOptions = toOptionList(question.correctAnswer);
+  const hits = selected.filter(id => correctOptions.includes(id)).length;
+  const misses = selected.length - hits;
+
+  if (hits === correctOptions.length && misses === 0) {
+    return 1;
+  }
+
+  if (scoringMode !== 'partial' || correctOptions.length === 0) {
+    return 0;
+  }
+
+  return Math.max(0, (hits - misses) / correctOptions.length);
+};
+
+/**
+ * Check a learner answer against the answer key for the question type
+ * @param {Object} question - Question with answer key
+ * @param {string} answer - Answer given by the learner
+ * @returns {boolean} Whether the answer is correct
+ */
+const isAnswerCorrect = (question, answer) => {
+  if (question.type === 'short-answer') {
+    const normalized = normalizeShortAnswer(answer);
+    if (!normalized) {
+      return false;
+    }
+
+    const accepted = [question.correctAnswer, ...(question.acceptedAnswers || [])];
+    return accepted.some(candidate => normalizeShortAnswer(candidate) === normalized);
+  }
+
+  // multiple-choice & true-false compare option IDs
+  return answer === question.correctAnswer;
+};
+
+/**
+ * Grade a single question
+ * @param {Object} question - Question with answer key
+ * @param {string|string[]|undefined} userAnswer - Answer chosen by the learner
+ * @param {string} scoringMode - Multi-select scoring ('all-or-nothing' | 'partial')
+ * @returns {Object} Graded result for the question (credit 0-1)
+ */
+const gradeQuestion = (question, userAnswer, scoringMode = SCORING_MODE) => {
+  const type = question.type || 'multiple-choice';
+
+  // Code snippet of code comprehension questions is shown again on the result card,
+  // topic lets attempts with different generated questions be compared, math turns
+  // on formula rendering for the result card
+  const code = question.code ? { code: question.code } : {};
+  const topic = question.topic ? { topic: question.topic } : {};
+  const math = question.math ? { math: true } : {};
+
+  if (type === 'multi-select') {
+    const selected = toOptionList(userAnswer);
+    const credit = getMultiSelectCredit(question, selected, scoringMode);
+
+    return {
+      questionId: question.id,
+      type,
+      question: question.question,
+      ...topic,
+      ...code,
+      ...math,
+      options: question.options,
+      userAnswer: selected,
+      correctAnswer: toOptionList(question.correctAnswer),
+      isCorrect: credit === 1,
+      credit,
+      explanation: question.explanation
+    };
+  }
+
+  const answer = typeof userAnswer === 'string' ? userAnswer : '';
+  const isCorrect = isAnswerCorrect({ ...question, type }, answer);
+
+  const result = {
+    questionId: question.id,
+    type,
+    question: question.question,
+    ...topic,
+    ...code,
+    ...math,
+    userAnswer: answer,
+    correctAnswer: question.correctAnswer,
+    isCorrect,
+    credit: isCorrect ? 1 : 0,
+    explanation: question.explanation
+  };
+
+  if (type === 'short-answer') {
+    result.acceptedAnswers = question.acceptedAnswers || [];
+  } else {
+    result.options = question.options;
+  }
+
+  return result;
+};
+
+/**
+ * Calibration breakdown: how self-reported confidence matches correctness
+ * - mastered: sure & correct
+ * - misconceptions: sure & wrong (dangerous - learner believes something false)
+ * - luckyGuesses: guess/unsure & correct
+ * - gaps: guess/unsure & wrong (learner knows they don't know)
+ * @param {Array} results - Graded results with optional `confidence`
+ * @returns {Object} Counts per category (+ unrated)
+ */
+const summarizeCalibration = (results) => {
+  const summary = { mastered: 0, misconceptions: 0, luckyGuesses: 0, gaps: 0, unrated: 0 };
+
+  results.forEach(result => {
+    if (!result.confidence) {
+      summary.unrated += 1;
+    } else if (result.confidence === 'sure') {
+      summary[result.isCorrect ? 'mastered' : 'misconceptions'] += 1;
+    } else {
+      summary[result.isCorrect ? 'luckyGuesses' : 'gaps'] += 1;
+    }
+  });
+
+  return summary;
+};
+
+/**
+ * Compare two answer maps as graded (empty answers count as unanswered, option order is ignored)
+ * @param {Object} a - Map of question index to answer
+ * @param {Object} b - Map of question index to answer
+ * @returns {boolean} True when every question has the same answer
+ */
+const haveSameAnswers = (a = {}, b = {}) => {
+  const normalize = (answer) => (Array.isArray(answer) ? toOptionList(answer).sort().join(',') : String(answer ?? ''));
+  const indices = new Set([...Object.keys(a), ...Object.keys(b)]);
+  return [...indices].every(index => normalize(a[index]) === normalize(b[index]));
+};
+
+/**
+ * Check whether a submission arrived after the session deadline (plus grace period)
+ * @param {string|null} deadline - ISO deadline of the session
+ * @param {number} submittedAt - Submission time in ms
+ * @returns {boolean} True when submitted late
+ */
+const isLateSubmission = (deadline, submittedAt = Date.now()) => {
+  if (!deadline) {
+    return false;
+  }
+
+  return submittedAt > new Date(deadline).getTime() + DEADLINE_GRACE_MS;
+};
+
+/**
+ * Grade all answers of a quiz session
+ * @param {Array} questions - Questions with answer keys
+ * @param {Object} answers - Map of question index to answer
+ * @param {Object} options - passingScore (percentage), scoringMode, confidence (map of question index to level)
+ * @returns {Object} Score summary, calibration and per-question results
+ */
+const gradeAnswers = (questions, answers = {}, { passingScore = PASSING_SCORE, scoringMode = SCORING_MODE, confidence = {} } = {}) => {
+  const results = questions.map((question, index) => {
+    const result = gradeQuestion(question, answers[index], scoringMode);
+    return confidence[index] ? { ...result, confidence: confidence[index] } : result;
+  });
+  const correct = results.filter(result => result.isCorrect).length;
+  const points = results.reduce((sum, result) => sum + result.credit, 0);
+  const total = questions.length;
+  const percentage = total > 0 ? Math.round((points / total) * 100) : 0;
+
+  return {
+    score: { correct, points: Math.round(points * 100) / 100, total, percentage },
+    passed: percentage >= passingScore,
+    passingScore,
+    scoringMode,
+    calibration: summarizeCalibration(results),
+    results
+  };
+};
+
+module.exports = {
+  PASSING_SCORE,
+  SCORING_MODE,
+  gradeQuestion,
+  gradeAnswers,
+  summarizeCalibration,
+  haveSameAnswers,
+  isLateSubmission
+};
@@ -0,0 +1,332 @@
+// History Service - Attempt history & in-progress drafts per user/tutorial, shared across devices
+const cache = require('./cache');
+const logger = require('./logger');
+const quizSessionService = require('./quizSessionService');
+
+const HISTORY_TTL_SECONDS = 180 * 24 * 60 * 60; // 180 days
+const DRAFT_TTL_SECONDS = 24 * 60 * 60; // Same as quiz sessions - a draft is useless once its session expires
+const MAX_ATTEMPTS_PER_TUTORIAL = 200; // client-reported attempts kept; server-graded ones are never evicted
+
+// Last-modified time of a record; attempts recorded before sync existed only have a timestamp
+const modifiedAt = (attempt) => attempt.updatedAt || attempt.timestamp;
+
+const hasDetail = (attempt) => Boolean(attempt.results || attempt.questions);
+
+// Attempts recorded from a graded submission - their score can't be changed by a client
+const SERVER_GRADED = 'server';
+
+// Per-question detail a client may drop under its storage retention policy
+const DETAIL_FIELDS = ['questions', 'userAnswers', 'flaggedQuestions', 'confidence', 'telemetry', 'results'];
+
+/**
+ * Client clocks can't move a record into the future (it would win every later merge)
+ * @param {string} timestamp - ISO time reported by a client
+ * @returns {string} ISO time, at most the current server time
+ */
+const clampToServerTime = (timestamp) =>
+  new Date(Math.min(new Date(timestamp).getTime(), Date.now())).toISOString();
+
+/**
+ * Changes a client may make to a server-graded attempt: review flags and pruning
+ * Everything graded (score, percentage, passed, results, ...) stays as recorded
+ * @param {Object} graded - Stored server-graded attempt
+ * @param {Object} incoming - Attempt sent by a client
+ * @returns {Object} Updated attempt
+ */
+const applyClientChanges = (graded, incoming) => {
+  const updated = { ...graded, updatedAt: incoming.updatedAt };
+
+  if (Array.isArray(incoming.flaggedQuestions)) {
+    updated.flaggedQuestions = incoming.flaggedQuestions;
+  }
+
+  if (incoming.pruned) {
+    DETAIL_FIELDS.forEach(field => delete updated[field]);
+    updated.pruned = true;
+  }
+
+  return updated;
+};
+
+/**
+ * Decide whether an incoming attempt replaces the stored one
+ * Newer modification time wins; on a tie a detailed record beats a pruned summary
+ * @param {Object|undefined} current - Stored attempt
+ * @param {Object} incoming - Attempt sent by a client
+ * @returns {boolean}
+ */
+const shouldReplace = (current, incoming) => {
+  if (!current) {
+    return true;
+  }
+
+  const comparison = modifiedAt(incoming).localeCompare(modifiedAt(current));
+  return comparison > 0 || (comparison === 0 && !hasDetail(current) && hasDetail(incoming));
+};
+
+class HistoryService {
+  constructor() {
+    // In-memory fallback when Redis is not available (development / single instance)
+    this.memoryStore = new Map();
+  }
+
+  getHistoryKey(userId, tutorialId) {
+    return `attempt_history:${userId}:${tutorialId}`;
+  }
+
+  // Tutorials a user has history for, so attempts can be listed across tutorials
+  getTutorialIndexKey(userId) {
+    return `attempt_history_tutorials:${userId}`;
+  }
+
+  getDraftKey(userId, tutorialId) {
+    return `attempt_draft:${userId}:${tutorialId}`;
+  }
+
+  async read(key) {
+    if (cache.isAvailable()) {
+      return cache.get(key);
+    }
+
+    const entry = this.memoryStore.get(key);
+    if (!entry) {
+      return null;
+    }
+
+    if (entry.expiresAt < Date.now()) {
+      this.memoryStore.delete(key);
+      return null;
+    }
+
+    return entry.value;
+  }
+
+  async write(key, value, ttlSeconds) {
+    if (cache.isAvailable()) {
+      await cache.set(key, value, ttlSeconds);
+      return;
+    }
+
+    this.memoryStore.set(key, {
+      value,
+      expiresAt: Date.now() + ttlSeconds * 1000
+    });
+  }
+
+  async remove(key) {
+    if (cache.isAvailable()) {
+      await cache.del(key);
+      return;
+    }
+
+    this.memoryStore.delete(key);
+  }
+
+  // ==========================================================================
+  // ATTEMPT HISTORY
+  // ==========================================================================
+
+  /**
+   * Get stored attempts for a tutorial, oldest first
+   * @param {string} userId - User ID
+   * @param {string} tutorialId - Tutorial ID
+   * @returns {Promise<Array>} Attempts
+   */
+  async getAttempts(userId, tutorialId) {
+    return (await this.read(this.getHistoryKey(userId, tutorialId))) || [];
+  }
+
+  /**
+   * Merge attempts into the stored history (matched by id)
+   * @param {string} userId - User ID
+   * @param {string} tutorialId - Tutorial ID
+   * @param {Array} attempts - Attempts created or changed on the client
+   * @param {Object} [options] - trusted: attempts recorded by the server itself (always win)
+   * @returns {Promise<Array>} Merged history, oldest first
+   */
+  async mergeAttempts(userId, tutorialId, attempts, { trusted = false } = {}) {
+    const stored = await this.getAttempts(userId, tutorialId);
+    const byId = new Map(stored.map(attempt => [attempt.id, attempt]));
+
+    let changed = 0;
+    attempts.forEach(attempt => {
+      const current = byId.get(attempt.id);
+
+      if (trusted) {
+        byId.set(attempt.id, attempt);
+        changed += 1;
+        return;
+      }
+
+      // Only the server marks attempts as graded
+      const incoming = {
+        ...attempt,
+        timestamp: clampToServerTime(attempt.timestamp),
+        updatedAt: clampToServerTime(modifiedAt(attempt))
+      };
+      delete incoming.gradedBy;
+
+      if (shouldReplace(current, incoming)) {
+        byId.set(attempt.id, current?.gradedBy === SERVER_GRADED ? applyClientChanges(current, incoming) : incoming);
+        changed += 1;
+      }
+    });
+
+    // The cap only evicts attempts a client reported - server-graded ones count
+    // towards maxAttempts and can't be pushed out by flooding the history
+    const byTimestamp = (a, b) => a.timestamp.localeCompare(b.timestamp);
+    const all = [...byId.values()];
+    const clientOnly = all
+      .filter(attempt => attempt.gradedBy !== SERVER_GRADED)
+      .sort(byTimestamp)
+      .slice(-MAX_ATTEMPTS_PER_TUTORIAL);
+    const merged = [...all.filter(attempt => attempt.gradedBy === SERVER_GRADED), ...clientOnly].sort(byTimestamp);
+
+    if (changed > 0) {
+      await this.write(this.getHistoryKey(userId, tutorialId), merged, HISTORY_TTL_SECONDS);
+      await this.addToTutorialIndex(userId, tutorialId);
+      logger.info(`[HistoryService] Merged ${changed} attempt(s) for ${userId}/${tutorialId}`);
+    }
+
+    return merged;
+  }
+
+  /**
+   * Whether the learner used up the attempts allowed for a tutorial
+   * Only attempts graded by the server count - client-reported ones can't be trusted
+   * @param {string} userId - User ID
+   * @param {string} tutorialId - Tutorial ID
+   * @param {number} maxAttempts - Limit from the quiz config (0 = unlimited)
+   * @returns {Promise<boolean>}
+   */
+  async hasReachedAttemptLimit(userId, tutorialId, maxAttempts) {
+    if (!maxAttempts || maxAttempts <= 0) {
+      return false;
+    }
+
+    const attempts = await this.getAttempts(userId, tutorialId);
+    return attempts.filter(attempt => attempt.gradedBy === SERVER_GRADED).length >= maxAttempts;
+  }
+
+  /**
+   * Most recent attempt graded by the server - adaptive difficulty starts from it
+   * @param {string} userId - User ID
+   * @param {string} tutorialId - Tutorial ID
+   * @returns {Promise<Object|null>} Attempt or null before the first graded submission
+   */
+  async getLastGradedAttempt(userId, tutorialId) {
+    const attempts = await this.getAttempts(userId, tutorialId);
+    return attempts.filter(attempt => attempt.gradedBy === SERVER_GRADED).pop() || null;
+  }
+
+  async addToTutorialIndex(userId, tutorialId) {
+    const key = this.getTutorialIndexKey(userId);
+    const tutorialIds = (await this.read(key)) || [];
+    // Rewritten even when already present to extend the TTL together with the history
+    await this.write(key, [...new Set([...tutorialIds, tutorialId])], HISTORY_TTL_SECONDS);
+  }
+
+  /**
+   * Record a graded submission so the attempt exists even if the client never syncs
+   * Uses the submission ID as attempt ID - the client records the same ID
+   * @param {Object} session - Quiz session (questions with answer keys)
+   * @param {Object} submission - Graded submission
+   * @param {Object} input - answers & confidence as submitted
+   * @returns {Promise<void>}
+   */
+  async recordSubmission(session, submission, { answers, confidence }) {
+    if (!session.tutorialId) {
+      return; // Ad-hoc quiz without a tutorial - nothing to attach the attempt to
+    }
+
+    await this.mergeAttempts(session.userId, session.tutorialId, [{
+      id: submission.id,
+      gradedBy: SERVER_GRADED,
+      attemptNumber: submission.attemptNumber,
+      score: submission.score.correct,
+      totalQuestions: submission.score.total,
+      percentage: submission.score.percentage,
+      passed: submission.passed,
+      difficulty: submission.difficulty,
+      timestamp: submission.submittedAt,
+      updatedAt: submission.submittedAt,
+      questions: quizSessionService.toPublicQuestions(session.questions),
+      userAnswers: answers,
+      confidence,
+      ...(submission.telemetry ? { telemetry: submission.telemetry } : {}),
+      results: submission.results
+    }], { trusted: true });
+  }
+
+  /**
+   * Every graded submission of a user (across tutorials) - attempts only a client
+   * reported are left out, their scores were never checked by the server
+   * @param {string} userId - User ID
+   * @returns {Promise<Array>} Attempt summaries, newest first
+   */
+  async getAttemptSummaries(userId) {
+    const tutorialIds = (await this.read(this.getTutorialIndexKey(userId))) || [];
+    const histories = await Promise.all(
+      tutorialIds.map(async tutorialId => ({ tutorialId, attempts: await this.getAttempts(userId, tutorialId) }))
+    );
+
+    return histories
+      .flatMap(({ tutorialId, attempts }) => attempts
+        .filter(attempt => attempt.gradedBy === SERVER_GRADED)
+        .map(attempt => ({
+          id: attempt.id,
+          tutorialId,
+          attemptNumber: attempt.attemptNumber,
+          difficulty: attempt.difficulty,
+          score: {
+            correct: attempt.score,
+            total: attempt.totalQuestions,
+            percentage: attempt.percentage ?? Math.round((attempt.score / attempt.totalQuestions) * 100)
+          },
+          passed: attempt.passed,
+          submittedAt: attempt.timestamp
+        })))
+      .sort((a, b) => b.submittedAt.localeCompare(a.submittedAt));
+  }
+
+  // ==========================================================================
+  // DRAFTS
+  // ==========================================================================
+
+  /**
+   * Get the in-progress draft for a tutorial
+   * @returns {Promise<Object|null>} { draft, updatedAt } or null
+   */
+  async getDraft(userId, tutorialId) {
+    return this.read(this.getDraftKey(userId, tutorialId));
+  }
+
+  /**
+   * Save a draft unless a newer one is already stored (last write by timestamp wins)
+   * @param {string} userId - User ID
+   * @param {string} tutorialId - Tutorial ID
+   * @param {Object} draft - Client assessment state
+   * @param {string} reportedUpdatedAt - When the client last changed the draft (ISO, clamped to server time)
+   * @returns {Promise<{ record: Object, applied: boolean }>} Stored record after the save
+   */
+  async saveDraft(userId, tutorialId, draft, reportedUpdatedAt) {
+    const updatedAt = clampToServerTime(reportedUpdatedAt);
+    const current = await this.getDraft(userId, tutorialId);
+    if (current && current.updatedAt.localeCompare(updatedAt) > 0) {
+      return { record: current, applied: false };
+    }
+
+    const record = { draft, updatedAt };
+    await this.write(this.getDraftKey(userId, tutorialId), record, DRAFT_TTL_SECONDS);
+    return { record, applied: true };
+  }
+
+  /**
+   * Remove the draft (attempt submitted or abandoned)
+   */
+  async deleteDraft(userId, tutorialId) {
+    await this.remove(this.getDraftKey(userId, tutorialId));
+  }
+}
+
+module.exports = new HistoryService();
@@ -0,0 +1,112 @@
+// Launch Token Service - Signed JWTs (HS256) that tell the backend who launched the quiz
+// The host (Dicoding) signs { sub: userId, tutorial_id, iat, exp } with the shared
+// LAUNCH_TOKEN_SECRET; the quiz sends the token back on every API call.
+const crypto = require('crypto');
+
+const ALGORITHM = 'HS256';
+const DEFAULT_TTL_SECONDS = 4 * 60 * 60; // covers a quiz plus time spent offline before the outbox replays
+const MAX_TTL_SECONDS = 12 * 60 * 60; // longer-lived tokens are rejected even when correctly signed
+const CLOCK_SKEW_SECONDS = 30;
+// Development only - the mock Dicoding server signs with the same value
+const DEV_SECRET = 'learncheck-dev-launch-secret';
+
+// Same names as the jsonwebtoken errors, which errorHandler already maps to 401
+class LaunchTokenError extends Error {
+  constructor(message, name = 'JsonWebTokenError') {
+    super(message);
+    this.name = name;
+    this.statusCode = 401;
+  }
+}
+
+/**
+ * Shared signing secret
+ * @returns {string} Secret
+ * @throws {Error} In production when LAUNCH_TOKEN_SECRET is not configured
+ */
+const getSecret = () => {
+  if (process.env.LAUNCH_TOKEN_SECRET) {
+    return process.env.LAUNCH_TOKEN_SECRET;
+  }
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('LAUNCH_TOKEN_SECRET is not configured');
+  }
+  return DEV_SECRET;
+};
+
+const base64url = (input) => Buffer.from(input).toString('base64url');
+
+const sign = (data, secret) => crypto.createHmac('sha256', secret).update(data).digest('base64url');
+
+const decodeSegment = (segment) => {
+  try {
+    return JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'));
+  } catch (error) {
+    throw new LaunchTokenError('Malformed launch token');
+  }
+};
+
+/**
+ * Create a launch token (used by hosts, the mock Dicoding server and tests)
+ * @param {Object} params - userId, tutorialId, ttlSeconds
+ * @returns {string} Signed JWT
+ */
+const signLaunchToken = ({ userId, tutorialId, ttlSeconds = DEFAULT_TTL_SECONDS }) => {
+  const now = Math.floor(Date.now() / 1000);
+  const header = base64url(JSON.stringify({ alg: ALGORITHM, typ: 'JWT' }));
+  const payload = base64url(JSON.stringify({ sub: userId, tutorial_id: tutorialId, iat: now, exp: now + ttlSeconds }));
+  return `${header}.${payload}.${sign(`${header}.${payload}`, getSecret())}`;
+};
+
+/**
+ * Verify signature, algorithm and lifetime of a launch token
+ * @param {string} token - JWT from the Authorization header
+ * @returns {Object} Launch context: userId, tutorialId, expiresAt (ISO)
+ * @throws {LaunchTokenError} Invalid (JsonWebTokenError) or expired (TokenExpiredError) token
+ */
+const verifyLaunchToken = (token) => {
+  const parts = String(token || '').split('.');
+  if (parts.length !== 3) {
+    throw new LaunchTokenError('Malformed launch token');
+  }
+
+  const [header, payload, signature] = parts;
+  // Pinned algorithm - never trust the header's "alg" (e.g. "none")
+  if (decodeSegment(header).alg !== ALGORITHM) {
+    throw new LaunchTokenError(`Launch token must be signed with ${ALGORITHM}`);
+  }
+
+  const expected = Buffer.from(sign(`${header}.${payload}`, getSecret()));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+    throw new LaunchTokenError('Invalid launch token signature');
+  }
+
+  const claims = decodeSegment(payload);
+  if (typeof claims.sub !== 'string' || !claims.sub || typeof claims.tutorial_id !== 'string' || !claims.tutorial_id) {
+    throw new LaunchTokenError('Launch token must contain sub and tutorial_id');
+  }
+  if (!Number.isInteger(claims.exp) || !Number.isInteger(claims.iat) || claims.exp - claims.iat > MAX_TTL_SECONDS) {
+    throw new LaunchTokenError(`Launch token must expire within ${MAX_TTL_SECONDS / 3600} hours`);
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  if (claims.exp + CLOCK_SKEW_SECONDS < now) {
+    throw new LaunchTokenError('Launch token has expired', 'TokenExpiredError');
+  }
+  if (claims.iat - CLOCK_SKEW_SECONDS > now) {
+    throw new LaunchTokenError('Launch token is not valid yet');
+  }
+
+  return {
+    userId: claims.sub,
+    tutorialId: claims.tutorial_id,
+    expiresAt: new Date(claims.exp * 1000).toISOString()
+  };
+};
+
+module.exports = {
+  LaunchTokenError,
+  signLaunchToken,
+  verifyLaunchToken
+};
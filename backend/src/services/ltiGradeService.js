@@ -0,0 +1,315 @@
+// LTI Grade Service - Assignment and Grade Services (AGS) score passback
+// Analytics sink: every graded submission of a learner launched from an LMS is
+// posted to the launch's line item, so the grade appears in the LMS gradebook.
+// Passbacks go through a persisted queue (Redis, memory fallback) and are retried
+// with backoff; ones that keep failing are kept as failed and can be replayed.
+const crypto = require('crypto');
+const axios = require('axios');
+const cache = require('./cache');
+const logger = require('./logger');
+const analyticsService = require('./analyticsService');
+const ltiService = require('./ltiService');
+const ltiKeyService = require('./ltiKeyService');
+
+const TOKEN_EXPIRY_MARGIN_MS = 60 * 1000;
+const SCORE_CONTENT_TYPE = 'application/vnd.ims.lis.v1.score+json';
+
+const QUEUE_KEY = 'lti_grade_queue';
+const FAILED_KEY = 'lti_grade_failed';
+const QUEUE_TTL_SECONDS = 30 * 24 * 60 * 60; // refreshed on every write
+const MAX_ATTEMPTS = 10; // ~1 day of retries with the backoff below
+const RETRY_BASE_MS = 60 * 1000;
+const RETRY_MAX_MS = 4 * 60 * 60 * 1000;
+const STARTUP_DELAY_MS = 5 * 1000; // let Redis connect before picking up persisted passbacks
+
+// Platform answers that won't change on retry (bad request, line item gone, scope revoked)
+const isPermanentFailure = (error) => [400, 403, 404, 422].includes(error.response?.status);
+
+class LtiGradeService {
+  constructor() {
+    this.accessTokens = new Map(); // `${issuer}|${clientId}` -> { token, expiresAt }
+    // In-memory fallback when Redis is not available (development / single instance)
+    this.memoryStore = new Map();
+    this.queueLock = Promise.resolve();
+    this.processing = false;
+    this.retryTimer = null;
+  }
+
+  async read(key) {
+    if (cache.isAvailable()) {
+      return cache.get(key);
+    }
+    return this.memoryStore.get(key) || null;
+  }
+
+  async write(key, value) {
+    if (cache.isAvailable()) {
+      await cache.set(key, value, QUEUE_TTL_SECONDS);
+      return;
+    }
+    this.memoryStore.set(key, value);
+  }
+
+  /**
+   * Read-modify-write of a stored list, serialized within this process
+   * @param {string} key - QUEUE_KEY or FAILED_KEY
+   * @param {Function} update - items => updated items
+   * @returns {Promise<Array>} Updated items
+   */
+  updateList(key, update) {
+    const run = this.queueLock.then(async () => {
+      const items = update((await this.read(key)) || []);
+      await this.write(key, items);
+      return items;
+    });
+    this.queueLock = run.catch(() => {});
+    return run;
+  }
+
+  /**
+   * OAuth2 client credentials grant with a signed client assertion (LTI security framework)
+   * @param {Object} platform - Platform config
+   * @param {Object} [options] - refresh: ignore a cached token
+   * @returns {Promise<string>} Access token for the score scope
+   */
+  async getAccessToken(platform, { refresh = false } = {}) {
+    const cacheKey = `${platform.issuer}|${platform.clientId}`;
+    const cached = this.accessTokens.get(cacheKey);
+    if (cached && !refresh && cached.expiresAt > Date.now()) {
+      return cached.token;
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    const assertion = ltiKeyService.signToolJwt({
+      iss: platform.clientId,
+      sub: platform.clientId,
+      aud: platform.authTokenUrl,
+      iat: now,
+      exp: now + 300,
+      jti: crypto.randomUUID()
+    });
+
+    const response = await axios.post(platform.authTokenUrl, new URLSearchParams({
+      grant_type: 'client_credentials',
+      client_assertion_type: 'urn:ietf:params:oauth:client-assertion-type:jwt-bearer',
+      client_assertion: assertion,
+      scope: ltiService.AGS_SCORE_SCOPE
+    }).toString(), {
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      timeout: 5000
+    });
+
+    const { access_token: token, expires_in: expiresIn = 3600 } = response.data;
+    this.accessTokens.set(cacheKey, { token, expiresAt: Date.now() + expiresIn * 1000 - TOKEN_EXPIRY_MARGIN_MS });
+    return token;
+  }
+
+  /**
+   * Scores endpoint of a line item (the line item URL may carry a query string)
+   * @param {string} lineitem - Line item URL
+   * @returns {string} Scores URL
+   */
+  getScoresUrl(lineitem) {
+    const url = new URL(lineitem);
+    url.pathname = `${url.pathname.replace(/\/$/, '')}/scores`;
+    return url.toString();
+  }
+
+  /**
+   * Post a graded submission to the LMS
+   * @param {Object} launch - Stored LTI launch (see ltiService.recordLaunch)
+   * @param {Object} submission - userId, tutorialId, score, passed, submissionId
+   * @returns {Promise<boolean>} true when the platform accepted the score
+   */
+  async passbackScore(launch, submission) {
+    const platform = ltiService.findPlatform(launch.issuer, launch.clientId);
+    if (!platform || !launch.ags) {
+      return false;
+    }
+
+    const { score } = submission;
+    const body = {
+      userId: launch.sub,
+      scoreGiven: score.points ?? score.correct,
+      scoreMaximum: score.total,
+      activityProgress: 'Completed',
+      gradingProgress: 'FullyGraded',
+      timestamp: new Date().toISOString(),
+      comment: `LearnCheck ${score.percentage}% (${submission.passed ? 'passed' : 'not passed'})`
+    };
+
+    const post = async (token) => axios.post(this.getScoresUrl(launch.ags.lineitem), body, {
+      headers: {
+        Authorization: `Bearer ${token}`,
+        'Content-Type': SCORE_CONTENT_TYPE
+      },
+      timeout: 5000
+    });
+
+    try {
+      await post(await this.getAccessToken(platform));
+    } catch (error) {
+      // Revoked or expired access token - one retry with a fresh one
+      if (error.response?.status !== 401) {
+        throw error;
+      }
+      await post(await this.getAccessToken(platform, { refresh: true }));
+    }
+
+    logger.info(`[LtiGradeService] Score ${body.scoreGiven}/${body.scoreMaximum} sent to ${platform.issuer} for submission ${submission.submissionId}`);
+    return true;
+  }
+
+  // ==========================================================================
+  // RETRY QUEUE
+  // ==========================================================================
+
+  /**
+   * Queue a passback; the launch is stored with it so a retry doesn't depend on the launch record
+   * @param {Object} launch - Stored LTI launch
+   * @param {Object} submission - userId, tutorialId, score, passed, submissionId
+   * @returns {Promise<void>}
+   */
+  async enqueue(launch, submission) {
+    const { submissionId, userId, tutorialId, score, passed } = submission;
+    await this.updateList(QUEUE_KEY, items => [
+      ...items.filter(item => item.id !== submissionId),
+      {
+        id: submissionId,
+        launch,
+        submission: { submissionId, userId, tutorialId, score, passed },
+        attempts: 0,
+        nextAttemptAt: Date.now(),
+        lastError: null
+      }
+    ]);
+    this.processQueue();
+  }
+
+  /**
+   * Send every due passback; failures are rescheduled with backoff, and after
+   * MAX_ATTEMPTS (or a permanent platform error) moved to the failed list
+   * @returns {Promise<void>}
+   */
+  async processQueue() {
+    if (this.processing) {
+      return;
+    }
+    this.processing = true;
+
+    try {
+      const due = ((await this.read(QUEUE_KEY)) || []).filter(item => item.nextAttemptAt <= Date.now());
+      const outcomes = new Map(); // id -> null (delivered) | error
+
+      for (const item of due) {
+        try {
+          await this.passbackScore(item.launch, item.submission);
+          outcomes.set(item.id, null);
+        } catch (error) {
+          outcomes.set(item.id, error);
+        }
+      }
+
+      const failed = [];
+      const remaining = await this.updateList(QUEUE_KEY, items => items.flatMap(item => {
+        if (!outcomes.has(item.id)) {
+          return [item];
+        }
+
+        const error = outcomes.get(item.id);
+        if (!error) {
+          return [];
+        }
+
+        const attempts = item.attempts + 1;
+        const lastError = error.response ? `HTTP ${error.response.status}` : error.message;
+        if (attempts >= MAX_ATTEMPTS || isPermanentFailure(error)) {
+          failed.push({ ...item, attempts, lastError, failedAt: new Date().toISOString() });
+          return [];
+        }
+
+        const delay = Math.min(RETRY_BASE_MS * 2 ** (attempts - 1), RETRY_MAX_MS);
+        logger.warn(`[LtiGradeService] Score passback for ${item.id} failed (${lastError}), retry ${attempts}/${MAX_ATTEMPTS - 1} in ${Math.round(delay / 1000)}s`);
+        return [{ ...item, attempts, lastError, nextAttemptAt: Date.now() + delay }];
+      }));
+
+      if (failed.length > 0) {
+        await this.updateList(FAILED_KEY, items => [...items, ...failed]);
+        failed.forEach(item => {
+          logger.error(`[LtiGradeService] Score passback for ${item.id} given up after ${item.attempts} attempt(s): ${item.lastError} - kept in ${FAILED_KEY} for replayFailed()`);
+        });
+      }
+
+      this.scheduleNext(remaining);
+    } catch (error) {
+      logger.error(`[LtiGradeService] Passback queue error: ${error.message}`);
+    } finally {
+      this.processing = false;
+    }
+  }
+
+  scheduleNext(items) {
+    clearTimeout(this.retryTimer);
+    this.retryTimer = null;
+    if (items.length === 0) {
+      return;
+    }
+
+    const nextAttemptAt = Math.min(...items.map(item => item.nextAttemptAt));
+    this.retryTimer = setTimeout(() => this.processQueue(), Math.max(nextAttemptAt - Date.now(), 0));
+    this.retryTimer.unref();
+  }
+
+  /**
+   * Passbacks that were given up on
+   * @returns {Promise<Array>} Failed items with lastError and failedAt
+   */
+  async getFailed() {
+    return (await this.read(FAILED_KEY)) || [];
+  }
+
+  /**
+   * Move failed passbacks back into the queue (e.g. after the platform registration was fixed)
+   * @returns {Promise<number>} Number of passbacks requeued
+   */
+  async replayFailed() {
+    let replayed = [];
+    await this.updateList(FAILED_KEY, items => {
+      replayed = items;
+      return [];
+    });
+
+    await this.updateList(QUEUE_KEY, items => [
+      ...items,
+      ...replayed.map(item => {
+        const requeued = { ...item, attempts: 0, nextAttemptAt: Date.now() };
+        delete requeued.failedAt;
+        return requeued;
+      })
+    ]);
+    this.processQueue();
+    return replayed.length;
+  }
+
+  /**
+   * Subscribe to graded submissions (called once at startup)
+   */
+  register() {
+    analyticsService.on('event', ({ event, payload }) => {
+      if (event !== 'assessment.submitted') {
+        return;
+      }
+
+      ltiService.getLaunch(payload.userId, payload.tutorialId)
+        .then(launch => (launch?.ags ? this.enqueue(launch, payload) : null))
+        .catch(error => {
+          logger.error(`[LtiGradeService] Could not queue score passback for submission ${payload.submissionId}: ${error.message}`);
+        });
+    });
+
+    // Passbacks persisted before a restart
+    setTimeout(() => this.processQueue(), STARTUP_DELAY_MS).unref();
+  }
+}
+
+module.exports = new LtiGradeService();
@@ -0,0 +1,149 @@
+// LTI Key Service - RS256 keys for LTI 1.3
+// Verifies id_tokens from platforms (their public JWKS) and signs the tool's
+// client assertions for Assignment and Grade Services (our key, published at /lti/jwks).
+const crypto = require('crypto');
+const axios = require('axios');
+const logger = require('./logger');
+
+const JWKS_CACHE_MS = 10 * 60 * 1000;
+const CLOCK_SKEW_SECONDS = 60;
+
+class LtiKeyError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = 'LtiKeyError';
+    this.statusCode = 401;
+  }
+}
+
+const encodeSegment = (value) => Buffer.from(JSON.stringify(value)).toString('base64url');
+
+const decodeSegment = (segment) => {
+  try {
+    return JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'));
+  } catch (error) {
+    throw new LtiKeyError('Malformed JWT');
+  }
+};
+
+class LtiKeyService {
+  constructor() {
+    this.toolKey = null;
+    this.jwksCache = new Map(); // keysetUrl -> { keys, fetchedAt }
+  }
+
+  /**
+   * Tool signing key from LTI_TOOL_PRIVATE_KEY (PEM); generated per process in development
+   * @returns {{ privateKey: crypto.KeyObject, kid: string }}
+   */
+  getToolKey() {
+    if (this.toolKey) {
+      return this.toolKey;
+    }
+
+    let privateKey;
+    if (process.env.LTI_TOOL_PRIVATE_KEY) {
+      privateKey = crypto.createPrivateKey(process.env.LTI_TOOL_PRIVATE_KEY.replace(/\\n/g, '\n'));
+    } else if (process.env.NODE_ENV === 'production') {
+      throw new Error('LTI_TOOL_PRIVATE_KEY is not configured');
+    } else {
+      logger.warn('[LtiKeyService] LTI_TOOL_PRIVATE_KEY not set - using a temporary key (development only)');
+      privateKey = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 }).privateKey;
+    }
+
+    // Stable kid derived from the key, so platforms can cache our JWKS
+    const publicJwk = crypto.createPublicKey(privateKey).export({ format: 'jwk' });
+    const kid = crypto.createHash('sha256').update(publicJwk.n).digest('base64url').slice(0, 16);
+    this.toolKey = { privateKey, kid };
+    return this.toolKey;
+  }
+
+  /**
+   * Public keys of the tool, served at /lti/jwks
+   * @returns {Object} JWKS
+   */
+  getToolJwks() {
+    const { privateKey, kid } = this.getToolKey();
+    const publicJwk = crypto.createPublicKey(privateKey).export({ format: 'jwk' });
+    return { keys: [{ ...publicJwk, kid, alg: 'RS256', use: 'sig' }] };
+  }
+
+  /**
+   * Sign claims with the tool key (RS256)
+   * @param {Object} claims - JWT payload
+   * @returns {string} JWT
+   */
+  signToolJwt(claims) {
+    const { privateKey, kid } = this.getToolKey();
+    const unsigned = `${encodeSegment({ alg: 'RS256', typ: 'JWT', kid })}.${encodeSegment(claims)}`;
+    const signature = crypto.sign('sha256', Buffer.from(unsigned), privateKey).toString('base64url');
+    return `${unsigned}.${signature}`;
+  }
+
+  async getPlatformKeys(keysetUrl, { refresh = false } = {}) {
+    const cached = this.jwksCache.get(keysetUrl);
+    if (cached && !refresh && Date.now() - cached.fetchedAt < JWKS_CACHE_MS) {
+      return cached.keys;
+    }
+
+    const response = await axios.get(keysetUrl, { timeout: 5000 });
+    const keys = Array.isArray(response.data?.keys) ? response.data.keys : [];
+    this.jwksCache.set(keysetUrl, { keys, fetchedAt: Date.now() });
+    return keys;
+  }
+
+  /**
+   * Verify an RS256 JWT signed by a platform and check its lifetime
+   * Issuer, audience and nonce are checked by the caller
+   * @param {string} token - JWT (e.g. id_token)
+   * @param {string} keysetUrl - Platform JWKS URL
+   * @returns {Promise<Object>} Claims
+   * @throws {LtiKeyError} Invalid signature, unknown key or expired token
+   */
+  async verifyPlatformJwt(token, keysetUrl) {
+    const parts = String(token || '').split('.');
+    if (parts.length !== 3) {
+      throw new LtiKeyError('Malformed JWT');
+    }
+
+    const [header, payload, signature] = parts;
+    const { alg, kid } = decodeSegment(header);
+    if (alg !== 'RS256') {
+      throw new LtiKeyError('id_token must be signed with RS256');
+    }
+
+    // A key rotated since the last fetch is picked up with one refresh
+    const findKey = (keys) => keys.find(key => (kid ? key.kid === kid : key.kty === 'RSA'));
+    let jwk = findKey(await this.getPlatformKeys(keysetUrl));
+    if (!jwk) {
+      jwk = findKey(await this.getPlatformKeys(keysetUrl, { refresh: true }));
+    }
+    if (!jwk) {
+      throw new LtiKeyError(`No platform key ${kid || ''} in ${keysetUrl}`);
+    }
+
+    const valid = crypto.verify(
+      'sha256',
+      Buffer.from(`${header}.${payload}`),
+      crypto.createPublicKey({ key: jwk, format: 'jwk' }),
+      Buffer.from(signature, 'base64url')
+    );
+    if (!valid) {
+      throw new LtiKeyError('Invalid id_token signature');
+    }
+
+    const claims = decodeSegment(payload);
+    const now = Math.floor(Date.now() / 1000);
+    if (!Number.isInteger(claims.exp) || claims.exp + CLOCK_SKEW_SECONDS < now) {
+      throw new LtiKeyError('id_token has expired');
+    }
+    if (Number.isInteger(claims.iat) && claims.iat - CLOCK_SKEW_SECONDS > now) {
+      throw new LtiKeyError('id_token is not valid yet');
+    }
+
+    return claims;
+  }
+}
+
+module.exports = new LtiKeyService();
+module.exports.LtiKeyError = LtiKeyError;
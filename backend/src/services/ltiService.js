@@ -0,0 +1,286 @@
+// LTI Service - LTI 1.3 tool launches (OIDC login initiation + resource link launch)
+// A validated launch becomes a regular LearnCheck launch token, so the same quiz UI
+// runs inside Moodle/Canvas. The AGS endpoint of the launch is kept for grade passback.
+const crypto = require('crypto');
+const cache = require('./cache');
+const logger = require('./logger');
+const ltiKeyService = require('./ltiKeyService');
+const { ltiConfig } = require('../config/lti');
+
+const STATE_TTL_SECONDS = 10 * 60; // login initiation -> launch
+const LAUNCH_TTL_SECONDS = 180 * 24 * 60 * 60; // same as attempt history - grades can follow later attempts
+
+const LTI_CLAIM = 'https://purl.imsglobal.org/spec/lti/claim';
+const AGS_ENDPOINT_CLAIM = 'https://purl.imsglobal.org/spec/lti-ags/claim/endpoint';
+const AGS_SCORE_SCOPE = 'https://purl.imsglobal.org/spec/lti-ags/scope/score';
+
+class LtiError extends Error {
+  constructor(message, statusCode = 400) {
+    super(message);
+    this.name = 'LtiError';
+    this.statusCode = statusCode;
+  }
+}
+
+class LtiService {
+  constructor() {
+    // In-memory fallback when Redis is not available (development / single instance)
+    this.memoryStore = new Map();
+  }
+
+  getStateKey(state) {
+    return `lti_state:${state}`;
+  }
+
+  getLaunchKey(userId, tutorialId) {
+    return `lti_launch:${userId}:${tutorialId}`;
+  }
+
+  async read(key) {
+    if (cache.isAvailable()) {
+      return cache.get(key);
+    }
+
+    const entry = this.memoryStore.get(key);
+    if (!entry) {
+      return null;
+    }
+
+    if (entry.expiresAt < Date.now()) {
+      this.memoryStore.delete(key);
+      return null;
+    }
+
+    return entry.value;
+  }
+
+  async write(key, value, ttlSeconds) {
+    if (cache.isAvailable()) {
+      await cache.set(key, value, ttlSeconds);
+      return;
+    }
+
+    this.memoryStore.set(key, {
+      value,
+      expiresAt: Date.now() + ttlSeconds * 1000
+    });
+  }
+
+  async remove(key) {
+    if (cache.isAvailable()) {
+      await cache.del(key);
+      return;
+    }
+
+    this.memoryStore.delete(key);
+  }
+
+  /**
+   * Registered platform for an issuer (and client ID when the issuer has several)
+   * @param {string} issuer - Platform issuer
+   * @param {string} [clientId] - Client ID
+   * @returns {Object|undefined} Platform config
+   */
+  findPlatform(issuer, clientId) {
+    return ltiConfig.platforms.find(platform =>
+      platform.issuer === issuer && (!clientId || platform.clientId === clientId)
+    );
+  }
+
+  /**
+   * LearnCheck user ID for an LMS user - URL-safe and unique per platform
+   * @param {string} issuer - Platform issuer
+   * @param {string} sub - LMS user ID
+   * @returns {string} User ID
+   */
+  toUserId(issuer, sub) {
+    return `lti-${crypto.createHash('sha256').update(`${issuer}|${sub}`).digest('hex').slice(0, 24)}`;
+  }
+
+  // ==========================================================================
+  // OIDC LOGIN INITIATION
+  // ==========================================================================
+
+  /**
+   * Handle a third-party initiated login: remember state + nonce and build the
+   * authentication request back to the platform
+   * The state is bound to the browser that started the login through browserBinding,
+   * which the route sets as a cookie - a launch posted from another browser is rejected
+   * @param {Object} params - iss, login_hint, target_link_uri, lti_message_hint, client_id, lti_deployment_id
+   * @returns {Promise<{ redirectUrl: string, state: string, browserBinding: string }>}
+   * @throws {LtiError} Unknown platform or missing parameters
+   */
+  async createLoginRequest(params) {
+    const { iss, login_hint: loginHint, lti_message_hint: messageHint, client_id: clientId, target_link_uri: targetLinkUri } = params;
+
+    if (!iss || !loginHint) {
+      throw new LtiError('iss and login_hint are required');
+    }
+
+    const platform = this.findPlatform(iss, clientId);
+    if (!platform) {
+      throw new LtiError(`Platform ${iss} is not registered`, 403);
+    }
+
+    const state = crypto.randomUUID();
+    const nonce = crypto.randomUUID();
+    const browserBinding = crypto.randomBytes(32).toString('base64url');
+    await this.write(this.getStateKey(state), {
+      nonce,
+      browserBinding,
+      issuer: platform.issuer,
+      clientId: platform.clientId
+    }, STATE_TTL_SECONDS);
+
+    const query = new URLSearchParams({
+      scope: 'openid',
+      response_type: 'id_token',
+      response_mode: 'form_post',
+      prompt: 'none',
+      client_id: platform.clientId,
+      redirect_uri: ltiConfig.launchUrl,
+      login_hint: loginHint,
+      state,
+      nonce
+    });
+    if (messageHint) {
+      query.set('lti_message_hint', messageHint);
+    }
+
+    logger.info(`[LtiService] Login initiated by ${platform.issuer} for ${targetLinkUri || ltiConfig.launchUrl}`);
+    return { redirectUrl: `${platform.authLoginUrl}?${query.toString()}`, state, browserBinding };
+  }
+
+  // ==========================================================================
+  // LAUNCH
+  // ==========================================================================
+
+  /**
+   * Validate a resource link launch (state, browser binding, signature, issuer, audience, nonce, deployment)
+   * @param {string} idToken - id_token posted by the platform
+   * @param {string} state - state from the login request
+   * @param {string|null} browserBinding - Value of the state cookie set at login
+   * @returns {Promise<Object>} Launch: userId, tutorialId, sub, issuer, clientId, ags
+   * @throws {LtiError|LtiKeyError} Invalid launch
+   */
+  async validateLaunch(idToken, state, browserBinding) {
+    if (!idToken || !state) {
+      throw new LtiError('id_token and state are required');
+    }
+
+    // State is single-use - a replayed launch finds nothing
+    const stored = await this.read(this.getStateKey(state));
+    await this.remove(this.getStateKey(state));
+    if (!stored) {
+      throw new LtiError('Unknown or expired login state', 401);
+    }
+
+    // Login CSRF / session swapping: the launch must come from the browser that started the login
+    if (!browserBinding || !stored.browserBinding ||
+        browserBinding.length !== stored.browserBinding.length ||
+        !crypto.timingSafeEqual(Buffer.from(browserBinding), Buffer.from(stored.browserBinding))) {
+      throw new LtiError('Login state was not started in this browser', 401);
+    }
+
+    const platform = this.findPlatform(stored.issuer, stored.clientId);
+    if (!platform) {
+      throw new LtiError(`Platform ${stored.issuer} is not registered`, 403);
+    }
+
+    const claims = await ltiKeyService.verifyPlatformJwt(idToken, platform.keysetUrl);
+    const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+
+    if (claims.iss !== platform.issuer) {
+      throw new LtiError('id_token issuer does not match the login request', 401);
+    }
+    if (!audiences.includes(platform.clientId) || (audiences.length > 1 && claims.azp !== platform.clientId)) {
+      throw new LtiError('id_token audience does not match the client ID', 401);
+    }
+    if (claims.nonce !== stored.nonce) {
+      throw new LtiError('id_token nonce does not match the login request', 401);
+    }
+
+    const deploymentId = claims[`${LTI_CLAIM}/deployment_id`];
+    if (platform.deploymentIds.length > 0 && !platform.deploymentIds.includes(deploymentId)) {
+      throw new LtiError(`Deployment ${deploymentId} is not registered`, 403);
+    }
+    if (claims[`${LTI_CLAIM}/message_type`] !== 'LtiResourceLinkRequest') {
+      throw new LtiError(`Unsupported LTI message type ${claims[`${LTI_CLAIM}/message_type`]}`);
+    }
+    if (claims[`${LTI_CLAIM}/version`] !== '1.3.0') {
+      throw new LtiError(`Unsupported LTI version ${claims[`${LTI_CLAIM}/version`]}`);
+    }
+    if (!claims.sub) {
+      throw new LtiError('Anonymous launches are not supported');
+    }
+
+    const tutorialId = this.resolveTutorialId(platform, claims);
+    const agsEndpoint = claims[AGS_ENDPOINT_CLAIM];
+
+    return {
+      userId: this.toUserId(platform.issuer, claims.sub),
+      tutorialId,
+      sub: claims.sub,
+      issuer: platform.issuer,
+      clientId: platform.clientId,
+      deploymentId,
+      contextId: claims[`${LTI_CLAIM}/context`]?.id || null,
+      resourceLinkId: claims[`${LTI_CLAIM}/resource_link`]?.id || null,
+      // Only kept when the platform lets us post scores
+      ags: agsEndpoint?.lineitem && (agsEndpoint.scope || []).includes(AGS_SCORE_SCOPE)
+        ? { lineitem: agsEndpoint.lineitem }
+        : null
+    };
+  }
+
+  /**
+   * Tutorial for a launch: custom parameter tutorial_id, else the platform's resource link mapping
+   * @param {Object} platform - Platform config
+   * @param {Object} claims - id_token claims
+   * @returns {string} Tutorial ID
+   * @throws {LtiError} When the resource link is not mapped to a tutorial
+   */
+  resolveTutorialId(platform, claims) {
+    const custom = claims[`${LTI_CLAIM}/custom`] || {};
+    if (custom.tutorial_id) {
+      return String(custom.tutorial_id);
+    }
+
+    const contextId = claims[`${LTI_CLAIM}/context`]?.id;
+    const resourceLinkId = claims[`${LTI_CLAIM}/resource_link`]?.id;
+    const mapped = platform.resourceLinks[`${contextId}:${resourceLinkId}`];
+    if (mapped) {
+      return String(mapped);
+    }
+
+    throw new LtiError(`Resource link ${resourceLinkId} (context ${contextId}) is not mapped to a tutorial - set the custom parameter tutorial_id`);
+  }
+
+  /**
+   * Remember the launch so graded submissions can be passed back to the LMS
+   * @param {Object} launch - Result of validateLaunch
+   */
+  async recordLaunch(launch) {
+    await this.write(this.getLaunchKey(launch.userId, launch.tutorialId), {
+      ...launch,
+      launchedAt: new Date().toISOString()
+    }, LAUNCH_TTL_SECONDS);
+  }
+
+  /**
+   * Latest LTI launch of a user for a tutorial
+   * @param {string} userId - LearnCheck user ID
+   * @param {string} tutorialId - Tutorial ID
+   * @returns {Promise<Object|null>} Launch or null (not launched from an LMS)
+   */
+  async getLaunch(userId, tutorialId) {
+    if (!userId || !userId.startsWith('lti-')) {
+      return null;
+    }
+    return this.read(this.getLaunchKey(userId, tutorialId));
+  }
+}
+
+module.exports = new LtiService();
+module.exports.LtiError = LtiError;
+module.exports.AGS_SCORE_SCOPE = AGS_SCORE_SCOPE;
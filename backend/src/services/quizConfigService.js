@@ -0,0 +1,78 @@
+// Quiz Config Service - Resolves per-tutorial quiz settings
+const Joi = require('joi');
+const dicodingService = require('./dicodingService');
+const cache = require('./cache');
+const logger = require('./logger');
+const { QUESTION_TYPES, SCORING_MODES, quizDefaults } = require('../config/quiz');
+
+// Overrides coming from tutorial metadata - unknown keys are dropped
+const quizConfigSchema = Joi.object({
+  questionCount: Joi.number().integer().min(1).max(10),
+  timeLimitMinutes: Joi.number().integer().min(1).max(180),
+  passingScore: Joi.number().integer().min(0).max(100),
+  questionTypes: Joi.array().items(Joi.string().valid(...QUESTION_TYPES)).min(1),
+  maxAttempts: Joi.number().integer().min(0),
+  startingDifficulty: Joi.string().valid('easy', 'medium', 'hard'),
+  scoringMode: Joi.string().valid(...SCORING_MODES),
+  codeQuestions: Joi.boolean()
+}).options({ stripUnknown: true });
+
+class QuizConfigService {
+  /**
+   * Validate tutorial overrides; invalid overrides are ignored entirely
+   * @param {Object} overrides - `quizConfig` from tutorial metadata
+   * @returns {Object} Sanitized overrides
+   */
+  sanitizeOverrides(overrides) {
+    if (!overrides || typeof overrides !== 'object') {
+      return {};
+    }
+
+    const { error, value } = quizConfigSchema.validate(overrides);
+    if (error) {
+      logger.warn(`[QuizConfigService] Ignoring invalid quizConfig override: ${error.message}`);
+      return {};
+    }
+
+    return value;
+  }
+
+  /**
+   * Get effective quiz config for a tutorial (backend defaults + tutorial overrides)
+   * @param {string} tutorialId - Tutorial ID
+   * @returns {Promise<Object>} Quiz config
+   */
+  async getQuizConfig(tutorialId) {
+    const cacheKey = `quiz_config:${tutorialId}`;
+
+    const cached = await cache.get(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    let overrides = {};
+    try {
+      const tutorial = await dicodingService.getTutorialById(tutorialId);
+      overrides = this.sanitizeOverrides(tutorial.data?.quizConfig);
+    } catch (error) {
+      if (error.message.includes('not found')) {
+        throw error;
+      }
+      // Dicoding API unavailable - serve defaults so the quiz still works
+      logger.warn(`[QuizConfigService] Using default quiz config for ${tutorialId}: ${error.message}`);
+    }
+
+    const config = {
+      tutorialId,
+      ...quizDefaults,
+      ...overrides
+    };
+
+    // Cache for 15 minutes (same as tutorial content)
+    await cache.set(cacheKey, config, 900);
+
+    return config;
+  }
+}
+
+module.exports = new QuizConfigService();
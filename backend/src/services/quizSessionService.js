@@ -0,0 +1,198 @@
+// Quiz Session Service - Keeps answer keys server-side per generated quiz
+const crypto = require('crypto');
+const cache = require('./cache');
+const logger = require('./logger');
+const quizConfigService = require('./quizConfigService');
+const { quizDefaults } = require('../config/quiz');
+
+const SESSION_TTL_SECONDS = 24 * 60 * 60; // 24 hours
+const SUBMISSION_LOCK_TTL_SECONDS = 30; // Outlives any grading; frees the lock if a request dies holding it
+
+class QuizSessionService {
+  constructor() {
+    // In-memory fallback when Redis is not available (development / single instance)
+    this.memoryStore = new Map();
+  }
+
+  /**
+   * Build cache key for a quiz session
+   * @param {string} sessionId - Quiz session ID
+   * @returns {string} Cache key
+   */
+  getSessionKey(sessionId) {
+    return `quiz_session:${sessionId}`;
+  }
+
+  /**
+   * Resolve grading/timing rules for a session from the tutorial quiz config
+   * @param {string|null} tutorialId - Tutorial ID
+   * @returns {Promise<Object>} Quiz config (defaults when tutorial is unknown)
+   */
+  async resolveQuizConfig(tutorialId) {
+    if (!tutorialId) {
+      return quizDefaults;
+    }
+
+    try {
+      return await quizConfigService.getQuizConfig(tutorialId);
+    } catch (error) {
+      logger.warn(`[QuizSessionService] Falling back to default quiz config: ${error.message}`);
+      return quizDefaults;
+    }
+  }
+
+  /**
+   * Create a new quiz session holding the full questions (with answer keys)
+   * @param {Object} params - userId, tutorialId, difficulty, attemptNumber, language, questions
+   * @returns {Promise<Object>} Created session
+   */
+  async createSession({ userId, tutorialId, difficulty, attemptNumber, language, questions }) {
+    const quizConfig = await this.resolveQuizConfig(tutorialId);
+
+    const session = {
+      id: crypto.randomUUID(),
+      userId: userId || 'anonymous',
+      tutorialId: tutorialId || null,
+      difficulty,
+      attemptNumber,
+      language: language || 'id', // Language the questions were generated in
+      questions,
+      passingScore: quizConfig.passingScore,
+      timeLimitMinutes: quizConfig.timeLimitMinutes,
+      scoringMode: quizConfig.scoringMode,
+      maxAttempts: quizConfig.maxAttempts || 0,
+      createdAt: new Date().toISOString(),
+      startedAt: null,
+      deadline: null, // Set by POST /api/sessions/:sessionId/start
+      submission: null
+    };
+
+    await this.saveSession(session);
+    logger.info(`[QuizSessionService] Created session ${session.id} (${questions.length} questions)`);
+
+    return session;
+  }
+
+  /**
+   * Get quiz session by ID
+   * @param {string} sessionId - Quiz session ID
+   * @returns {Promise<Object|null>} Session or null if missing/expired
+   */
+  async getSession(sessionId) {
+    const key = this.getSessionKey(sessionId);
+
+    if (cache.isAvailable()) {
+      return cache.get(key);
+    }
+
+    const entry = this.memoryStore.get(key);
+    if (!entry) {
+      return null;
+    }
+
+    if (entry.expiresAt < Date.now()) {
+      this.memoryStore.delete(key);
+      return null;
+    }
+
+    return entry.session;
+  }
+
+  /**
+   * Persist quiz session (Redis when available, memory otherwise)
+   * @param {Object} session - Quiz session
+   * @returns {Promise<void>}
+   */
+  async saveSession(session) {
+    const key = this.getSessionKey(session.id);
+
+    if (cache.isAvailable()) {
+      await cache.set(key, session, SESSION_TTL_SECONDS);
+      return;
+    }
+
+    this.memoryStore.set(key, {
+      session,
+      expiresAt: Date.now() + SESSION_TTL_SECONDS * 1000
+    });
+  }
+
+  /**
+   * Claim the right to grade a submission for a learner and tutorial. Held while the
+   * attempt limit is checked and the attempt recorded, so parallel submits (double
+   * click, sessions in two tabs) cannot both pass the limit or grade one session twice.
+   * @param {string} userId - Learner
+   * @param {string|null} tutorialId - Tutorial
+   * @returns {Promise<boolean>} false when another submission holds the lock
+   */
+  async acquireSubmissionLock(userId, tutorialId) {
+    const key = `submission_lock:${userId}:${tutorialId}`;
+
+    if (cache.isAvailable()) {
+      return cache.setNX(key, true, SUBMISSION_LOCK_TTL_SECONDS);
+    }
+
+    const entry = this.memoryStore.get(key);
+    if (entry && entry.expiresAt >= Date.now()) {
+      return false;
+    }
+
+    this.memoryStore.set(key, { expiresAt: Date.now() + SUBMISSION_LOCK_TTL_SECONDS * 1000 });
+    return true;
+  }
+
+  /**
+   * Release a lock taken with acquireSubmissionLock
+   * @param {string} userId - Learner
+   * @param {string|null} tutorialId - Tutorial
+   * @returns {Promise<void>}
+   */
+  async releaseSubmissionLock(userId, tutorialId) {
+    const key = `submission_lock:${userId}:${tutorialId}`;
+
+    if (cache.isAvailable()) {
+      await cache.del(key);
+      return;
+    }
+
+    this.memoryStore.delete(key);
+  }
+
+  /**
+   * Server-stamped checkpoint of the answers a learner's draft held when it reached the server
+   * A submission replayed from the offline outbox is timed by this checkpoint (see routes/submissions.js)
+   * @param {string} sessionId - Quiz session ID
+   * @param {string} userId - Learner the draft was saved for
+   * @param {Object} answers - Map of question index to answer
+   * @returns {Promise<void>}
+   */
+  async checkpointAnswers(sessionId, userId, answers) {
+    const session = await this.getSession(sessionId);
+    if (!session || session.userId !== userId || session.submission) {
+      return;
+    }
+
+    session.answersCheckpoint = { answers, receivedAt: new Date().toISOString() };
+    await this.saveSession(session);
+  }
+
+  /**
+   * Questions as sent to the browser - built field by field, so answer keys,
+   * explanations and any field added later stay on the server
+   * @param {Array} questions - Full questions
+   * @returns {Array} Questions safe for the client
+   */
+  toPublicQuestions(questions) {
+    return questions.map(question => ({
+      id: question.id,
+      type: question.type || 'multiple-choice', // Questions cached before question types existed
+      question: question.question,
+      ...(question.options ? { options: question.options } : {}),
+      ...(question.topic ? { topic: question.topic } : {}),
+      ...(question.code ? { code: question.code } : {}),
+      ...(question.math ? { math: true } : {})
+    }));
+  }
+}
+
+module.exports = new QuizSessionService();
@@ -0,0 +1,388 @@
+// xAPI Service - Quiz activity as xAPI statements for the learning analytics LRS
+// Analytics sink: every attempt produces launched -> answered (per question) ->
+// completed -> passed|failed. Statements go through a persisted queue (Redis,
+// memory fallback) and are posted in batches; a failing LRS is retried with
+// backoff without affecting the quiz.
+const crypto = require('crypto');
+const axios = require('axios');
+const cache = require('./cache');
+const logger = require('./logger');
+const analyticsService = require('./analyticsService');
+const { xapiConfig } = require('../config/xapi');
+
+const BATCH_SIZE = 50;
+const MAX_QUEUE_SIZE = 5000;
+const RETRY_BASE_MS = 2000;
+const RETRY_MAX_MS = 5 * 60 * 1000;
+const QUEUE_KEY = 'xapi_statement_queue';
+const QUEUE_TTL_SECONDS = 7 * 24 * 60 * 60; // refreshed on every write
+const STARTUP_DELAY_MS = 5 * 1000; // let Redis connect before picking up persisted statements
+
+// Session language (generate-questions `language`) -> RFC 5646 tag of the generated text
+const LANGUAGE_TAGS = {
+  id: 'id-ID',
+  en: 'en-US'
+};
+
+const VERBS = {
+  launched: 'http://adlnet.gov/expapi/verbs/launched',
+  answered: 'http://adlnet.gov/expapi/verbs/answered',
+  completed: 'http://adlnet.gov/expapi/verbs/completed',
+  passed: 'http://adlnet.gov/expapi/verbs/passed',
+  failed: 'http://adlnet.gov/expapi/verbs/failed'
+};
+
+const ACTIVITY_TYPES = {
+  assessment: 'http://adlnet.gov/expapi/activities/assessment',
+  interaction: 'http://adlnet.gov/expapi/activities/cmi.interaction'
+};
+
+// LearnCheck question type -> cmi.interaction type
+const INTERACTION_TYPES = {
+  'multiple-choice': 'choice',
+  'multi-select': 'choice',
+  'true-false': 'true-false',
+  'short-answer': 'fill-in'
+};
+
+/**
+ * Deterministic statement ID, so a batch re-sent after a timeout is recognised
+ * by the LRS as the same statements instead of duplicates
+ * @param {...string} parts - Values that identify the statement
+ * @returns {string} UUID
+ */
+const statementId = (...parts) => {
+  const hex = crypto.createHash('sha256').update(parts.join('|')).digest('hex');
+  const variant = ((parseInt(hex[16], 16) & 0x3) | 0x8).toString(16);
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-5${hex.slice(13, 16)}-${variant}${hex.slice(17, 20)}-${hex.slice(20, 32)}`;
+};
+
+/**
+ * ISO 8601 duration (xAPI result.duration)
+ * @param {number} ms - Duration in ms
+ * @returns {string} e.g. PT12.4S
+ */
+const toDuration = (ms) => `PT${Math.round(Math.max(ms, 0) / 100) / 10}S`;
+
+// Sessions created before the language was stored are tagged as undetermined
+const languageTag = (attempt) => LANGUAGE_TAGS[attempt.language] || 'und';
+
+const toResponse = (result) => {
+  const answer = Array.isArray(result.userAnswer) ? result.userAnswer.join('[,]') : result.userAnswer;
+  return String(answer ?? '');
+};
+
+class XapiService {
+  constructor() {
+    // In-memory fallback when Redis is not available (development / single instance)
+    this.memoryStore = new Map();
+    this.queueLock = Promise.resolve();
+    this.failures = 0;
+    this.flushing = false;
+    this.retryTimer = null;
+  }
+
+  async readQueue() {
+    if (cache.isAvailable()) {
+      return (await cache.get(QUEUE_KEY)) || [];
+    }
+    return this.memoryStore.get(QUEUE_KEY) || [];
+  }
+
+  async writeQueue(statements) {
+    if (cache.isAvailable()) {
+      await cache.set(QUEUE_KEY, statements, QUEUE_TTL_SECONDS);
+      return;
+    }
+    this.memoryStore.set(QUEUE_KEY, statements);
+  }
+
+  /**
+   * Read-modify-write of the stored queue, serialized within this process
+   * @param {Function} update - statements => updated statements
+   * @returns {Promise<Array>} Updated statements
+   */
+  updateQueue(update) {
+    const run = this.queueLock.then(async () => {
+      const statements = update(await this.readQueue());
+      await this.writeQueue(statements);
+      return statements;
+    });
+    this.queueLock = run.catch(() => {});
+    return run;
+  }
+
+  // ==========================================================================
+  // STATEMENTS
+  // ==========================================================================
+
+  getActor(userId) {
+    return {
+      objectType: 'Agent',
+      account: { homePage: xapiConfig.actorHomePage, name: userId }
+    };
+  }
+
+  getAssessmentActivity(tutorialId) {
+    return {
+      objectType: 'Activity',
+      id: `${xapiConfig.activityBase}/tutorials/${encodeURIComponent(tutorialId)}`,
+      definition: {
+        type: ACTIVITY_TYPES.assessment,
+        name: { 'en-US': `LearnCheck - Tutorial ${tutorialId}` }
+      }
+    };
+  }
+
+  /**
+   * Question activity - questions are generated per session, so the session is part of the IRI
+   * @param {Object} attempt - sessionId, tutorialId, language
+   * @param {Object} result - Graded question result (see gradingService.gradeQuestion)
+   * @returns {Object} Activity
+   */
+  getQuestionActivity(attempt, result) {
+    const type = result.type || 'multiple-choice';
+    const definition = {
+      type: ACTIVITY_TYPES.interaction,
+      name: { [languageTag(attempt)]: result.question },
+      interactionType: INTERACTION_TYPES[type] || 'other'
+    };
+
+    if (type === 'short-answer') {
+      definition.correctResponsesPattern = [result.correctAnswer, ...(result.acceptedAnswers || [])].map(String);
+    } else {
+      const correct = Array.isArray(result.correctAnswer) ? result.correctAnswer.join('[,]') : result.correctAnswer;
+      definition.correctResponsesPattern = [String(correct)];
+      if (definition.interactionType === 'choice') {
+        definition.choices = (result.options || []).map(option => ({
+          id: option.id,
+          description: { [languageTag(attempt)]: option.text }
+        }));
+      }
+    }
+
+    return {
+      objectType: 'Activity',
+      id: `${xapiConfig.activityBase}/sessions/${attempt.sessionId}/questions/${result.questionId}`,
+      definition
+    };
+  }
+
+  getContext(attempt, { parent = false } = {}) {
+    const context = {
+      registration: attempt.sessionId, // one registration per attempt
+      platform: 'LearnCheck',
+      language: languageTag(attempt),
+      extensions: {
+        [`${xapiConfig.activityBase}/xapi/attempt-number`]: attempt.attemptNumber ?? null,
+        [`${xapiConfig.activityBase}/xapi/difficulty`]: attempt.difficulty ?? null
+      }
+    };
+
+    if (parent) {
+      context.contextActivities = { parent: [this.getAssessmentActivity(attempt.tutorialId)] };
+    }
+
+    return context;
+  }
+
+  buildStatement(attempt, verb, object, { id, result, timestamp, parent = false }) {
+    return {
+      id,
+      actor: this.getActor(attempt.userId),
+      verb: { id: VERBS[verb], display: { 'en-US': verb } },
+      object,
+      ...(result ? { result } : {}),
+      context: this.getContext(attempt, { parent }),
+      timestamp
+    };
+  }
+
+  /**
+   * Statement for a started attempt
+   * @param {Object} attempt - Payload of 'assessment.started'
+   * @returns {Object} launched statement
+   */
+  buildLaunchedStatement(attempt) {
+    return this.buildStatement(attempt, 'launched', this.getAssessmentActivity(attempt.tutorialId), {
+      id: statementId(attempt.sessionId, 'launched'),
+      timestamp: attempt.startedAt
+    });
+  }
+
+  /**
+   * Statements for a graded attempt: answered per question, completed, passed|failed
+   * @param {Object} attempt - Payload of 'assessment.submitted'
+   * @returns {Array} Statements in order
+   */
+  buildSubmittedStatements(attempt) {
+    const timestamp = attempt.submittedAt;
+    const questionTelemetry = attempt.telemetry?.questions || {};
+
+    const answered = (attempt.results || []).map((result, index) => {
+      const timeOnTaskMs = questionTelemetry[index]?.timeOnTaskMs;
+      return this.buildStatement(attempt, 'answered', this.getQuestionActivity(attempt, result), {
+        id: statementId(attempt.sessionId, 'answered', index),
+        timestamp,
+        parent: true,
+        result: {
+          response: toResponse(result),
+          success: result.isCorrect,
+          score: { scaled: result.credit, raw: result.credit, min: 0, max: 1 },
+          ...(timeOnTaskMs !== undefined ? { duration: toDuration(timeOnTaskMs) } : {})
+        }
+      });
+    });
+
+    const { score } = attempt;
+    const scored = {
+      score: {
+        scaled: score.total > 0 ? Math.round((score.points / score.total) * 10000) / 10000 : 0,
+        raw: score.points,
+        min: 0,
+        max: score.total
+      }
+    };
+    const duration = attempt.startedAt
+      ? { duration: toDuration(new Date(timestamp).getTime() - new Date(attempt.startedAt).getTime()) }
+      : {};
+    const assessment = this.getAssessmentActivity(attempt.tutorialId);
+
+    const completed = this.buildStatement(attempt, 'completed', assessment, {
+      id: statementId(attempt.sessionId, 'completed'),
+      timestamp,
+      result: { completion: true, ...scored, ...duration }
+    });
+
+    const outcome = attempt.passed ? 'passed' : 'failed';
+    const graded = this.buildStatement(attempt, outcome, assessment, {
+      id: statementId(attempt.sessionId, outcome),
+      timestamp,
+      result: { success: attempt.passed, ...scored }
+    });
+
+    return [...answered, completed, graded];
+  }
+
+  // ==========================================================================
+  // QUEUE
+  // ==========================================================================
+
+  /**
+   * Queue statements for delivery to the LRS
+   * @param {Array} statements - xAPI statements
+   * @returns {Promise<void>}
+   */
+  async enqueue(statements) {
+    await this.updateQueue(queued => {
+      const next = [...queued, ...statements];
+
+      // Bounded while the LRS is down - the oldest statements go first
+      if (next.length > MAX_QUEUE_SIZE) {
+        const dropped = next.splice(0, next.length - MAX_QUEUE_SIZE);
+        logger.error(`[XapiService] Queue full, dropped ${dropped.length} statements`);
+      }
+      return next;
+    });
+
+    setImmediate(() => this.flush());
+  }
+
+  async postStatements(statements) {
+    await axios.post(`${xapiConfig.endpoint}/statements`, statements, {
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Experience-API-Version': xapiConfig.version
+      },
+      auth: xapiConfig.username ? { username: xapiConfig.username, password: xapiConfig.password || '' } : undefined,
+      timeout: 5000
+    });
+  }
+
+  /**
+   * Send queued statements in batches; on failure the rest stays queued and is retried
+   * @returns {Promise<void>}
+   */
+  async flush() {
+    // A pending retry flushes on its own schedule - don't reset the backoff
+    if (this.flushing || this.retryTimer) {
+      return;
+    }
+    this.flushing = true;
+
+    try {
+      let queued = await this.readQueue();
+      while (queued.length > 0) {
+        const batch = queued.slice(0, BATCH_SIZE);
+
+        try {
+          await this.postStatements(batch);
+        } catch (error) {
+          const status = error.response?.status;
+
+          // 409: statement IDs already stored (an earlier attempt timed out after the LRS saved them)
+          // 400/413: the LRS rejects the statements themselves - sending them again will not help
+          if (status === 400 || status === 413) {
+            logger.error(`[XapiService] LRS rejected ${batch.length} statements: ${JSON.stringify(error.response.data)}`);
+          } else if (status !== 409) {
+            this.scheduleRetry(error, queued.length);
+            return;
+          }
+        }
+
+        // Removed by ID - statements enqueued while the batch was posted stay in the queue
+        const sent = new Set(batch.map(statement => statement.id));
+        queued = await this.updateQueue(statements => statements.filter(statement => !sent.has(statement.id)));
+        this.failures = 0;
+      }
+    } catch (error) {
+      logger.error(`[XapiService] Statement queue error: ${error.message}`);
+    } finally {
+      this.flushing = false;
+    }
+  }
+
+  scheduleRetry(error, pending) {
+    this.failures += 1;
+    const delay = Math.min(RETRY_BASE_MS * 2 ** (this.failures - 1), RETRY_MAX_MS);
+    logger.warn(`[XapiService] LRS unavailable (${error.message}), retrying ${pending} statements in ${delay / 1000}s`);
+
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      this.flush();
+    }, delay);
+    this.retryTimer.unref();
+  }
+
+  /**
+   * Subscribe to attempt events (called once at startup)
+   */
+  register() {
+    if (!xapiConfig.enabled) {
+      logger.info('[XapiService] XAPI_LRS_ENDPOINT not set - xAPI statements disabled');
+      return;
+    }
+
+    analyticsService.on('event', ({ event, payload }) => {
+      let statements;
+      if (event === 'assessment.started') {
+        statements = [this.buildLaunchedStatement(payload)];
+      } else if (event === 'assessment.submitted') {
+        statements = this.buildSubmittedStatements(payload);
+      } else {
+        return;
+      }
+
+      this.enqueue(statements).catch(error => {
+        logger.error(`[XapiService] Could not queue statements for session ${payload.sessionId}: ${error.message}`);
+      });
+    });
+
+    // Statements persisted before a restart
+    setTimeout(() => this.flush(), STARTUP_DELAY_MS).unref();
+
+    logger.info(`[XapiService] Sending xAPI statements to ${xapiConfig.endpoint}`);
+  }
+}
+
+module.exports = new XapiService();
@@ -0,0 +1,76 @@
+jest.mock('../src/services/cache', () => ({ isAvailable: () => false, get: async () => null, set: async () => false }));
+jest.mock('../src/services/logger', () => ({ info: jest.fn(), warn: jest.fn(), error: jest.fn() }));
+jest.mock('../src/services/quizConfigService', () => ({ getQuizConfig: jest.fn(async () => ({ maxAttempts: 0 })) }));
+
+const express = require('express');
+const request = require('supertest');
+const { denyForeignSession } = require('../src/middleware/auth');
+const quizSessionService = require('../src/services/quizSessionService');
+const submissionRoutes = require('../src/routes/submissions');
+const tutorialRoutes = require('../src/routes/tutorials');
+
+const LAUNCH = { userId: 'siti', tutorialId: '42' };
+
+// Launch token verification is covered by launchTokenService.test.js
+const app = express();
+app.use(express.json());
+app.use((req, res, next) => {
+  req.launch = LAUNCH;
+  next();
+});
+app.use('/api/submissions', submissionRoutes);
+app.use('/api/tutorials', tutorialRoutes);
+
+const mockResponse = () => {
+  const res = {};
+  res.status = jest.fn(() => res);
+  res.json = jest.fn(() => res);
+  return res;
+};
+
+afterEach(() => {
+  quizSessionService.memoryStore.clear();
+});
+
+describe('denyForeignSession', () => {
+  test.each([
+    ['another learner', { userId: 'budi', tutorialId: '42' }],
+    ['another tutorial', { userId: 'siti', tutorialId: '7' }]
+  ])('rejects a session of %s', (owner, session) => {
+    const res = mockResponse();
+
+    expect(denyForeignSession({ launch: LAUNCH }, res, { id: 'session-1', ...session })).toBe(true);
+    expect(res.status).toHaveBeenCalledWith(403);
+    expect(res.json).toHaveBeenCalledWith(expect.objectContaining({ message: `This quiz session belongs to ${owner}` }));
+  });
+
+  test('lets the launching learner into their session', () => {
+    const res = mockResponse();
+
+    expect(denyForeignSession({ launch: LAUNCH }, res, { id: 'session-1', ...LAUNCH })).toBe(false);
+    expect(res.status).not.toHaveBeenCalled();
+  });
+});
+
+test('a session of another tutorial cannot be submitted', async () => {
+  await quizSessionService.saveSession({ id: 'session-7', userId: 'siti', tutorialId: '7', questions: [], submission: null });
+
+  const response = await request(app).post('/api/submissions').send({ sessionId: 'session-7', answers: {} });
+
+  expect(response.status).toBe(403);
+  expect(response.body.error).toBe('Forbidden');
+});
+
+describe('tutorial routes', () => {
+  test('reject another tutorial', async () => {
+    const response = await request(app).get('/api/tutorials/7/quiz-config');
+
+    expect(response.status).toBe(403);
+  });
+
+  test('serve the launch tutorial', async () => {
+    const response = await request(app).get('/api/tutorials/42/quiz-config');
+
+    expect(response.status).toBe(200);
+  });
+});
@@ -0,0 +1,97 @@
+const { gradeQuestion, gradeAnswers, haveSameAnswers, isLateSubmission } = require('../src/services/gradingService');
+
+const options = ['A', 'B', 'C', 'D'].map(id => ({ id, text: `Opsi ${id}` }));
+
+const multiSelect = {
+  id: 1,
+  type: 'multi-select',
+  question: 'Pilih semua yang benar',
+  options,
+  correctAnswer: ['A', 'C'],
+  explanation: 'A dan C'
+};
+
+const shortAnswer = {
+  id: 2,
+  type: 'short-answer',
+  question: 'Hook untuk state?',
+  correctAnswer: 'useState',
+  acceptedAnswers: ['use state'],
+  explanation: 'useState'
+};
+
+describe('multi-select scoring', () => {
+  test('all-or-nothing gives credit only for the exact set', () => {
+    expect(gradeQuestion(multiSelect, ['C', 'A'], 'all-or-nothing')).toMatchObject({ isCorrect: true, credit: 1 });
+    expect(gradeQuestion(multiSelect, ['A'], 'all-or-nothing')).toMatchObject({ isCorrect: false, credit: 0 });
+  });
+
+  test('partial subtracts wrong picks from correct picks', () => {
+    expect(gradeQuestion(multiSelect, ['A'], 'partial').credit).toBe(0.5);
+    expect(gradeQuestion(multiSelect, ['A', 'B'], 'partial').credit).toBe(0);
+    expect(gradeQuestion(multiSelect, ['A', 'C', 'B'], 'partial')).toMatchObject({ isCorrect: false, credit: 0.5 });
+  });
+
+  test('selecting every option earns nothing', () => {
+    expect(gradeQuestion(multiSelect, ['A', 'B', 'C', 'D'], 'partial').credit).toBe(0);
+  });
+
+  test('duplicate and non-string picks are ignored', () => {
+    expect(gradeQuestion(multiSelect, ['A', 'A', 7, 'C'], 'all-or-nothing').credit).toBe(1);
+  });
+
+  test('partial credit is summed into points', () => {
+    const { score, passed } = gradeAnswers([multiSelect, shortAnswer], { 0: ['A'], 1: 'useState' }, {
+      scoringMode: 'partial',
+      passingScore: 75
+    });
+    expect(score).toEqual({ correct: 1, points: 1.5, total: 2, percentage: 75 });
+    expect(passed).toBe(true);
+  });
+});
+
+describe('short-answer normalization', () => {
+  test.each([
+    ['useState', true],
+    ['  USESTATE  ', true],
+    ['useState.', true],
+    ['use   state!', true],
+    ['useEffect', false],
+    ['', false],
+    [undefined, false]
+  ])('%p is correct: %p', (answer, expected) => {
+    expect(gradeQuestion(shortAnswer, answer).isCorrect).toBe(expected);
+  });
+
+  test('an empty answer does not match an empty answer key', () => {
+    expect(gradeQuestion({ ...shortAnswer, correctAnswer: '', acceptedAnswers: [] }, '  ').isCorrect).toBe(false);
+  });
+});
+
+describe('deadline grace window', () => {
+  const deadline = '2024-01-01T10:00:00.000Z';
+  const at = (offsetMs) => new Date(deadline).getTime() + offsetMs;
+
+  test('submissions within 30 seconds after the deadline are on time', () => {
+    expect(isLateSubmission(deadline, at(-1000))).toBe(false);
+    expect(isLateSubmission(deadline, at(30 * 1000))).toBe(false);
+  });
+
+  test('submissions after the grace window are late', () => {
+    expect(isLateSubmission(deadline, at(30 * 1000 + 1))).toBe(true);
+  });
+
+  test('sessions without a deadline are never late', () => {
+    expect(isLateSubmission(null, at(60 * 60 * 1000))).toBe(false);
+  });
+});
+
+describe('haveSameAnswers', () => {
+  test('ignores option order and empty answers', () => {
+    expect(haveSameAnswers({ 0: ['C', 'A'], 1: '' }, { 0: ['A', 'C'] })).toBe(true);
+  });
+
+  test('detects a changed answer', () => {
+    expect(haveSameAnswers({ 0: 'A' }, { 0: 'B' })).toBe(false);
+  });
+});
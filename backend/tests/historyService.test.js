@@ -0,0 +1,140 @@
+jest.mock('../src/services/cache', () => ({ isAvailable: () => false }));
+jest.mock('../src/services/logger', () => ({ info: jest.fn(), warn: jest.fn(), error: jest.fn() }));
+
+const historyService = require('../src/services/historyService');
+
+const USER = 'siti';
+const TUTORIAL = '42';
+
+const clientAttempt = (overrides = {}) => ({
+  id: 'attempt-1',
+  attemptNumber: 1,
+  score: 2,
+  totalQuestions: 3,
+  percentage: 67,
+  passed: false,
+  timestamp: '2024-05-01T10:00:00.000Z',
+  updatedAt: '2024-05-01T10:00:00.000Z',
+  results: [{ questionId: 1 }],
+  ...overrides
+});
+
+// What recordSubmission stores for a graded submission
+const serverAttempt = (overrides = {}) => ({ ...clientAttempt(), gradedBy: 'server', ...overrides });
+
+const merge = (attempts, options) => historyService.mergeAttempts(USER, TUTORIAL, attempts, options);
+
+afterEach(() => {
+  historyService.memoryStore.clear();
+  jest.useRealTimers();
+});
+
+describe('client attempts', () => {
+  test('are stored by id, oldest first', async () => {
+    const merged = await merge([
+      clientAttempt({ id: 'b', timestamp: '2024-05-02T10:00:00.000Z' }),
+      clientAttempt({ id: 'a' })
+    ]);
+
+    expect(merged.map(attempt => attempt.id)).toEqual(['a', 'b']);
+    expect(await historyService.getAttempts(USER, TUTORIAL)).toEqual(merged);
+  });
+
+  test('a newer version replaces the stored one, an older one is ignored', async () => {
+    await merge([clientAttempt({ updatedAt: '2024-05-01T12:00:00.000Z', flaggedQuestions: [1] })]);
+
+    let [stored] = await merge([clientAttempt({ updatedAt: '2024-05-01T11:00:00.000Z', flaggedQuestions: [] })]);
+    expect(stored.flaggedQuestions).toEqual([1]);
+
+    [stored] = await merge([clientAttempt({ updatedAt: '2024-05-01T13:00:00.000Z', flaggedQuestions: [2] })]);
+    expect(stored.flaggedQuestions).toEqual([2]);
+  });
+
+  test('on a tie a detailed record beats a pruned summary', async () => {
+    await merge([clientAttempt({ results: undefined, pruned: true })]);
+
+    const [stored] = await merge([clientAttempt()]);
+    expect(stored.results).toEqual([{ questionId: 1 }]);
+  });
+
+  test('timestamps in the future are clamped to server time', async () => {
+    jest.useFakeTimers({ now: new Date('2024-05-02T00:00:00.000Z') });
+
+    const [stored] = await merge([clientAttempt({ updatedAt: '2030-01-01T00:00:00.000Z' })]);
+    expect(stored.updatedAt).toBe('2024-05-02T00:00:00.000Z');
+  });
+
+  test('cannot mark themselves as server graded', async () => {
+    const [stored] = await merge([clientAttempt({ gradedBy: 'server' })]);
+
+    expect(stored.gradedBy).toBeUndefined();
+    expect(await historyService.hasReachedAttemptLimit(USER, TUTORIAL, 1)).toBe(false);
+  });
+});
+
+describe('server-graded attempts', () => {
+  test('keep their grading when a client sends a newer version', async () => {
+    await merge([serverAttempt()], { trusted: true });
+
+    const [stored] = await merge([clientAttempt({
+      updatedAt: '2024-05-01T11:00:00.000Z',
+      score: 3,
+      percentage: 100,
+      passed: true,
+      results: [{ questionId: 1, isCorrect: true }],
+      flaggedQuestions: [0]
+    })]);
+
+    expect(stored).toMatchObject({ gradedBy: 'server', score: 2, percentage: 67, passed: false, results: [{ questionId: 1 }] });
+    expect(stored.flaggedQuestions).toEqual([0]);
+    expect(stored.updatedAt).toBe('2024-05-01T11:00:00.000Z');
+  });
+
+  test('can be pruned by a client', async () => {
+    await merge([serverAttempt({ questions: [], telemetry: {} })], { trusted: true });
+
+    const [stored] = await merge([clientAttempt({ updatedAt: '2024-05-01T11:00:00.000Z', pruned: true })]);
+
+    expect(stored.pruned).toBe(true);
+    expect(stored).not.toHaveProperty('results');
+    expect(stored).not.toHaveProperty('questions');
+    expect(stored).toMatchObject({ score: 2, passed: false });
+  });
+
+  test('trusted attempts always replace the stored one', async () => {
+    await merge([clientAttempt({ updatedAt: '2024-05-01T12:00:00.000Z', score: 3 })]);
+
+    const [stored] = await merge([serverAttempt()], { trusted: true });
+    expect(stored).toMatchObject({ gradedBy: 'server', score: 2 });
+  });
+
+  test('survive a flood of future-dated client attempts', async () => {
+    jest.useFakeTimers({ now: new Date('2024-05-02T00:00:00.000Z') });
+    await merge([serverAttempt({ id: 'a' }), serverAttempt({ id: 'b' })], { trusted: true });
+
+    const flood = Array.from({ length: 200 }, (_, index) => clientAttempt({
+      id: `flood-${index}`,
+      timestamp: '2099-01-01T00:00:00.000Z',
+      updatedAt: '2099-01-01T00:00:00.000Z'
+    }));
+    const merged = await merge(flood);
+
+    expect(merged.filter(attempt => attempt.gradedBy === 'server').map(attempt => attempt.id)).toEqual(['a', 'b']);
+    expect(merged).toHaveLength(202);
+    expect(merged.every(attempt => attempt.timestamp <= '2024-05-02T00:00:00.000Z')).toBe(true);
+    expect(await historyService.hasReachedAttemptLimit(USER, TUTORIAL, 2)).toBe(true);
+
+    // The cap still applies to client attempts on their own
+    const more = await merge([clientAttempt({ id: 'flood-extra', timestamp: '2024-05-01T23:00:00.000Z' })]);
+    expect(more.filter(attempt => attempt.gradedBy !== 'server')).toHaveLength(200);
+    expect(more.filter(attempt => attempt.gradedBy === 'server')).toHaveLength(2);
+  });
+
+  test('count towards the attempt limit', async () => {
+    await merge([serverAttempt({ id: 'a' }), serverAttempt({ id: 'b' })], { trusted: true });
+
+    expect(await historyService.hasReachedAttemptLimit(USER, TUTORIAL, 2)).toBe(true);
+    expect(await historyService.hasReachedAttemptLimit(USER, TUTORIAL, 3)).toBe(false);
+    expect(await historyService.hasReachedAttemptLimit(USER, TUTORIAL, 0)).toBe(false);
+  });
+});
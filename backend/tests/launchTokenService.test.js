@@ -0,0 +1,89 @@
+const crypto = require('crypto');
+const { signLaunchToken, verifyLaunchToken } = require('../src/services/launchTokenService');
+
+const SECRET = 'test-launch-secret';
+
+const base64url = (value) => Buffer.from(JSON.stringify(value)).toString('base64url');
+const hmac = (data, secret = SECRET) => crypto.createHmac('sha256', secret).update(data).digest('base64url');
+
+// Token with arbitrary header/claims, signed with HMAC-SHA256 unless a signature is given
+const craftToken = (header, claims, signature) => {
+  const data = `${base64url(header)}.${base64url(claims)}`;
+  return `${data}.${signature ?? hmac(data)}`;
+};
+
+const nowSeconds = () => Math.floor(Date.now() / 1000);
+const validClaims = () => ({ sub: 'siti', tutorial_id: '42', iat: nowSeconds(), exp: nowSeconds() + 3600 });
+
+beforeEach(() => {
+  process.env.LAUNCH_TOKEN_SECRET = SECRET;
+});
+
+afterEach(() => {
+  delete process.env.LAUNCH_TOKEN_SECRET;
+  jest.useRealTimers();
+});
+
+test('a signed token round-trips to the launch context', () => {
+  const launch = verifyLaunchToken(signLaunchToken({ userId: 'siti', tutorialId: '42' }));
+  expect(launch).toMatchObject({ userId: 'siti', tutorialId: '42' });
+  expect(new Date(launch.expiresAt).getTime()).toBeGreaterThan(Date.now());
+});
+
+describe('algorithm pinning', () => {
+  test('rejects alg "none" without a signature', () => {
+    const token = craftToken({ alg: 'none', typ: 'JWT' }, validClaims(), '');
+    expect(() => verifyLaunchToken(token)).toThrow('must be signed with HS256');
+  });
+
+  test('rejects another algorithm even when the HMAC matches', () => {
+    const token = craftToken({ alg: 'HS512', typ: 'JWT' }, validClaims());
+    expect(() => verifyLaunchToken(token)).toThrow('must be signed with HS256');
+  });
+});
+
+describe('expiry', () => {
+  test('accepts a token within the clock skew after exp', () => {
+    const token = signLaunchToken({ userId: 'siti', tutorialId: '42', ttlSeconds: 60 });
+    jest.useFakeTimers({ now: Date.now() + 80 * 1000 });
+    expect(verifyLaunchToken(token).userId).toBe('siti');
+  });
+
+  test('rejects an expired token as TokenExpiredError', () => {
+    const token = signLaunchToken({ userId: 'siti', tutorialId: '42', ttlSeconds: 60 });
+    jest.useFakeTimers({ now: Date.now() + 120 * 1000 });
+    expect(() => verifyLaunchToken(token)).toThrow(expect.objectContaining({ name: 'TokenExpiredError', statusCode: 401 }));
+  });
+
+  test('rejects a lifetime over 12 hours even when correctly signed', () => {
+    const token = craftToken({ alg: 'HS256', typ: 'JWT' }, { ...validClaims(), exp: nowSeconds() + 13 * 60 * 60 });
+    expect(() => verifyLaunchToken(token)).toThrow('must expire within 12 hours');
+  });
+
+  test('rejects a token issued in the future', () => {
+    const token = craftToken({ alg: 'HS256', typ: 'JWT' }, { ...validClaims(), iat: nowSeconds() + 600, exp: nowSeconds() + 1200 });
+    expect(() => verifyLaunchToken(token)).toThrow('not valid yet');
+  });
+});
+
+describe('tampering', () => {
+  test('rejects a changed payload', () => {
+    const [header, , signature] = signLaunchToken({ userId: 'siti', tutorialId: '42' }).split('.');
+    const forged = `${header}.${base64url({ ...validClaims(), sub: 'budi' })}.${signature}`;
+    expect(() => verifyLaunchToken(forged)).toThrow('Invalid launch token signature');
+  });
+
+  test('rejects a token signed with another secret', () => {
+    const data = `${base64url({ alg: 'HS256', typ: 'JWT' })}.${base64url(validClaims())}`;
+    expect(() => verifyLaunchToken(`${data}.${hmac(data, 'other-secret')}`)).toThrow('Invalid launch token signature');
+  });
+
+  test('rejects a token without sub or tutorial_id', () => {
+    const token = craftToken({ alg: 'HS256', typ: 'JWT' }, { ...validClaims(), tutorial_id: undefined });
+    expect(() => verifyLaunchToken(token)).toThrow('must contain sub and tutorial_id');
+  });
+
+  test.each(['', 'abc', 'a.b', 'a.b.c.d', '!!!.e30.sig'])('rejects malformed token %p', (token) => {
+    expect(() => verifyLaunchToken(token)).toThrow(expect.objectContaining({ name: 'JsonWebTokenError' }));
+  });
+});
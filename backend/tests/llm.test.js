@@ -0,0 +1,89 @@
+const mockGenerateContent = jest.fn();
+
+jest.mock('@google/generative-ai', () => ({
+  GoogleGenerativeAI: jest.fn(() => ({ getGenerativeModel: () => ({ generateContent: mockGenerateContent }) }))
+}));
+jest.mock('../src/services/cache', () => ({ isAvailable: () => false, get: async () => null, set: async () => false }));
+jest.mock('../src/services/logger', () => ({ info: jest.fn(), warn: jest.fn(), error: jest.fn() }));
+jest.mock('../src/services/quizConfigService', () => ({ getQuizConfig: jest.fn() }));
+
+const express = require('express');
+const request = require('supertest');
+const quizConfigService = require('../src/services/quizConfigService');
+const quizSessionService = require('../src/services/quizSessionService');
+const historyService = require('../src/services/historyService');
+const { quizDefaults } = require('../src/config/quiz');
+const llmRoutes = require('../src/routes/llm');
+
+const USER = 'siti';
+const TUTORIAL = '42';
+
+const app = express();
+app.use(express.json());
+app.use((req, res, next) => {
+  req.launch = { userId: USER, tutorialId: TUTORIAL };
+  next();
+});
+app.use('/api/llm', llmRoutes);
+
+const trueFalse = (id) => ({ id, type: 'true-false', question: `Pernyataan ${id}`, correctAnswer: 'true', explanation: 'Benar' });
+
+// The request asks for a short, easy multiple-choice quiz
+const generate = (overrides = {}) =>
+  request(app).post('/api/llm/generate-questions').send({
+    content: 'Materi tentang React Hooks. '.repeat(10),
+    questionCount: 1,
+    difficulty: 'easy',
+    questionTypes: ['multiple-choice'],
+    ...overrides
+  });
+
+const prompt = () => mockGenerateContent.mock.calls[0][0];
+
+beforeEach(() => {
+  quizConfigService.getQuizConfig.mockResolvedValue({
+    ...quizDefaults,
+    questionCount: 2,
+    questionTypes: ['true-false'],
+    startingDifficulty: 'hard'
+  });
+  mockGenerateContent.mockResolvedValue({ response: { text: () => JSON.stringify([trueFalse(1), trueFalse(2)]) } });
+});
+
+afterEach(() => {
+  jest.clearAllMocks();
+  quizSessionService.memoryStore.clear();
+  historyService.memoryStore.clear();
+});
+
+test('count, formats and starting difficulty come from the quiz config', async () => {
+  const response = await generate();
+
+  expect(response.status).toBe(200);
+  expect(prompt()).toContain('Buat 2 soal');
+  expect(prompt()).toContain('Tingkat kesulitan: hard');
+  expect(prompt()).toContain('"true-false"');
+  expect(prompt()).not.toContain('"multiple-choice":');
+  expect(response.body.data.questions).toHaveLength(2);
+  expect(response.body.difficulty).toBe('hard');
+});
+
+test('difficulty adapts to the last graded attempt, not the reported score', async () => {
+  await historyService.mergeAttempts(USER, TUTORIAL, [{
+    id: 'graded',
+    gradedBy: 'server',
+    attemptNumber: 1,
+    score: 0,
+    totalQuestions: 2,
+    percentage: 0,
+    passed: false,
+    difficulty: 'medium',
+    timestamp: '2024-05-01T10:00:00.000Z',
+    updatedAt: '2024-05-01T10:00:00.000Z'
+  }], { trusted: true });
+
+  const response = await generate({ difficulty: 'hard', previousScore: 100, attemptNumber: 1 });
+
+  expect(response.body.difficulty).toBe('easy');
+  expect(prompt()).toContain('Tingkat kesulitan: easy');
+});
@@ -0,0 +1,134 @@
+const PLATFORM = {
+  issuer: 'https://lms.example.test',
+  clientId: 'learncheck-client',
+  deploymentIds: ['1'],
+  authLoginUrl: 'https://lms.example.test/auth',
+  authTokenUrl: 'https://lms.example.test/token',
+  keysetUrl: 'https://lms.example.test/jwks'
+};
+process.env.LTI_PLATFORMS = JSON.stringify([PLATFORM]);
+
+jest.mock('../src/services/cache', () => ({ isAvailable: () => false }));
+jest.mock('../src/services/logger', () => ({ info: jest.fn(), warn: jest.fn(), error: jest.fn() }));
+// Signature checks live in ltiKeyService - here the verified claims are given directly
+jest.mock('../src/services/ltiKeyService', () => ({ verifyPlatformJwt: jest.fn() }));
+
+const ltiKeyService = require('../src/services/ltiKeyService');
+const ltiService = require('../src/services/ltiService');
+
+const LTI_CLAIM = 'https://purl.imsglobal.org/spec/lti/claim';
+
+const login = async () => {
+  const { redirectUrl, state, browserBinding } = await ltiService.createLoginRequest({
+    iss: PLATFORM.issuer,
+    login_hint: 'user-1',
+    client_id: PLATFORM.clientId
+  });
+  return { state, browserBinding, nonce: new URL(redirectUrl).searchParams.get('nonce') };
+};
+
+const claimsFor = (nonce, overrides = {}) => ({
+  iss: PLATFORM.issuer,
+  aud: PLATFORM.clientId,
+  sub: 'lms-user-1',
+  nonce,
+  [`${LTI_CLAIM}/deployment_id`]: '1',
+  [`${LTI_CLAIM}/message_type`]: 'LtiResourceLinkRequest',
+  [`${LTI_CLAIM}/version`]: '1.3.0',
+  [`${LTI_CLAIM}/custom`]: { tutorial_id: '42' },
+  ...overrides
+});
+
+const launchWith = (claims, { state, browserBinding }) => {
+  ltiKeyService.verifyPlatformJwt.mockResolvedValueOnce(claims);
+  return ltiService.validateLaunch('id-token', state, browserBinding);
+};
+
+afterEach(() => {
+  ltiKeyService.verifyPlatformJwt.mockReset();
+  ltiService.memoryStore.clear();
+});
+
+test('accepts a launch matching its login request', async () => {
+  const session = await login();
+  const launch = await launchWith(claimsFor(session.nonce), session);
+
+  expect(launch).toMatchObject({ tutorialId: '42', sub: 'lms-user-1', issuer: PLATFORM.issuer, clientId: PLATFORM.clientId });
+  expect(launch.userId).toBe(ltiService.toUserId(PLATFORM.issuer, 'lms-user-1'));
+  expect(ltiKeyService.verifyPlatformJwt).toHaveBeenCalledWith('id-token', PLATFORM.keysetUrl);
+});
+
+describe('state and nonce reuse', () => {
+  test('a state can be used for one launch only', async () => {
+    const session = await login();
+    await launchWith(claimsFor(session.nonce), session);
+
+    await expect(launchWith(claimsFor(session.nonce), session))
+      .rejects.toMatchObject({ statusCode: 401, message: 'Unknown or expired login state' });
+  });
+
+  test('a failed launch still consumes the state', async () => {
+    const session = await login();
+    await expect(launchWith(claimsFor(session.nonce, { iss: 'https://evil.test' }), session)).rejects.toThrow();
+
+    await expect(launchWith(claimsFor(session.nonce), session)).rejects.toThrow('Unknown or expired login state');
+  });
+
+  test('an id_token carrying the nonce of another login is rejected', async () => {
+    const first = await login();
+    const second = await login();
+
+    await expect(launchWith(claimsFor(first.nonce), second))
+      .rejects.toMatchObject({ statusCode: 401, message: 'id_token nonce does not match the login request' });
+  });
+
+  test('a launch from another browser is rejected', async () => {
+    const session = await login();
+    const other = await login();
+
+    await expect(launchWith(claimsFor(session.nonce), { state: session.state, browserBinding: other.browserBinding }))
+      .rejects.toMatchObject({ statusCode: 401, message: 'Login state was not started in this browser' });
+  });
+
+  test('a launch without the state cookie is rejected', async () => {
+    const session = await login();
+
+    await expect(launchWith(claimsFor(session.nonce), { state: session.state, browserBinding: null }))
+      .rejects.toThrow('Login state was not started in this browser');
+  });
+});
+
+describe('issuer and audience', () => {
+  test('rejects another issuer', async () => {
+    const session = await login();
+
+    await expect(launchWith(claimsFor(session.nonce, { iss: 'https://other-lms.test' }), session))
+      .rejects.toMatchObject({ statusCode: 401, message: 'id_token issuer does not match the login request' });
+  });
+
+  test('rejects another audience', async () => {
+    const session = await login();
+
+    await expect(launchWith(claimsFor(session.nonce, { aud: 'another-tool' }), session))
+      .rejects.toMatchObject({ statusCode: 401, message: 'id_token audience does not match the client ID' });
+  });
+
+  test('requires azp when there are several audiences', async () => {
+    const session = await login();
+    const aud = ['another-tool', PLATFORM.clientId];
+
+    await expect(launchWith(claimsFor(session.nonce, { aud }), session))
+      .rejects.toThrow('id_token audience does not match the client ID');
+
+    const retry = await login();
+    await expect(launchWith(claimsFor(retry.nonce, { aud, azp: PLATFORM.clientId }), retry))
+      .resolves.toMatchObject({ tutorialId: '42' });
+  });
+
+  test('rejects an unregistered deployment', async () => {
+    const session = await login();
+
+    await expect(launchWith(claimsFor(session.nonce, { [`${LTI_CLAIM}/deployment_id`]: '2' }), session))
+      .rejects.toMatchObject({ statusCode: 403 });
+  });
+});
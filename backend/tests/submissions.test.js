@@ -0,0 +1,121 @@
+jest.mock('../src/services/cache', () => ({ isAvailable: () => false }));
+jest.mock('../src/services/logger', () => ({ info: jest.fn(), warn: jest.fn(), error: jest.fn() }));
+
+const express = require('express');
+const request = require('supertest');
+const quizSessionService = require('../src/services/quizSessionService');
+const historyService = require('../src/services/historyService');
+const submissionRoutes = require('../src/routes/submissions');
+
+const USER = 'siti';
+const TUTORIAL = '42';
+
+// Launch token verification is covered by launchTokenService.test.js
+const app = express();
+app.use(express.json());
+app.use((req, res, next) => {
+  req.launch = { userId: USER, tutorialId: TUTORIAL };
+  next();
+});
+app.use('/api/submissions', submissionRoutes);
+
+const question = {
+  id: 1,
+  type: 'multiple-choice',
+  question: 'Apa itu JSX?',
+  options: ['A', 'B', 'C', 'D'].map(id => ({ id, text: `Opsi ${id}` })),
+  correctAnswer: 'B',
+  explanation: 'B'
+};
+
+const createSession = async (id, overrides = {}) => {
+  const session = {
+    id,
+    userId: USER,
+    tutorialId: TUTORIAL,
+    difficulty: 'medium',
+    attemptNumber: 1,
+    questions: [question],
+    passingScore: 70,
+    scoringMode: 'all-or-nothing',
+    maxAttempts: 1,
+    deadline: null,
+    submission: null,
+    ...overrides
+  };
+  await quizSessionService.saveSession(session);
+  return session;
+};
+
+const submit = (sessionId) =>
+  request(app).post('/api/submissions').send({ sessionId, answers: { 0: 'B' } });
+
+afterEach(() => {
+  quizSessionService.memoryStore.clear();
+  historyService.memoryStore.clear();
+});
+
+test('a graded submission gets a random ID', async () => {
+  await createSession('session-1', { maxAttempts: 0 });
+  await createSession('session-2', { maxAttempts: 0 });
+
+  const [first, second] = [(await submit('session-1')).body.data, (await submit('session-2')).body.data];
+
+  expect(first.id).toMatch(/^[0-9a-f-]{36}$/);
+  expect(first.id).not.toBe(second.id);
+});
+
+test('a resubmit returns the original grading', async () => {
+  await createSession('session-1');
+
+  const first = await submit('session-1');
+  const again = await submit('session-1');
+
+  expect(first.status).toBe(201);
+  expect(again.status).toBe(200);
+  expect(again.body.data.id).toBe(first.body.data.id);
+});
+
+describe('parallel submits', () => {
+  // Hold each limit check until both requests reach it (or 200 ms pass), so without
+  // the submission lock both would check before either records its attempt
+  beforeEach(() => {
+    const hasReachedAttemptLimit = historyService.hasReachedAttemptLimit.bind(historyService);
+    const waiting = [];
+    jest.spyOn(historyService, 'hasReachedAttemptLimit').mockImplementation(async (...args) => {
+      await new Promise(resolve => {
+        waiting.push(resolve);
+        if (waiting.length === 2) {
+          waiting.forEach(release => release());
+        }
+        setTimeout(resolve, 200);
+      });
+      return hasReachedAttemptLimit(...args);
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('of one session are graded once', async () => {
+    await createSession('session-1', { maxAttempts: 0 });
+
+    const responses = await Promise.all([submit('session-1'), submit('session-1')]);
+
+    expect(responses.filter(response => response.status === 201)).toHaveLength(1);
+    expect(await historyService.getAttempts(USER, TUTORIAL)).toHaveLength(1);
+  });
+
+  test('of two sessions cannot both pass the attempt limit', async () => {
+    await createSession('session-1');
+    await createSession('session-2');
+
+    const responses = await Promise.all([submit('session-1'), submit('session-2')]);
+    const retried = await Promise.all([submit('session-1'), submit('session-2')]);
+
+    expect(responses.filter(response => response.status === 201)).toHaveLength(1);
+    expect(retried.map(response => response.status).sort()).toEqual([200, 403]);
+    expect(await historyService.getAttempts(USER, TUTORIAL)).toHaveLength(1);
+  });
+});
@@ -0,0 +1,117 @@
+// ============================================================================
+// LearnCheck Service Worker - Offline app shell & API cache
+// ============================================================================
+// - App shell (index.html + hashed build assets) is served cache-first so the
+//   quiz opens without network once it has been loaded
+// - GET API responses (tutorial, quiz config, preferences) are network-first
+//   with the last response as offline fallback
+// - The generated question set itself lives in the saved quiz session
+//   (IndexedDB, see src/lib/storage); submissions made offline go through the
+//   outbox in src/lib/outbox.ts. Non-GET requests are never cached here.
+// ============================================================================
+
+// v2: navigations are no longer cached per URL (launch URLs carry ?token=) - activate drops the old entries
+const CACHE_VERSION = 'v2';
+const SHELL_CACHE = `learncheck-shell-${CACHE_VERSION}`;
+const API_CACHE = `learncheck-api-${CACHE_VERSION}`;
+const SHELL_URLS = ['/', '/index.html', '/favicon.ico'];
+
+// Backend GET endpoints worth replaying offline
+const CACHEABLE_API_PATHS = [/\/api\/tutorials\//, /\/api\/users\/[^/]+\/preferences$/];
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches.open(SHELL_CACHE)
+      .then((cache) => cache.addAll(SHELL_URLS))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  // Drop caches from previous versions
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(
+        keys
+          .filter((key) => key.startsWith('learncheck-') && key !== SHELL_CACHE && key !== API_CACHE)
+          .map((key) => caches.delete(key))
+      ))
+      .then(() => self.clients.claim())
+  );
+});
+
+const networkFirst = async (request, cacheName) => {
+  const cache = await caches.open(cacheName);
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      cache.put(request, response.clone());
+    }
+    return response;
+  } catch (error) {
+    const cached = await cache.match(request);
+    if (cached) {
+      return cached;
+    }
+    throw error;
+  }
+};
+
+// Every page load is the same SPA shell, so only /index.html is stored - never the
+// navigated URL itself, whose query string carries the launch token
+const networkFirstShell = async (request) => {
+  const cache = await caches.open(SHELL_CACHE);
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      cache.put('/index.html', response.clone());
+    }
+    return response;
+  } catch (error) {
+    const cached = await cache.match('/index.html');
+    if (cached) {
+      return cached;
+    }
+    throw error;
+  }
+};
+
+const cacheFirst = async (request, cacheName) => {
+  const cache = await caches.open(cacheName);
+  const cached = await cache.match(request);
+  if (cached) {
+    return cached;
+  }
+
+  const response = await fetch(request);
+  if (response.ok) {
+    cache.put(request, response.clone());
+  }
+  return response;
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') {
+    return;
+  }
+
+  const url = new URL(request.url);
+
+  // Page loads (any query string, e.g. ?token=) fall back to the cached shell
+  if (request.mode === 'navigate') {
+    event.respondWith(networkFirstShell(request));
+    return;
+  }
+
+  // Backend may be same-origin (reverse proxy) or a separate host (VITE_API_URL)
+  if (CACHEABLE_API_PATHS.some((pattern) => pattern.test(url.pathname))) {
+    event.respondWith(networkFirst(request, API_CACHE));
+    return;
+  }
+
+  // Vite build output is content-hashed, so a cached copy never goes stale
+  if (url.origin === self.location.origin && url.pathname.startsWith('/assets/')) {
+    event.respondWith(cacheFirst(request, SHELL_CACHE));
+  }
+});
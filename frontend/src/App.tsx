@@ -5,22 +5,32 @@ import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import Index from "./pages/Index";
 import NotFound from "./pages/NotFound";
+import LaunchError from "./pages/LaunchError";
+import ConnectionStatus from "./components/ConnectionStatus";
+import I18nProvider from "./components/I18nProvider";
+import { getLaunchProblem } from "./lib/launch";
 
 const queryClient = new QueryClient();
 
+// The quiz needs a valid launch token (learner + tutorial) - checked once per page load
+const launchProblem = getLaunchProblem();
+
 const App = () => (
   <QueryClientProvider client={queryClient}>
-    <TooltipProvider>
-      <Toaster />
-      <Sonner />
-      <BrowserRouter>
-        <Routes>
-          <Route path="/" element={<Index />} />
-          {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
-          <Route path="*" element={<NotFound />} />
-        </Routes>
-      </BrowserRouter>
-    </TooltipProvider>
+    <I18nProvider>
+      <TooltipProvider>
+        <Toaster />
+        <Sonner />
+        <ConnectionStatus />
+        <BrowserRouter>
+          <Routes>
+            <Route path="/" element={launchProblem ? <LaunchError problem={launchProblem} /> : <Index />} />
+            {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
+            <Route path="*" element={<NotFound />} />
+          </Routes>
+        </BrowserRouter>
+      </TooltipProvider>
+    </I18nProvider>
   </QueryClientProvider>
 );
 
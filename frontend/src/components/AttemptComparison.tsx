@@ -0,0 +1,158 @@
+// ============================================================================
+// AttemptComparison Component
+// ============================================================================
+// Two past attempts side by side: score, difficulty and time spent, plus the
+// topics that improved or regressed. Questions differ per attempt, so topics
+// are matched by name (see lib/attemptComparison).
+// ============================================================================
+
+import { ArrowRight, Minus, TrendingDown, TrendingUp } from "lucide-react";
+import { compareAttempts, getAttemptPercentage, type TopicTrend } from "@/lib/attemptComparison";
+import { useI18n } from "@/hooks/useI18n";
+import type { AttemptHistoryEntry } from "@/lib/storage";
+
+interface AttemptComparisonProps {
+  base: AttemptHistoryEntry; // Older attempt
+  target: AttemptHistoryEntry; // Newer attempt
+}
+
+// Labels are the `compare.trend.<trend>` messages
+const TREND_STYLES: Record<TopicTrend, { className: string; Icon: typeof TrendingUp }> = {
+  improved: { className: "text-success bg-success/10 border-success/20", Icon: TrendingUp },
+  regressed: { className: "text-error bg-error/10 border-error/20", Icon: TrendingDown },
+  unchanged: { className: "text-muted-foreground bg-muted border-border", Icon: Minus },
+};
+
+const formatSigned = (value: number) => `${value > 0 ? "+" : ""}${value}`;
+
+const AttemptComparison = ({ base, target }: AttemptComparisonProps) => {
+  const { t, formatDate, formatDuration } = useI18n();
+  const comparison = compareAttempts(base, target);
+  const hasDetail = Boolean(base.results && target.results);
+  const { timeSpentMs } = comparison;
+  const timeDelta = timeSpentMs.base !== null && timeSpentMs.target !== null
+    ? timeSpentMs.target - timeSpentMs.base
+    : null;
+
+  const difficultyText = comparison.difficulty.change > 0
+    ? t("compare.difficultyUp")
+    : comparison.difficulty.change < 0
+    ? t("compare.difficultyDown")
+    : t("compare.difficultySame");
+
+  return (
+    <div className="space-y-6">
+      {/* Side-by-side summary */}
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        {[
+          { attempt: base, timeSpent: timeSpentMs.base },
+          { attempt: target, timeSpent: timeSpentMs.target },
+        ].map(({ attempt, timeSpent }) => (
+          <div key={attempt.timestamp} className="bg-card rounded-lg border border-border p-6 shadow-sm">
+            <p className="text-sm text-muted-foreground">{formatDate(attempt.timestamp)}</p>
+            <h2 className="text-lg font-semibold text-foreground mb-3">{t("common.attempt", { number: attempt.attemptNumber })}</h2>
+            <div className="text-4xl font-bold text-primary mb-3">{getAttemptPercentage(attempt)}%</div>
+            <dl className="space-y-1 text-sm">
+              <div className="flex justify-between">
+                <dt className="text-muted-foreground">{t("compare.difficulty")}</dt>
+                <dd className="font-medium text-foreground">{t(`difficulty.${attempt.difficulty}`)}</dd>
+              </div>
+              <div className="flex justify-between">
+                <dt className="text-muted-foreground">{t("compare.correctAnswers")}</dt>
+                <dd className="font-medium text-foreground">{attempt.score} / {attempt.totalQuestions}</dd>
+              </div>
+              <div className="flex justify-between">
+                <dt className="text-muted-foreground">{t("compare.timeSpent")}</dt>
+                <dd className="font-medium text-foreground">
+                  {timeSpent !== null ? formatDuration(timeSpent) : t("compare.notRecorded")}
+                </dd>
+              </div>
+            </dl>
+          </div>
+        ))}
+      </div>
+
+      {/* Changes between the two attempts */}
+      <div className="bg-card rounded-lg border border-border p-6 shadow-sm">
+        <h2 className="text-lg font-semibold text-foreground mb-4">{t("compare.changes")}</h2>
+        <ul className="space-y-2 text-sm text-foreground">
+          <li className="flex items-center justify-between">
+            <span>{t("compare.score")}</span>
+            <span className={`font-semibold ${comparison.percentageDelta > 0 ? "text-success" : comparison.percentageDelta < 0 ? "text-error" : "text-muted-foreground"}`}>
+              {t("compare.points", { value: formatSigned(comparison.percentageDelta) })}
+            </span>
+          </li>
+          <li className="flex items-center justify-between">
+            <span>{difficultyText}</span>
+            <span className="flex items-center gap-1 font-medium">
+              {t(`difficulty.${comparison.difficulty.from}`)}
+              <ArrowRight className="w-3.5 h-3.5" />
+              {t(`difficulty.${comparison.difficulty.to}`)}
+            </span>
+          </li>
+          {timeDelta !== null && (
+            <li className="flex items-center justify-between">
+              <span>{t("compare.timeSpent")}</span>
+              <span className="font-medium">
+                {timeDelta === 0 ? t("compare.same") : `${timeDelta > 0 ? "+" : "-"}${formatDuration(Math.abs(timeDelta))}`}
+              </span>
+            </li>
+          )}
+        </ul>
+      </div>
+
+      {/* Topic breakdown */}
+      <div className="bg-card rounded-lg border border-border p-6 shadow-sm">
+        <h2 className="text-lg font-semibold text-foreground mb-1">{t("compare.topicsTitle")}</h2>
+        <p className="text-sm text-muted-foreground mb-4">
+          {t("compare.topicsHint")}
+        </p>
+
+        {!hasDetail ? (
+          <p className="text-sm text-muted-foreground">
+            {t("compare.noDetail")}
+          </p>
+        ) : comparison.matched.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            {t("compare.noSharedTopics")}
+          </p>
+        ) : (
+          <ul className="divide-y divide-border">
+            {comparison.matched.map((topic) => {
+              const { className, Icon } = TREND_STYLES[topic.trend];
+              return (
+                <li key={topic.key} className="flex items-center justify-between gap-4 py-3">
+                  <span className="text-sm text-foreground">{topic.label}</span>
+                  <span className="flex items-center gap-3 flex-shrink-0">
+                    <span className="text-sm text-muted-foreground">
+                      {Math.round(topic.base * 100)}% → {Math.round(topic.target * 100)}%
+                    </span>
+                    <span className={`inline-flex items-center gap-1 px-2 py-0.5 text-xs font-medium rounded-full border ${className}`}>
+                      <Icon className="w-3 h-3" />
+                      {t(`compare.trend.${topic.trend}`)}
+                    </span>
+                  </span>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+
+        {hasDetail && (comparison.onlyInBase.length > 0 || comparison.onlyInTarget.length > 0) && (
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 mt-4 pt-4 border-t border-border text-sm">
+            <div>
+              <h3 className="font-semibold text-foreground mb-1">{t("compare.onlyIn", { number: base.attemptNumber })}</h3>
+              <p className="text-muted-foreground">{comparison.onlyInBase.join(", ") || "-"}</p>
+            </div>
+            <div>
+              <h3 className="font-semibold text-foreground mb-1">{t("compare.onlyIn", { number: target.attemptNumber })}</h3>
+              <p className="text-muted-foreground">{comparison.onlyInTarget.join(", ") || "-"}</p>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AttemptComparison;
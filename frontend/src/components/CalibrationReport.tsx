@@ -0,0 +1,75 @@
+// ============================================================================
+// CalibrationReport Component
+// ============================================================================
+// Confidence vs. correctness breakdown shown with the results. Confident but
+// wrong answers are listed first: they point at misconceptions, which a
+// score alone does not reveal.
+// ============================================================================
+
+import { AlertTriangle } from "lucide-react";
+import { CALIBRATION_CATEGORIES, groupByCalibration } from "@/lib/calibration";
+import type { QuestionResult } from "@/lib/api";
+import { useI18n } from "@/hooks/useI18n";
+
+interface CalibrationReportProps {
+  results: QuestionResult[];
+}
+
+const CATEGORY_STYLES: Record<string, string> = {
+  misconceptions: "border-error/30 bg-error/5 text-error",
+  luckyGuesses: "border-warning/30 bg-warning/5 text-warning",
+  gaps: "border-border bg-muted/40 text-muted-foreground",
+  mastered: "border-success/30 bg-success/5 text-success",
+};
+
+const CalibrationReport = ({ results }: CalibrationReportProps) => {
+  const { t } = useI18n();
+  const groups = groupByCalibration(results);
+  const ratedCount = results.filter((result) => result.confidence).length;
+
+  // Nothing to calibrate when the learner skipped every confidence rating
+  if (ratedCount === 0) {
+    return null;
+  }
+
+  return (
+    <div className="bg-card rounded-lg border border-border p-6 shadow-sm mb-6">
+      <h2 className="text-lg font-semibold text-foreground mb-1">{t("calibration.title")}</h2>
+      <p className="text-sm text-muted-foreground mb-4">
+        {t("calibration.summary", { rated: ratedCount, total: results.length })}
+      </p>
+
+      {groups.misconceptions.length > 0 && (
+        <div className="flex items-start gap-2 p-3 mb-4 rounded-lg border border-error/30 bg-error/5 text-sm text-error">
+          <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+          <span>
+            {t("calibration.misconceptionWarning", {
+              questions: groups.misconceptions.join(", "),
+              count: groups.misconceptions.length,
+            })}
+          </span>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        {CALIBRATION_CATEGORIES.map((category) => {
+          const questionNumbers = groups[category];
+          return (
+            <div key={category} className={`rounded-lg border p-4 ${CATEGORY_STYLES[category]}`}>
+              <div className="flex items-baseline justify-between">
+                <span className="font-semibold text-sm">{t(`calibration.${category}.label`)}</span>
+                <span className="text-2xl font-bold">{questionNumbers.length}</span>
+              </div>
+              <p className="text-xs text-muted-foreground mt-1">{t(`calibration.${category}.description`)}</p>
+              {questionNumbers.length > 0 && (
+                <p className="text-xs mt-2 text-foreground">{t("calibration.questions", { questions: questionNumbers.join(", ") })}</p>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default CalibrationReport;
@@ -0,0 +1,75 @@
+import { useMemo, useState } from "react";
+import hljs from "highlight.js/lib/common";
+import { Check, Copy } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { useI18n } from "@/hooks/useI18n";
+import type { CodeSnippet } from "@/lib/api";
+
+interface CodeBlockProps {
+  code: CodeSnippet;
+}
+
+/**
+ * Syntax-highlighted snippet for code comprehension questions.
+ * Line numbers live in a separate non-selectable gutter so copying (or the copy
+ * button) yields the exact snippet without numbers or highlight markup.
+ */
+const CodeBlock = ({ code }: CodeBlockProps) => {
+  const { toast } = useToast();
+  const { t } = useI18n();
+  const [copied, setCopied] = useState(false);
+
+  const highlighted = useMemo(() => {
+    // highlight.js escapes the source, so the returned HTML only contains its own <span> tokens
+    const language = hljs.getLanguage(code.language) ? code.language : "plaintext";
+    return hljs.highlight(code.snippet, { language, ignoreIllegals: true }).value;
+  }, [code.language, code.snippet]);
+
+  const lineCount = code.snippet.split("\n").length;
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(code.snippet);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch {
+      toast({
+        title: t("code.copyFailedTitle"),
+        description: t("code.copyFailedDescription"),
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="relative rounded-lg border border-border bg-code text-code-foreground overflow-hidden">
+      <div className="flex items-center justify-between px-4 py-1.5 border-b border-border text-xs text-muted-foreground">
+        <span className="font-mono">{code.language}</span>
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          onClick={handleCopy}
+          className="h-7 px-2 text-xs"
+          aria-label={t("code.copyLabel")}
+        >
+          {copied ? <Check className="w-3.5 h-3.5 mr-1" /> : <Copy className="w-3.5 h-3.5 mr-1" />}
+          {copied ? t("code.copied") : t("code.copy")}
+        </Button>
+      </div>
+      <div className="flex overflow-x-auto text-sm leading-relaxed font-mono">
+        <div aria-hidden="true" className="select-none py-3 pl-4 pr-3 text-right text-muted-foreground/70">
+          {Array.from({ length: lineCount }, (_, index) => (
+            <div key={index}>{index + 1}</div>
+          ))}
+        </div>
+        <pre className="flex-1 py-3 pr-4">
+          <code dangerouslySetInnerHTML={{ __html: highlighted }} />
+        </pre>
+      </div>
+    </div>
+  );
+};
+
+export default CodeBlock;
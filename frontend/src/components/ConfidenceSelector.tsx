@@ -0,0 +1,41 @@
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { CONFIDENCE_LEVELS } from "@/lib/calibration";
+import { useI18n } from "@/hooks/useI18n";
+import type { ConfidenceLevel } from "@/lib/api";
+
+interface ConfidenceSelectorProps {
+  value?: ConfidenceLevel;
+  onChange: (confidence: ConfidenceLevel | undefined) => void;
+  disabled?: boolean;
+}
+
+const ConfidenceSelector = ({ value, onChange, disabled = false }: ConfidenceSelectorProps) => {
+  const { t } = useI18n();
+
+  return (
+    <div className="flex flex-col sm:flex-row sm:items-center gap-2 pt-4 mt-6 border-t border-border">
+      <span className="text-sm text-muted-foreground">{t("confidence.prompt")}</span>
+      <ToggleGroup
+        type="single"
+        variant="outline"
+        size="sm"
+        value={value ?? ""}
+        onValueChange={(next) => onChange(next ? (next as ConfidenceLevel) : undefined)}
+        disabled={disabled}
+        className="justify-start"
+      >
+        {CONFIDENCE_LEVELS.map((level) => (
+          <ToggleGroupItem
+            key={level}
+            value={level}
+            className="px-3 data-[state=on]:border-primary data-[state=on]:bg-primary/10 data-[state=on]:text-primary"
+          >
+            {t(`confidence.${level}`)}
+          </ToggleGroupItem>
+        ))}
+      </ToggleGroup>
+    </div>
+  );
+};
+
+export default ConfidenceSelector;
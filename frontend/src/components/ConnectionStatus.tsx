@@ -0,0 +1,58 @@
+// ============================================================================
+// ConnectionStatus Component - Online/Offline Indicator
+// ============================================================================
+// Small status pill pinned to the bottom corner on every screen. Offline,
+// answers keep being saved on the device and submissions wait in the outbox.
+// ============================================================================
+
+import { CloudOff, RefreshCw, Wifi } from "lucide-react";
+import { useOnlineStatus } from "@/hooks/useOnlineStatus";
+import { useI18n } from "@/hooks/useI18n";
+import { cn } from "@/lib/utils";
+
+const ConnectionStatus = () => {
+  const { isOnline, pendingCount } = useOnlineStatus();
+  const { t } = useI18n();
+
+  const status = !isOnline
+    ? {
+        icon: CloudOff,
+        label: t("connection.offline"),
+        detail: pendingCount > 0
+          ? t("connection.pendingOffline", { count: pendingCount })
+          : t("connection.savedOnDevice"),
+        className: "border-warning/40 bg-warning/10 text-warning",
+      }
+    : pendingCount > 0
+    ? {
+        icon: RefreshCw,
+        label: t("connection.syncing"),
+        detail: t("connection.pending", { count: pendingCount }),
+        className: "border-primary/40 bg-primary/10 text-primary",
+      }
+    : {
+        icon: Wifi,
+        label: t("connection.online"),
+        detail: null,
+        className: "border-border bg-background/80 text-muted-foreground",
+      };
+
+  const Icon = status.icon;
+
+  return (
+    <div
+      role="status"
+      aria-live="polite"
+      className={cn(
+        "fixed bottom-3 left-3 z-50 flex items-center gap-2 rounded-full border px-3 py-1 text-xs font-medium shadow-sm backdrop-blur",
+        status.className
+      )}
+    >
+      <Icon className={cn("w-3.5 h-3.5", isOnline && pendingCount > 0 && "animate-spin")} aria-hidden="true" />
+      <span>{status.label}</span>
+      {status.detail && <span className="font-normal opacity-80">· {status.detail}</span>}
+    </div>
+  );
+};
+
+export default ConnectionStatus;
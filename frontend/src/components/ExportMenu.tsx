@@ -0,0 +1,54 @@
+// ============================================================================
+// ExportMenu Component
+// ============================================================================
+// Dropdown for downloading attempt results as CSV, JSON or a printable
+// review sheet (PDF via the browser print dialog)
+// ============================================================================
+
+import { Download, FileJson, FileSpreadsheet, Printer } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import type { ExportFormat } from "@/lib/exportAttempts";
+import { useI18n } from "@/hooks/useI18n";
+
+interface ExportMenuProps {
+  onExport: (format: ExportFormat) => void;
+  label?: string;
+  disabled?: boolean;
+}
+
+const ExportMenu = ({ onExport, label, disabled = false }: ExportMenuProps) => {
+  const { t } = useI18n();
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm" className="text-xs" disabled={disabled}>
+          <Download className="w-3.5 h-3.5 mr-1" />
+          {label ?? t("export.label")}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuItem onSelect={() => onExport("csv")}>
+          <FileSpreadsheet className="w-4 h-4 mr-2" />
+          {t("export.csv")}
+        </DropdownMenuItem>
+        <DropdownMenuItem onSelect={() => onExport("json")}>
+          <FileJson className="w-4 h-4 mr-2" />
+          {t("export.json")}
+        </DropdownMenuItem>
+        <DropdownMenuItem onSelect={() => onExport("pdf")}>
+          <Printer className="w-4 h-4 mr-2" />
+          {t("export.pdf")}
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
+
+export default ExportMenu;
@@ -0,0 +1,40 @@
+// ============================================================================
+// I18nProvider Component - UI Language
+// ============================================================================
+// Holds the active locale for the whole app. Follows the learner's language
+// preference (lib/preferences) as soon as it is loaded or changed.
+// ============================================================================
+
+import { useEffect, useMemo, useState, type ReactNode } from "react";
+import { createFormatters, resolveLocale, type Locale } from "@/lib/i18n";
+import { I18nContext } from "@/lib/i18n/context";
+import { getActivePreferences, subscribePreferences } from "@/lib/preferences";
+
+interface I18nProviderProps {
+  children: ReactNode;
+}
+
+const getPreferredLocale = () => resolveLocale(getActivePreferences().language);
+
+const I18nProvider = ({ children }: I18nProviderProps) => {
+  const [locale, setLocale] = useState<Locale>(getPreferredLocale);
+
+  // Preferences may already be loaded by the time this effect runs (child effects run first)
+  useEffect(() => {
+    const followPreference = () => setLocale(getPreferredLocale());
+
+    followPreference();
+    return subscribePreferences(followPreference);
+  }, []);
+
+  // Screen readers and the browser (hyphenation, spellcheck) follow <html lang>
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  const value = useMemo(() => ({ locale, setLocale, ...createFormatters(locale) }), [locale]);
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+};
+
+export default I18nProvider;
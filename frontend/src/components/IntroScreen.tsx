@@ -2,71 +2,109 @@
 // IntroScreen Component - Quiz Introduction with Generation Status
 // ============================================================================
 // Shows quiz rules and start button, with AI generation progress indicator
-// Includes attempt history similar to Dicoding's layout
+// Includes attempt history similar to Dicoding's layout; two attempts can be
+// picked from the history for a side-by-side comparison
 // ============================================================================
 
+import { useState } from "react";
+import { Flag, GitCompare } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
 import LoadingSpinner from "./LoadingSpinner";
+import ExportMenu from "./ExportMenu";
+import SettingsSheet from "./SettingsSheet";
+import type { ExportFormat } from "@/lib/exportAttempts";
+import { useI18n } from "@/hooks/useI18n";
 
 interface AttemptHistory {
   attemptNumber: number;
   score: number;
   totalQuestions: number;
+  percentage?: number;
+  passed?: boolean;
   difficulty: string;
   timestamp: string;
+  flaggedQuestions?: number[];
 }
 
 interface IntroScreenProps {
   onStart: () => void;
   totalQuestions: number;
   duration: number;
+  passingScore: number; // percentage
+  maxAttempts?: number; // 0 = unlimited
+  canStart?: boolean; // false when max attempts reached
   courseName: string;
   isGenerating?: boolean;
   estimatedGenerationTime?: number;
   attemptHistory?: AttemptHistory[];
   onViewDetail?: (index: number) => void; // Callback to view history detail
+  onCompare?: (first: number, second: number) => void; // Indexes in chronological order
+  onExport?: (format: ExportFormat) => void; // Export the whole history
+  userId?: string; // Shows the settings button when set
 }
 
+// Rule messages mark the important part as *text* (see lib/i18n/messages)
+const renderEmphasis = (message: string) =>
+  message.split(/\*([^*]+)\*/).map((part, index) =>
+    index % 2 === 1 ? <strong key={index}>{part}</strong> : part
+  );
+
 const IntroScreen = ({ 
   onStart, 
   totalQuestions, 
   duration, 
+  passingScore,
+  maxAttempts = 0,
+  canStart = true,
   courseName,
   isGenerating = false,
   estimatedGenerationTime = 15,
   attemptHistory = [],
-  onViewDetail
+  onViewDetail,
+  onCompare,
+  onExport,
+  userId
 }: IntroScreenProps) => {
-  
-  const formatDate = (timestamp: string) => {
-    const date = new Date(timestamp);
-    return date.toLocaleDateString('id-ID', { 
-      day: 'numeric', 
-      month: 'short', 
-      year: 'numeric',
-      hour: '2-digit', 
-      minute: '2-digit' 
-    });
+  const { t, formatDate } = useI18n();
+  const [compareSelection, setCompareSelection] = useState<number[]>([]);
+  const canCompare = Boolean(onCompare) && attemptHistory.length >= 2;
+
+  // Keep at most two attempts selected; picking a third drops the earliest pick
+  const toggleCompareSelection = (index: number) => {
+    setCompareSelection((prev) =>
+      prev.includes(index)
+        ? prev.filter((selected) => selected !== index)
+        : [...prev, index].slice(-2)
+    );
+  };
+
+  const handleCompare = () => {
+    const [first, second] = [...compareSelection].sort((a, b) => a - b);
+    onCompare?.(first, second);
   };
 
   return (
     <div className="min-h-screen bg-background p-4 py-8">
       <div className="max-w-3xl mx-auto">
         <div className="bg-card rounded-lg border border-border p-8 shadow-sm">
-          <h1 className="text-2xl font-bold text-foreground mb-6">
-            {isGenerating ? "Membuat Soal AI..." : "Aturan"}
-          </h1>
+          <div className="flex items-start justify-between gap-4 mb-6">
+            <h1 className="text-2xl font-bold text-foreground">
+              {isGenerating ? t("intro.generatingTitle") : t("intro.rulesTitle")}
+            </h1>
+            {userId && <SettingsSheet userId={userId} />}
+          </div>
           
           {isGenerating ? (
             <div className="py-4">
               <LoadingSpinner 
-                message="AI sedang menganalisis materi dan membuat soal berkualitas untuk Anda..."
+                message={t("intro.generatingMessage")}
                 showCountdown={true}
                 estimatedSeconds={estimatedGenerationTime}
               />
               <div className="mt-6 p-4 bg-accent/10 rounded-lg border border-accent/20">
                 <p className="text-sm text-center text-muted-foreground">
-                  Soal akan disesuaikan dengan tingkat kesulitan berdasarkan performa Anda sebelumnya
+                  {t("intro.generatingHint")}
                 </p>
               </div>
             </div>
@@ -74,25 +112,32 @@ const IntroScreen = ({
             <>
               <div className="space-y-5 mb-8">
                 <p className="text-foreground leading-relaxed">
-                  Kuis ini bertujuan untuk menguji pengetahuan Anda tentang materi <strong>{courseName}</strong>.
+                  {renderEmphasis(t("intro.purpose", { course: courseName }))}
                 </p>
 
                 <div>
                   <p className="text-foreground mb-4">
-                    Terdapat <strong>{totalQuestions} pertanyaan</strong> yang harus dikerjakan dalam kuis ini. 
-                    Beberapa ketentuannya sebagai berikut:
+                    {renderEmphasis(t("intro.questionCount", { count: totalQuestions }))}
                   </p>
 
                   <ul className="space-y-2 ml-6 list-disc text-foreground">
-                    <li>Durasi ujian: <strong>{duration} menit</strong></li>
-                    <li>Soal dibuat oleh <strong>AI</strong> berdasarkan materi pembelajaran</li>
-                    <li>Tingkat kesulitan <strong>adaptif</strong> sesuai kemampuan Anda</li>
-                    <li>Syarat kelulusan: <strong>80%</strong></li>
+                    <li>{renderEmphasis(t("intro.duration", { minutes: duration }))}</li>
+                    <li>{renderEmphasis(t("intro.aiGenerated"))}</li>
+                    <li>{renderEmphasis(t("intro.adaptive"))}</li>
+                    <li>{renderEmphasis(t("intro.passingScore", { score: passingScore }))}</li>
+                    {maxAttempts > 0 && (
+                      <li>
+                        {renderEmphasis(t("intro.maxAttempts", {
+                          count: maxAttempts,
+                          remaining: Math.max(0, maxAttempts - attemptHistory.length),
+                        }))}
+                      </li>
+                    )}
                   </ul>
                 </div>
 
                 <p className="text-lg font-semibold text-foreground">
-                  Selamat Mengerjakan!
+                  {t("intro.goodLuck")}
                 </p>
               </div>
 
@@ -101,9 +146,9 @@ const IntroScreen = ({
                   onClick={onStart} 
                   size="lg" 
                   className="bg-primary hover:bg-primary/90"
-                  disabled={totalQuestions === 0}
+                  disabled={totalQuestions === 0 || !canStart}
                 >
-                  {totalQuestions === 0 ? "Soal Belum Siap..." : "Mulai"}
+                  {!canStart ? t("intro.limitReached") : totalQuestions === 0 ? t("intro.notReady") : t("intro.start")}
                 </Button>
               </div>
             </>
@@ -113,32 +158,69 @@ const IntroScreen = ({
         {/* Riwayat Section - Dicoding Style */}
         {!isGenerating && (
           <div className="mt-6 bg-card rounded-lg border border-border p-6 shadow-sm">
-            <h2 className="text-lg font-bold text-foreground mb-4">Riwayat</h2>
+            <div className="flex items-center justify-between gap-4 mb-4">
+              <h2 className="text-lg font-bold text-foreground">{t("intro.historyTitle")}</h2>
+              <div className="flex items-center gap-2">
+                {canCompare && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="text-xs"
+                    onClick={handleCompare}
+                    disabled={compareSelection.length !== 2}
+                  >
+                    <GitCompare className="w-3.5 h-3.5 mr-1" />
+                    {t("intro.compare", { selected: compareSelection.length })}
+                  </Button>
+                )}
+                {onExport && attemptHistory.length > 0 && <ExportMenu onExport={onExport} />}
+              </div>
+            </div>
             
             {attemptHistory.length === 0 ? (
               <p className="text-sm text-muted-foreground py-4">
-                Belum ada riwayat pengerjaan untuk kuis ini.
+                {t("intro.noHistory")}
               </p>
             ) : (
               <div className="overflow-x-auto">
                 <table className="w-full">
                   <thead>
                     <tr className="border-b border-border">
-                      <th className="text-left py-3 px-4 font-semibold text-sm text-foreground">Tanggal</th>
-                      <th className="text-center py-3 px-4 font-semibold text-sm text-foreground">Persentase</th>
-                      <th className="text-center py-3 px-4 font-semibold text-sm text-foreground">Status</th>
-                      <th className="text-center py-3 px-4 font-semibold text-sm text-foreground">Action</th>
+                      {canCompare && (
+                        <th className="py-3 px-2 w-8">
+                          <span className="sr-only">{t("intro.selectToCompare")}</span>
+                        </th>
+                      )}
+                      <th className="text-left py-3 px-4 font-semibold text-sm text-foreground">{t("intro.date")}</th>
+                      <th className="text-center py-3 px-4 font-semibold text-sm text-foreground">{t("intro.percentage")}</th>
+                      <th className="text-center py-3 px-4 font-semibold text-sm text-foreground">{t("intro.status")}</th>
+                      <th className="text-center py-3 px-4 font-semibold text-sm text-foreground">{t("intro.action")}</th>
                     </tr>
                   </thead>
                   <tbody>
                     {attemptHistory.map((attempt, index) => {
-                      const percentage = Math.round((attempt.score / attempt.totalQuestions) * 100);
-                      const isPassed = percentage >= 80;
+                      const percentage = attempt.percentage ?? Math.round((attempt.score / attempt.totalQuestions) * 100);
+                      const isPassed = attempt.passed ?? percentage >= passingScore;
                       
                       return (
                         <tr key={index} className="border-b border-border last:border-b-0 hover:bg-muted/50">
+                          {canCompare && (
+                            <td className="py-3 px-2">
+                              <Checkbox
+                                checked={compareSelection.includes(index)}
+                                onCheckedChange={() => toggleCompareSelection(index)}
+                                aria-label={t("intro.selectAttempt", { number: attempt.attemptNumber })}
+                              />
+                            </td>
+                          )}
                           <td className="py-3 px-4 text-sm text-foreground">
                             {formatDate(attempt.timestamp)}
+                            {attempt.flaggedQuestions && attempt.flaggedQuestions.length > 0 && (
+                              <span className="mt-1 flex items-center gap-1 text-xs text-warning">
+                                <Flag className="w-3 h-3 fill-warning" />
+                                {t("intro.flaggedCount", { count: attempt.flaggedQuestions.length })}
+                              </span>
+                            )}
                           </td>
                           <td className="py-3 px-4 text-center text-sm font-semibold text-foreground">
                             {percentage}%
@@ -146,11 +228,11 @@ const IntroScreen = ({
                           <td className="py-3 px-4 text-center">
                             {isPassed ? (
                               <span className="inline-block px-3 py-1 bg-success/10 text-success text-xs font-medium rounded-full border border-success/20">
-                                Lulus
+                                {t("common.passed")}
                               </span>
                             ) : (
                               <span className="inline-block px-3 py-1 bg-error/10 text-error text-xs font-medium rounded-full border border-error/20">
-                                Belum Lulus
+                                {t("common.notPassed")}
                               </span>
                             )}
                           </td>
@@ -161,7 +243,7 @@ const IntroScreen = ({
                               className="text-xs"
                               onClick={() => onViewDetail?.(index)}
                             >
-                              Lihat Detail
+                              {t("intro.viewDetail")}
                             </Button>
                           </td>
                         </tr>
@@ -6,6 +6,7 @@
 
 import { Loader2, Clock } from "lucide-react";
 import { useState, useEffect } from "react";
+import { useI18n } from "@/hooks/useI18n";
 
 interface LoadingSpinnerProps {
   message?: string;
@@ -15,11 +16,12 @@ interface LoadingSpinnerProps {
 }
 
 const LoadingSpinner = ({ 
-  message = "Memuat...", 
+  message, 
   showCountdown = false,
   estimatedSeconds = 15,
   onCountdownComplete
 }: LoadingSpinnerProps) => {
+  const { t } = useI18n();
   const [countdown, setCountdown] = useState(estimatedSeconds);
   const [progress, setProgress] = useState(0);
 
@@ -57,7 +59,7 @@ const LoadingSpinner = ({
       </div>
       
       <p className="mt-4 text-base font-medium text-muted-foreground animate-pulse">
-        {message}
+        {message ?? t("common.loading")}
       </p>
 
       {showCountdown && countdown > 0 && (
@@ -78,7 +80,7 @@ const LoadingSpinner = ({
           </div>
           
           <p className="text-xs text-muted-foreground">
-            🤖 AI sedang membuat soal berkualitas...
+            {t("loading.generating")}
           </p>
         </div>
       )}
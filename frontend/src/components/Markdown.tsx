@@ -0,0 +1,79 @@
+import { Fragment } from "react";
+import ReactMarkdown, { type Components } from "react-markdown";
+import remarkGfm from "remark-gfm";
+import remarkMath from "remark-math";
+import rehypeKatex from "rehype-katex";
+import rehypeSanitize, { defaultSchema } from "rehype-sanitize";
+import "katex/dist/katex.min.css";
+import CodeBlock from "./CodeBlock";
+import { cn } from "@/lib/utils";
+
+interface MarkdownProps {
+  children: string;
+  inline?: boolean; // Option text inside labels: no block wrappers
+  math?: boolean; // Render $...$ / $$...$$ with KaTeX - only for questions flagged as math, so prices like $5 stay text
+  className?: string;
+}
+
+// Raw HTML from the model is never rendered (react-markdown escapes it); the
+// sanitizer additionally strips unsafe attributes/URLs from the generated tree.
+// Math classes are allowed so KaTeX (which runs after sanitizing) can find formulas.
+const sanitizeSchema = {
+  ...defaultSchema,
+  attributes: {
+    ...defaultSchema.attributes,
+    code: [["className", /^language-./, "math-inline", "math-display"]],
+  },
+};
+
+const blockComponents: Components = {
+  pre: ({ children }) => <>{children}</>,
+  code: ({ className, children }) => {
+    const language = /language-([\w+#-]+)/.exec(className || "")?.[1];
+    const source = String(children);
+
+    // Fenced blocks (with language or multi-line) get the highlighted CodeBlock
+    if (language || source.includes("\n")) {
+      return <CodeBlock code={{ language: language || "plaintext", snippet: source.replace(/\n$/, "") }} />;
+    }
+
+    return <code className="rounded bg-muted px-1.5 py-0.5 font-mono text-[0.9em]">{children}</code>;
+  },
+  a: ({ href, children }) => (
+    <a href={href} target="_blank" rel="noopener noreferrer" className="text-primary underline underline-offset-2">
+      {children}
+    </a>
+  ),
+  ul: ({ children }) => <ul className="list-disc pl-6 space-y-1">{children}</ul>,
+  ol: ({ children }) => <ol className="list-decimal pl-6 space-y-1">{children}</ol>,
+};
+
+const inlineComponents: Components = {
+  ...blockComponents,
+  p: ({ children }) => <Fragment>{children}</Fragment>,
+};
+
+/**
+ * Sanitized Markdown for LLM generated text (question stems, options, explanations).
+ * Supports inline/fenced code, lists, GFM and KaTeX math when `math` is set.
+ */
+const Markdown = ({ children, inline = false, math = false, className }: MarkdownProps) => {
+  const content = (
+    <ReactMarkdown
+      remarkPlugins={math ? [remarkGfm, remarkMath] : [remarkGfm]}
+      rehypePlugins={math ? [[rehypeSanitize, sanitizeSchema], rehypeKatex] : [[rehypeSanitize, sanitizeSchema]]}
+      components={inline ? inlineComponents : blockComponents}
+      skipHtml
+    >
+      {children}
+    </ReactMarkdown>
+  );
+
+  if (inline) {
+    return <span className={className}>{content}</span>;
+  }
+
+  return <div className={cn("space-y-3", className)}>{content}</div>;
+};
+
+export default Markdown;
@@ -0,0 +1,65 @@
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import Markdown from "./Markdown";
+import type { QuestionOption } from "@/lib/api";
+import { useI18n } from "@/hooks/useI18n";
+
+interface MultiSelectInputProps {
+  questionId: number;
+  options: QuestionOption[];
+  selectedAnswers: string[];
+  onAnswersChange: (answerIds: string[]) => void;
+  math?: boolean; // Option text contains formulas
+}
+
+const MultiSelectInput = ({ questionId, options, selectedAnswers, onAnswersChange, math = false }: MultiSelectInputProps) => {
+  const { t } = useI18n();
+
+  const toggleOption = (optionId: string, checked: boolean) => {
+    const next = checked
+      ? [...selectedAnswers, optionId]
+      : selectedAnswers.filter((id) => id !== optionId);
+    // Keep option order stable (A, B, C, D) regardless of click order
+    onAnswersChange(options.map((option) => option.id).filter((id) => next.includes(id)));
+  };
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-muted-foreground">{t("input.multiSelectHint")}</p>
+      {options.map((option) => {
+        const isSelected = selectedAnswers.includes(option.id);
+        const inputId = `multi-${questionId}-${option.id}`;
+        return (
+          <div
+            key={option.id}
+            className={`
+              relative flex items-start space-x-3 rounded-lg border-2 p-4 cursor-pointer
+              transition-all duration-200 hover:border-primary/50
+              ${
+                isSelected
+                  ? "border-primary bg-primary/5 shadow-sm"
+                  : "border-border bg-background"
+              }
+            `}
+          >
+            <Checkbox
+              id={inputId}
+              checked={isSelected}
+              onCheckedChange={(checked) => toggleOption(option.id, checked === true)}
+              className="mt-0.5 flex-shrink-0"
+            />
+            <Label
+              htmlFor={inputId}
+              className="flex-1 cursor-pointer text-base leading-relaxed text-foreground"
+            >
+              <span className="font-medium mr-2">{option.id}.</span>
+              <Markdown inline math={math}>{option.text}</Markdown>
+            </Label>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default MultiSelectInput;
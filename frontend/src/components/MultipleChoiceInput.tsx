@@ -0,0 +1,50 @@
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Label } from "@/components/ui/label";
+import Markdown from "./Markdown";
+import type { QuestionOption } from "@/lib/api";
+
+interface MultipleChoiceInputProps {
+  options: QuestionOption[];
+  selectedAnswer: string;
+  onAnswerSelect: (answerId: string) => void;
+  math?: boolean; // Option text contains formulas
+}
+
+const MultipleChoiceInput = ({ options, selectedAnswer, onAnswerSelect, math = false }: MultipleChoiceInputProps) => {
+  return (
+    <RadioGroup value={selectedAnswer} onValueChange={onAnswerSelect} className="space-y-3">
+      {options.map((option) => {
+        const isSelected = selectedAnswer === option.id;
+        return (
+          <div
+            key={option.id}
+            className={`
+              relative flex items-start space-x-3 rounded-lg border-2 p-4 cursor-pointer
+              transition-all duration-200 hover:border-primary/50
+              ${
+                isSelected
+                  ? "border-primary bg-primary/5 shadow-sm"
+                  : "border-border bg-background"
+              }
+            `}
+          >
+            <RadioGroupItem
+              value={option.id}
+              id={option.id}
+              className="mt-0.5 flex-shrink-0"
+            />
+            <Label
+              htmlFor={option.id}
+              className="flex-1 cursor-pointer text-base leading-relaxed text-foreground"
+            >
+              <span className="font-medium mr-2">{option.id}.</span>
+              <Markdown inline math={math}>{option.text}</Markdown>
+            </Label>
+          </div>
+        );
+      })}
+    </RadioGroup>
+  );
+};
+
+export default MultipleChoiceInput;
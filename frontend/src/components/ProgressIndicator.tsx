@@ -5,29 +5,40 @@
 // Clean dan minimalis mengikuti design Dicoding
 // ============================================================================
 
+import type { ReactNode } from "react";
+import { Flag } from "lucide-react";
+import { useI18n } from "@/hooks/useI18n";
+
 interface ProgressIndicatorProps {
   currentQuestion: number;
   totalQuestions: number;
   answeredQuestions?: number[]; // Array of question indices that have been answered
+  flaggedQuestions?: number[]; // Array of question indices flagged for review
   onQuestionClick?: (questionIndex: number) => void; // Callback when user clicks a question number
   category?: string; // Category name (e.g., "Persiapan Belajar Wajib")
+  actions?: ReactNode; // Rendered next to the category label (timer, help button)
 }
 
 const ProgressIndicator = ({ 
   currentQuestion, 
   totalQuestions,
   answeredQuestions = [],
+  flaggedQuestions = [],
   onQuestionClick,
-  category = "Persiapan Belajar Wajib"
+  category,
+  actions
 }: ProgressIndicatorProps) => {
+  const { t } = useI18n();
+
   return (
     <div className="bg-background border-b border-border">
       <div className="max-w-3xl mx-auto px-4 py-4">
         {/* Category label */}
-        <div className="mb-3">
+        <div className="mb-3 flex items-center justify-between">
           <span className="text-sm text-muted-foreground">
-            Soal kategori: <span className="font-medium text-foreground">{category}</span>
+            {t("progress.category")} <span className="font-medium text-foreground">{category ?? t("progress.defaultCategory")}</span>
           </span>
+          {actions}
         </div>
         
         {/* Clickable numbered boxes - horizontal compact layout */}
@@ -36,6 +47,7 @@ const ProgressIndicator = ({
             const questionNumber = index + 1;
             const isCurrentQuestion = index === currentQuestion - 1;
             const isAnswered = answeredQuestions.includes(index);
+            const isFlagged = flaggedQuestions.includes(index);
             
             return (
               <button
@@ -43,13 +55,15 @@ const ProgressIndicator = ({
                 onClick={() => onQuestionClick?.(index)}
                 disabled={!onQuestionClick}
                 className={`
-                  w-10 h-10 rounded border-2 
+                  relative w-10 h-10 rounded border-2 
                   flex items-center justify-center
                   transition-all duration-200
                   text-sm font-semibold
                   ${!onQuestionClick ? 'cursor-default' : 'cursor-pointer hover:scale-105'}
                   ${isCurrentQuestion 
                     ? 'border-primary bg-primary text-white shadow-sm' 
+                    : isFlagged
+                    ? 'border-warning bg-card text-foreground'
                     : isAnswered
                     ? 'border-border bg-card text-foreground'
                     : 'border-border bg-background text-muted-foreground'
@@ -57,13 +71,15 @@ const ProgressIndicator = ({
                 `}
                 title={
                   isCurrentQuestion 
-                    ? 'Soal saat ini' 
-                    : isAnswered 
-                    ? `Soal ${questionNumber} - Sudah dijawab` 
-                    : `Soal ${questionNumber} - Belum dijawab`
+                    ? t('progress.current') 
+                    : t(isAnswered ? 'progress.answered' : 'progress.unanswered', { number: questionNumber }) +
+                      (isFlagged ? t('progress.flaggedSuffix') : '')
                 }
               >
                 {questionNumber}
+                {isFlagged && (
+                  <Flag className="absolute -top-1.5 -right-1.5 w-3.5 h-3.5 text-warning fill-warning" aria-label={t("common.flagged")} />
+                )}
               </button>
             );
           })}
@@ -1,59 +1,87 @@
-import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
-import { Label } from "@/components/ui/label";
-
-interface Option {
-  id: string;
-  text: string;
-}
+import MultipleChoiceInput from "./MultipleChoiceInput";
+import TrueFalseInput from "./TrueFalseInput";
+import ShortAnswerInput from "./ShortAnswerInput";
+import MultiSelectInput from "./MultiSelectInput";
+import CodeBlock from "./CodeBlock";
+import Markdown from "./Markdown";
+import ConfidenceSelector from "./ConfidenceSelector";
+import type { AnswerValue, ConfidenceLevel, Question } from "@/lib/api";
 
 interface QuestionCardProps {
-  question: string;
-  options: Option[];
-  selectedAnswer: string;
-  onAnswerSelect: (answerId: string) => void;
+  question: Question;
+  selectedAnswer: AnswerValue;
+  onAnswerSelect: (answer: AnswerValue) => void;
+  confidence?: ConfidenceLevel;
+  onConfidenceChange?: (confidence: ConfidenceLevel | undefined) => void;
 }
 
-const QuestionCard = ({ question, options, selectedAnswer, onAnswerSelect }: QuestionCardProps) => {
+const QuestionCard = ({ question, selectedAnswer, onAnswerSelect, confidence, onConfidenceChange }: QuestionCardProps) => {
+  // Single-answer inputs get a string, multi-select gets a list
+  const singleAnswer = typeof selectedAnswer === "string" ? selectedAnswer : "";
+  const multipleAnswers = Array.isArray(selectedAnswer) ? selectedAnswer : [];
+  const hasAnswer = singleAnswer.trim().length > 0 || multipleAnswers.length > 0;
+
+  const renderInput = () => {
+    switch (question.type) {
+      case "true-false":
+        return (
+          <TrueFalseInput
+            options={question.options}
+            selectedAnswer={singleAnswer}
+            onAnswerSelect={onAnswerSelect}
+          />
+        );
+      case "short-answer":
+        return (
+          <ShortAnswerInput
+            questionId={question.id}
+            answer={singleAnswer}
+            onAnswerChange={onAnswerSelect}
+          />
+        );
+      case "multi-select":
+        return (
+          <MultiSelectInput
+            questionId={question.id}
+            options={question.options}
+            selectedAnswers={multipleAnswers}
+            onAnswersChange={onAnswerSelect}
+            math={question.math}
+          />
+        );
+      default:
+        return (
+          <MultipleChoiceInput
+            options={question.options}
+            selectedAnswer={singleAnswer}
+            onAnswerSelect={onAnswerSelect}
+            math={question.math}
+          />
+        );
+    }
+  };
+
   return (
     <div className="bg-card rounded-xl border border-border p-6 shadow-sm">
       <div className="mb-6">
-        <h2 className="text-xl font-semibold text-foreground leading-relaxed">
-          {question}
-        </h2>
+        {/* Stem may contain lists / code blocks, which are not valid inside <h2> */}
+        <div role="heading" aria-level={2}>
+          <Markdown className="text-xl font-semibold text-foreground leading-relaxed" math={question.math}>
+            {question.question}
+          </Markdown>
+        </div>
+        {question.code && (
+          <div className="mt-4">
+            <CodeBlock code={question.code} />
+          </div>
+        )}
       </div>
 
-      <RadioGroup value={selectedAnswer} onValueChange={onAnswerSelect} className="space-y-3">
-        {options.map((option) => {
-          const isSelected = selectedAnswer === option.id;
-          return (
-            <div
-              key={option.id}
-              className={`
-                relative flex items-start space-x-3 rounded-lg border-2 p-4 cursor-pointer
-                transition-all duration-200 hover:border-primary/50
-                ${
-                  isSelected
-                    ? "border-primary bg-primary/5 shadow-sm"
-                    : "border-border bg-background"
-                }
-              `}
-            >
-              <RadioGroupItem
-                value={option.id}
-                id={option.id}
-                className="mt-0.5 flex-shrink-0"
-              />
-              <Label
-                htmlFor={option.id}
-                className="flex-1 cursor-pointer text-base leading-relaxed text-foreground"
-              >
-                <span className="font-medium mr-2">{option.id}.</span>
-                {option.text}
-              </Label>
-            </div>
-          );
-        })}
-      </RadioGroup>
+      {renderInput()}
+
+      {onConfidenceChange && (
+        <ConfidenceSelector value={confidence} onChange={onConfidenceChange} disabled={!hasAnswer} />
+      )}
     </div>
   );
 };
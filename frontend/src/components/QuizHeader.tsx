@@ -2,21 +2,28 @@
 // QuizHeader Component - Dicoding Style
 // ============================================================================
 // Simple header dengan back arrow dan judul, mengikuti design Dicoding
+// Tombol pengaturan tampil di kanan bila userId diberikan
 // ============================================================================
 
 import { ChevronLeft } from "lucide-react";
+import { useI18n } from "@/hooks/useI18n";
+import SettingsSheet from "./SettingsSheet";
 
 interface QuizHeaderProps {
   title?: string;
   onBack?: () => void;
   showBackButton?: boolean;
+  userId?: string; // Shows the settings button when set
 }
 
 const QuizHeader = ({ 
-  title = "Latihan Kuis", 
+  title, 
   onBack,
-  showBackButton = true 
+  showBackButton = true,
+  userId
 }: QuizHeaderProps) => {
+  const { t } = useI18n();
+
   return (
     <div className="bg-background border-b border-border">
       <div className="max-w-5xl mx-auto px-4 py-3 flex items-center gap-4">
@@ -24,15 +31,21 @@ const QuizHeader = ({
           <button
             onClick={onBack}
             className="flex items-center justify-center w-8 h-8 rounded-full hover:bg-accent/50 transition-colors"
-            aria-label="Kembali"
+            aria-label={t("common.back")}
           >
             <ChevronLeft className="w-5 h-5 text-foreground" />
           </button>
         )}
         
         <h1 className="text-lg font-semibold text-foreground">
-          {title}
+          {title ?? t("header.defaultTitle")}
         </h1>
+
+        {userId && (
+          <div className="ml-auto">
+            <SettingsSheet userId={userId} />
+          </div>
+        )}
       </div>
     </div>
   );
@@ -1,28 +1,60 @@
-import { Check, X } from "lucide-react";
-
-interface Option {
-  id: string;
-  text: string;
-}
+import { Check, Clock, Eye, Flag, RefreshCw, X } from "lucide-react";
+import CodeBlock from "./CodeBlock";
+import Markdown from "./Markdown";
+import { getCalibrationCategory } from "@/lib/calibration";
+import { useI18n } from "@/hooks/useI18n";
+import type { QuestionResult, QuestionTelemetry } from "@/lib/api";
 
 interface ResultCardProps {
   questionNumber: number;
-  question: string;
-  options: Option[];
-  userAnswer: string;
-  correctAnswer: string;
-  explanation: string;
+  result: QuestionResult; // Graded result from backend
+  flagged?: boolean; // Flagged for review during the attempt
+  telemetry?: QuestionTelemetry; // Shown in history detail
 }
 
-const ResultCard = ({
-  questionNumber,
-  question,
-  options,
-  userAnswer,
-  correctAnswer,
-  explanation,
-}: ResultCardProps) => {
-  const isCorrect = userAnswer === correctAnswer;
+const ResultCard = ({ questionNumber, result, flagged = false, telemetry }: ResultCardProps) => {
+  const { t, formatDuration } = useI18n();
+  const { question, options = [], userAnswer, correctAnswer, acceptedAnswers = [], explanation, isCorrect } = result;
+  const type = result.type ?? "multiple-choice";
+  // Multi-select answers are lists of option IDs; normalize so every type can be matched the same way
+  const userAnswerIds = Array.isArray(userAnswer) ? userAnswer : [userAnswer];
+  const correctAnswerIds = Array.isArray(correctAnswer) ? correctAnswer : [correctAnswer];
+  const credit = result.credit ?? (isCorrect ? 1 : 0);
+  const isPartiallyCorrect = credit > 0 && credit < 1;
+  const isMisconception = getCalibrationCategory(result) === "misconceptions";
+
+  const renderShortAnswer = () => (
+    <div className="space-y-2 mb-4 ml-11">
+      <div
+        className={`
+          flex items-center gap-2 p-3 rounded-lg border-2
+          ${isCorrect ? "bg-success-light border-success" : "bg-error-light border-error"}
+        `}
+      >
+        <div className="flex-shrink-0">
+          {isCorrect ? <Check className="w-4 h-4 text-success" /> : <X className="w-4 h-4 text-error" />}
+        </div>
+        <span className="text-sm">
+          <span className="font-medium mr-2">{t("common.yourAnswer")}:</span>
+          {userAnswer || <span className="italic text-muted-foreground">{t("common.unanswered")}</span>}
+        </span>
+      </div>
+      {!isCorrect && (
+        <div className="flex items-center gap-2 p-3 rounded-lg border-2 bg-success-light border-success">
+          <Check className="w-4 h-4 text-success flex-shrink-0" />
+          <span className="text-sm">
+            <span className="font-medium mr-2">{t("common.correctAnswer")}:</span>
+            {correctAnswer}
+          </span>
+        </div>
+      )}
+      {acceptedAnswers.length > 0 && (
+        <p className="text-xs text-muted-foreground">
+          {t("result.otherAccepted", { answers: acceptedAnswers.join(", ") })}
+        </p>
+      )}
+    </div>
+  );
 
   return (
     <div className="bg-card rounded-xl border border-border p-6 shadow-sm">
@@ -37,58 +69,102 @@ const ResultCard = ({
         </div>
         <div className="flex-1">
           <h3 className="text-lg font-semibold text-foreground mb-2">
-            Pertanyaan {questionNumber}
+            {t("result.question", { number: questionNumber })}
+            {isPartiallyCorrect && (
+              <span className="ml-2 text-sm font-medium text-warning">
+                {t("result.partialCredit", { percentage: Math.round(credit * 100) })}
+              </span>
+            )}
+            {result.confidence && (
+              <span
+                className={`ml-2 inline-block px-2 py-0.5 rounded-full border text-xs font-medium align-middle ${
+                  isMisconception ? "border-error/30 bg-error/10 text-error" : "border-border text-muted-foreground"
+                }`}
+              >
+                {t(`confidence.${result.confidence}`)}
+              </span>
+            )}
+            {flagged && (
+              <span className="ml-2 inline-flex items-center gap-1 text-xs font-medium text-warning align-middle">
+                <Flag className="w-3.5 h-3.5 fill-warning" />
+                {t("common.flagged")}
+              </span>
+            )}
           </h3>
-          <p className="text-base text-foreground leading-relaxed">{question}</p>
+          <Markdown className="text-base text-foreground leading-relaxed" math={result.math}>{question}</Markdown>
+          {result.code && (
+            <div className="mt-3">
+              <CodeBlock code={result.code} />
+            </div>
+          )}
         </div>
       </div>
 
-      <div className="space-y-2 mb-4 ml-11">
-        {options.map((option) => {
-          const isUserAnswer = option.id === userAnswer;
-          const isCorrectOption = option.id === correctAnswer;
+      {type === "short-answer" ? renderShortAnswer() : (
+        <div className="space-y-2 mb-4 ml-11">
+          {options.map((option) => {
+            const isUserAnswer = userAnswerIds.includes(option.id);
+            const isCorrectOption = correctAnswerIds.includes(option.id);
 
-          let bgColor = "bg-background";
-          let borderColor = "border-border";
-          let icon = null;
+            let bgColor = "bg-background";
+            let borderColor = "border-border";
+            let icon = null;
 
-          if (isCorrectOption) {
-            bgColor = "bg-success-light";
-            borderColor = "border-success";
-            icon = <Check className="w-4 h-4 text-success" />;
-          } else if (isUserAnswer && !isCorrect) {
-            bgColor = "bg-error-light";
-            borderColor = "border-error";
-            icon = <X className="w-4 h-4 text-error" />;
-          }
+            if (isCorrectOption) {
+              bgColor = "bg-success-light";
+              borderColor = "border-success";
+              icon = <Check className="w-4 h-4 text-success" />;
+            } else if (isUserAnswer && !isCorrect) {
+              bgColor = "bg-error-light";
+              borderColor = "border-error";
+              icon = <X className="w-4 h-4 text-error" />;
+            }
 
-          return (
-            <div
-              key={option.id}
-              className={`
-                flex items-center gap-2 p-3 rounded-lg border-2
-                ${bgColor} ${borderColor}
-              `}
-            >
-              {icon && <div className="flex-shrink-0">{icon}</div>}
-              <span className="text-sm">
-                <span className="font-medium mr-2">{option.id}.</span>
-                {option.text}
-              </span>
-            </div>
-          );
-        })}
-      </div>
+            return (
+              <div
+                key={option.id}
+                className={`
+                  flex items-center gap-2 p-3 rounded-lg border-2
+                  ${bgColor} ${borderColor}
+                `}
+              >
+                {icon && <div className="flex-shrink-0">{icon}</div>}
+                <span className="text-sm">
+                  {type !== "true-false" && <span className="font-medium mr-2">{option.id}.</span>}
+                  <Markdown inline math={result.math}>{option.text}</Markdown>
+                </span>
+              </div>
+            );
+          })}
+        </div>
+      )}
 
       <div className="ml-11 p-4 bg-primary/5 rounded-lg border border-primary/20">
         <div className="flex items-start gap-2">
           <Check className="w-5 h-5 text-primary flex-shrink-0 mt-0.5" />
           <div>
-            <h4 className="font-semibold text-sm text-foreground mb-1">Penjelasan</h4>
-            <p className="text-sm text-muted-foreground leading-relaxed">{explanation}</p>
+            <h4 className="font-semibold text-sm text-foreground mb-1">{t("common.explanation")}</h4>
+            <Markdown className="text-sm text-muted-foreground leading-relaxed" math={result.math}>{explanation}</Markdown>
           </div>
         </div>
       </div>
+
+      {telemetry && (
+        <div className="ml-11 mt-3 flex flex-wrap items-center gap-x-4 gap-y-1 text-xs text-muted-foreground">
+          <span className="flex items-center gap-1" title={t("result.timeOnTask")}>
+            <Clock className="w-3.5 h-3.5" />
+            {formatDuration(telemetry.timeOnTaskMs)}
+          </span>
+          <span className="flex items-center gap-1" title={t("result.answerChanges")}>
+            <RefreshCw className="w-3.5 h-3.5" />
+            {t("result.changedTimes", { count: telemetry.answerChanges })}
+          </span>
+          <span className="flex items-center gap-1" title={t("result.visits")}>
+            <Eye className="w-3.5 h-3.5" />
+            {t("result.openedTimes", { count: telemetry.visits })}
+          </span>
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,94 @@
+// ============================================================================
+// SettingsSheet Component - Display & Language Preferences
+// ============================================================================
+// Panel samping untuk mengubah tema, ukuran huruf, lebar tampilan dan bahasa.
+// Setiap perubahan langsung diterapkan (live preview), disimpan di perangkat
+// dan disinkronkan ke backend lewat outbox.
+// ============================================================================
+
+import { Settings } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from "@/components/ui/sheet";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { useI18n } from "@/hooks/useI18n";
+import { useUserPreferences } from "@/hooks/useUserPreferences";
+import type { MessageKey } from "@/lib/i18n";
+import type { UserPreferences } from "@/lib/api";
+
+interface SettingsSheetProps {
+  userId: string;
+}
+
+interface SettingOption<K extends keyof UserPreferences> {
+  key: K;
+  values: NonNullable<UserPreferences[K]>[];
+  hint?: MessageKey;
+}
+
+const SETTINGS: SettingOption<keyof UserPreferences>[] = [
+  { key: "theme", values: ["light", "dark"] },
+  { key: "fontSize", values: ["small", "default", "large"] },
+  { key: "layoutWidth", values: ["default", "fullWidth"] },
+  { key: "language", values: ["id", "en"], hint: "settings.language.hint" },
+];
+
+const SettingsSheet = ({ userId }: SettingsSheetProps) => {
+  const { t } = useI18n();
+  const { preferences, updatePreferences } = useUserPreferences(userId);
+
+  return (
+    <Sheet>
+      <SheetTrigger asChild>
+        <Button variant="ghost" size="icon" aria-label={t("settings.open")} title={t("settings.open")}>
+          <Settings className="w-5 h-5" />
+        </Button>
+      </SheetTrigger>
+      <SheetContent className="overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>{t("settings.title")}</SheetTitle>
+          <SheetDescription>{t("settings.description")}</SheetDescription>
+        </SheetHeader>
+
+        <div className="mt-6 space-y-6">
+          {SETTINGS.map(({ key, values, hint }) => (
+            <div key={key} className="space-y-2">
+              <p id={`setting-${key}`} className="text-sm font-medium text-foreground">
+                {t(`settings.${key}`)}
+              </p>
+              <ToggleGroup
+                type="single"
+                variant="outline"
+                size="sm"
+                value={preferences[key] ?? ""}
+                // Clicking the active option would clear it - keep the current value instead
+                onValueChange={(next) => next && updatePreferences({ [key]: next })}
+                aria-labelledby={`setting-${key}`}
+                className="justify-start flex-wrap"
+              >
+                {values.map((value) => (
+                  <ToggleGroupItem
+                    key={value}
+                    value={value}
+                    className="px-3 data-[state=on]:border-primary data-[state=on]:bg-primary/10 data-[state=on]:text-primary"
+                  >
+                    {t(`settings.${key}.${value}` as MessageKey)}
+                  </ToggleGroupItem>
+                ))}
+              </ToggleGroup>
+              {hint && <p className="text-xs text-muted-foreground">{t(hint)}</p>}
+            </div>
+          ))}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default SettingsSheet;
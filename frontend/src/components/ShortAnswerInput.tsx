@@ -0,0 +1,33 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useI18n } from "@/hooks/useI18n";
+
+interface ShortAnswerInputProps {
+  questionId: number;
+  answer: string;
+  onAnswerChange: (answer: string) => void;
+}
+
+const ShortAnswerInput = ({ questionId, answer, onAnswerChange }: ShortAnswerInputProps) => {
+  const { t } = useI18n();
+  const inputId = `short-answer-${questionId}`;
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor={inputId} className="text-sm text-muted-foreground">
+        {t("input.shortAnswerLabel")}
+      </Label>
+      <Input
+        id={inputId}
+        value={answer}
+        onChange={(event) => onAnswerChange(event.target.value)}
+        placeholder={t("input.shortAnswerPlaceholder")}
+        autoComplete="off"
+        maxLength={200}
+        className="h-12 text-base"
+      />
+    </div>
+  );
+};
+
+export default ShortAnswerInput;
@@ -0,0 +1,60 @@
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useI18n } from "@/hooks/useI18n";
+import type { MessageKey } from "@/lib/i18n";
+
+interface ShortcutHelpDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const SHORTCUTS: { keys: string[]; description: MessageKey }[] = [
+  { keys: ["A", "B", "C", "D"], description: "shortcuts.selectAnswer" },
+  { keys: ["→", "J"], description: "shortcuts.next" },
+  { keys: ["←", "K"], description: "shortcuts.previous" },
+  { keys: ["F"], description: "shortcuts.flag" },
+  { keys: ["Ctrl", "Enter"], description: "shortcuts.submit" },
+  { keys: ["?"], description: "shortcuts.help" },
+];
+
+const ShortcutHelpDialog = ({ open, onOpenChange }: ShortcutHelpDialogProps) => {
+  const { t } = useI18n();
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>{t("shortcuts.title")}</DialogTitle>
+          <DialogDescription>
+            {t("shortcuts.description")}
+          </DialogDescription>
+        </DialogHeader>
+
+        <ul className="space-y-3">
+          {SHORTCUTS.map((shortcut) => (
+            <li key={shortcut.description} className="flex items-center justify-between gap-4 text-sm">
+              <span className="text-foreground">{t(shortcut.description)}</span>
+              <span className="flex items-center gap-1 flex-shrink-0">
+                {shortcut.keys.map((key) => (
+                  <kbd
+                    key={key}
+                    className="min-w-[1.75rem] rounded border border-border bg-muted px-1.5 py-0.5 text-center font-mono text-xs text-foreground"
+                  >
+                    {key}
+                  </kbd>
+                ))}
+              </span>
+            </li>
+          ))}
+        </ul>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ShortcutHelpDialog;
@@ -0,0 +1,121 @@
+// ============================================================================
+// SubmitReviewScreen Component
+// ============================================================================
+// Summary shown before the final submit: unanswered and flagged questions,
+// each linking back to its question. Submitting with unanswered questions
+// is allowed - they are graded as wrong.
+// ============================================================================
+
+import { AlertCircle, CheckCircle2, Flag, Send } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import type { Question } from "@/lib/api";
+import { useI18n } from "@/hooks/useI18n";
+
+interface SubmitReviewScreenProps {
+  questions: Question[];
+  answeredQuestions: number[];
+  flaggedQuestions: number[];
+  onGoToQuestion: (questionIndex: number) => void;
+  onBack: () => void;
+  onSubmit: () => void;
+}
+
+// First line of the stem, without Markdown markers, as a short preview
+const getPreview = (text: string) => {
+  const firstLine = text.split("\n").find((line) => line.trim().length > 0) || "";
+  const plain = firstLine.replace(/[`*_#>$]/g, "").trim();
+  return plain.length > 80 ? `${plain.slice(0, 80)}…` : plain;
+};
+
+const SubmitReviewScreen = ({
+  questions,
+  answeredQuestions,
+  flaggedQuestions,
+  onGoToQuestion,
+  onBack,
+  onSubmit,
+}: SubmitReviewScreenProps) => {
+  const { t } = useI18n();
+  const unanswered = questions.map((_, index) => index).filter((index) => !answeredQuestions.includes(index));
+
+  const renderQuestionList = (indices: number[], emptyText: string) => {
+    if (indices.length === 0) {
+      return <p className="text-sm text-muted-foreground">{emptyText}</p>;
+    }
+
+    return (
+      <ul className="space-y-2">
+        {indices.map((index) => (
+          <li key={index}>
+            <button
+              onClick={() => onGoToQuestion(index)}
+              className="w-full flex items-center gap-3 rounded-lg border border-border bg-background p-3 text-left transition-colors hover:border-primary/50 hover:bg-primary/5"
+            >
+              <span className="flex-shrink-0 w-8 h-8 rounded border-2 border-border flex items-center justify-center text-sm font-semibold">
+                {index + 1}
+              </span>
+              <span className="flex-1 text-sm text-foreground">{getPreview(questions[index].question)}</span>
+              {flaggedQuestions.includes(index) && (
+                <Flag className="w-4 h-4 flex-shrink-0 text-warning fill-warning" aria-label={t("common.flagged")} />
+              )}
+            </button>
+          </li>
+        ))}
+      </ul>
+    );
+  };
+
+  return (
+    <div className="bg-card rounded-xl border border-border p-6 shadow-sm space-y-6">
+      <div>
+        <h2 className="text-xl font-semibold text-foreground mb-1">{t("review.title")}</h2>
+        <p className="text-sm text-muted-foreground">
+          {t("review.summary", {
+            answered: answeredQuestions.length,
+            total: questions.length,
+            flagged: flaggedQuestions.length,
+          })}
+        </p>
+      </div>
+
+      <section>
+        <h3 className="flex items-center gap-2 text-base font-semibold text-foreground mb-3">
+          <AlertCircle className="w-4 h-4 text-error" />
+          {t("review.unanswered", { count: unanswered.length })}
+        </h3>
+        {renderQuestionList(unanswered, t("review.allAnswered"))}
+      </section>
+
+      <section>
+        <h3 className="flex items-center gap-2 text-base font-semibold text-foreground mb-3">
+          <Flag className="w-4 h-4 text-warning" />
+          {t("review.flagged", { count: flaggedQuestions.length })}
+        </h3>
+        {renderQuestionList(flaggedQuestions, t("review.noneFlagged"))}
+      </section>
+
+      {unanswered.length > 0 ? (
+        <p className="text-sm text-error">
+          {t("review.unansweredWarning")}
+        </p>
+      ) : (
+        <p className="flex items-center gap-2 text-sm text-success">
+          <CheckCircle2 className="w-4 h-4" />
+          {t("review.ready")}
+        </p>
+      )}
+
+      <div className="flex items-center justify-between gap-3 pt-2 border-t border-border">
+        <Button onClick={onBack} variant="outline" size="lg">
+          {t("review.backToQuestions")}
+        </Button>
+        <Button onClick={onSubmit} size="lg" className="bg-primary hover:bg-primary/90">
+          <Send className="w-4 h-4 mr-2" />
+          {t("review.submitNow")}
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default SubmitReviewScreen;
@@ -1,26 +1,51 @@
-import { useEffect, useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import { Clock } from "lucide-react";
 
 interface TimerProps {
-  duration: number; // in minutes
+  deadline: string; // ISO timestamp when the attempt ends
   onTimeUp: () => void;
 }
 
-const Timer = ({ duration, onTimeUp }: TimerProps) => {
-  const [timeLeft, setTimeLeft] = useState(duration * 60); // convert to seconds
+// Remaining seconds are always derived from the absolute deadline, so the
+// timer stays correct after reloads and when background tabs throttle intervals
+const getSecondsLeft = (deadline: string) =>
+  Math.max(0, Math.ceil((new Date(deadline).getTime() - Date.now()) / 1000));
+
+const Timer = ({ deadline, onTimeUp }: TimerProps) => {
+  const [timeLeft, setTimeLeft] = useState(() => getSecondsLeft(deadline));
+  const onTimeUpRef = useRef(onTimeUp);
+  const hasFiredRef = useRef(false);
+
+  // Keep latest callback without restarting the interval
+  useEffect(() => {
+    onTimeUpRef.current = onTimeUp;
+  }, [onTimeUp]);
 
   useEffect(() => {
-    if (timeLeft <= 0) {
-      onTimeUp();
-      return;
-    }
+    hasFiredRef.current = false;
+
+    const tick = () => {
+      const secondsLeft = getSecondsLeft(deadline);
+      setTimeLeft(secondsLeft);
+
+      // Fire exactly once, even if the deadline already passed while the tab was closed
+      if (secondsLeft <= 0 && !hasFiredRef.current) {
+        hasFiredRef.current = true;
+        onTimeUpRef.current();
+      }
+    };
+
+    tick();
+    const timer = setInterval(tick, 1000);
 
-    const timer = setInterval(() => {
-      setTimeLeft((prev) => prev - 1);
-    }, 1000);
+    // Re-sync immediately when a throttled background tab becomes visible again
+    document.addEventListener("visibilitychange", tick);
 
-    return () => clearInterval(timer);
-  }, [timeLeft, onTimeUp]);
+    return () => {
+      clearInterval(timer);
+      document.removeEventListener("visibilitychange", tick);
+    };
+  }, [deadline]);
 
   const minutes = Math.floor(timeLeft / 60);
   const seconds = timeLeft % 60;
@@ -0,0 +1,46 @@
+import { Check, X } from "lucide-react";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Label } from "@/components/ui/label";
+import type { QuestionOption } from "@/lib/api";
+
+interface TrueFalseInputProps {
+  options: QuestionOption[]; // "true" / "false" with localized labels
+  selectedAnswer: string;
+  onAnswerSelect: (answerId: string) => void;
+}
+
+const TrueFalseInput = ({ options, selectedAnswer, onAnswerSelect }: TrueFalseInputProps) => {
+  return (
+    <RadioGroup value={selectedAnswer} onValueChange={onAnswerSelect} className="grid grid-cols-2 gap-3">
+      {options.map((option) => {
+        const isSelected = selectedAnswer === option.id;
+        const Icon = option.id === "true" ? Check : X;
+        return (
+          <div
+            key={option.id}
+            className={`
+              relative flex items-center justify-center gap-3 rounded-lg border-2 p-5 cursor-pointer
+              transition-all duration-200 hover:border-primary/50
+              ${
+                isSelected
+                  ? "border-primary bg-primary/5 shadow-sm"
+                  : "border-border bg-background"
+              }
+            `}
+          >
+            <RadioGroupItem value={option.id} id={`tf-${option.id}`} className="sr-only" />
+            <Label
+              htmlFor={`tf-${option.id}`}
+              className="flex items-center gap-2 cursor-pointer text-base font-semibold text-foreground"
+            >
+              <Icon className={`w-5 h-5 ${option.id === "true" ? "text-success" : "text-error"}`} />
+              {option.text}
+            </Label>
+          </div>
+        );
+      })}
+    </RadioGroup>
+  );
+};
+
+export default TrueFalseInput;
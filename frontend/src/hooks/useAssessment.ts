@@ -99,46 +99,3 @@ export const useHealthCheck = () => {
     }
   };
 };
-
-// Hook untuk URL params (tutorial_id dan user_id dari iFrame parent)
-export const useIFrameParams = () => {
-  const [params, setParams] = useState<{
-    tutorialId?: string;
-    userId?: string;
-  }>({});
-
-  useEffect(() => {
-    // Get params from URL
-    const urlParams = new URLSearchParams(window.location.search);
-    const tutorialId = urlParams.get('tutorial_id') || undefined;
-    const userId = urlParams.get('user_id') || undefined;
-
-    // Try to get params from parent window (iFrame integration)
-    try {
-      if (window.parent !== window) {
-        // Send request to parent for params
-        window.parent.postMessage({ type: 'REQUEST_PARAMS' }, '*');
-        
-        // Listen for response
-        const handleMessage = (event: MessageEvent) => {
-          if (event.data.type === 'PARAMS_RESPONSE') {
-            setParams({
-              tutorialId: event.data.tutorial_id || tutorialId,
-              userId: event.data.user_id || userId
-            });
-          }
-        };
-        
-        window.addEventListener('message', handleMessage);
-        return () => window.removeEventListener('message', handleMessage);
-      }
-    } catch (error) {
-      console.warn('Unable to communicate with parent window:', error);
-    }
-
-    // Fallback to URL params
-    setParams({ tutorialId, userId });
-  }, []);
-
-  return params;
-};
\ No newline at end of file
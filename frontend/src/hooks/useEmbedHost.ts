@@ -0,0 +1,37 @@
+import { useEffect, useRef } from 'react';
+import { subscribeHostCommands, type EmbedCommand } from '@/lib/embed';
+
+// ============================================================================
+// Commands from the page embedding the quiz (see lib/embed/protocol.ts)
+// ============================================================================
+// Only commands from an allowed host origin reach these handlers; missing
+// handlers simply ignore their command. Events go the other way through
+// postToHost from lib/embed.
+// ============================================================================
+
+export interface EmbedHostHandlers {
+  onSetTheme?: (theme: 'light' | 'dark') => void;
+  onSubmit?: () => void;
+}
+
+export const useEmbedHost = (handlers: EmbedHostHandlers) => {
+  // Latest handlers without re-subscribing on every render
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  useEffect(() => subscribeHostCommands((command) => {
+    const current = handlersRef.current;
+
+    switch (command.type) {
+      case 'setTheme':
+        current.onSetTheme?.(command.payload.theme);
+        break;
+      case 'submit':
+        current.onSubmit?.();
+        break;
+      default:
+        // 'connect' only establishes the host origin (handled by the channel)
+        break;
+    }
+  }), []);
+};
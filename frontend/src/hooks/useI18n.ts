@@ -0,0 +1,10 @@
+import { useContext } from "react";
+import { I18nContext } from "@/lib/i18n/context";
+
+/**
+ * Active locale, translator and locale-aware formatters
+ * Usage: const { t, formatDate } = useI18n(); t('quiz.next')
+ */
+export function useI18n() {
+  return useContext(I18nContext);
+}
@@ -0,0 +1,27 @@
+import { useEffect, useState } from "react";
+import { getOutboxItems, subscribeOutbox } from "@/lib/outbox";
+
+/**
+ * Browser connectivity plus the number of requests waiting in the outbox
+ * navigator.onLine only knows about the network interface, so a queued
+ * request that keeps failing still shows up as pending while "online"
+ */
+export function useOnlineStatus() {
+  const [isOnline, setIsOnline] = useState(() => navigator.onLine);
+  const [pendingCount, setPendingCount] = useState(() => getOutboxItems().length);
+
+  useEffect(() => {
+    const updateOnline = () => setIsOnline(navigator.onLine);
+    const unsubscribe = subscribeOutbox(() => setPendingCount(getOutboxItems().length));
+
+    window.addEventListener("online", updateOnline);
+    window.addEventListener("offline", updateOnline);
+    return () => {
+      window.removeEventListener("online", updateOnline);
+      window.removeEventListener("offline", updateOnline);
+      unsubscribe();
+    };
+  }, []);
+
+  return { isOnline, pendingCount };
+}
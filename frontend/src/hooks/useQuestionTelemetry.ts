@@ -0,0 +1,109 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { QuestionTelemetry, QuizTelemetry } from '@/lib/api';
+
+// ============================================================================
+// Per-question interaction telemetry
+// ============================================================================
+// - time on task: accumulated while the question is shown and the tab is
+//   visible (flushed on question change, tab hide and snapshot)
+// - answer changes: changes after a question already had an answer;
+//   `coalesce` counts a burst of edits (typing a short answer) once per visit
+// - visit order: question indices in the order they were opened
+// ============================================================================
+
+const MAX_VISIT_ORDER_LENGTH = 500;
+
+export const EMPTY_TELEMETRY: QuizTelemetry = { questions: {}, visitOrder: [] };
+
+const emptyQuestionTelemetry = (): QuestionTelemetry => ({ timeOnTaskMs: 0, answerChanges: 0, visits: 0 });
+
+const updateQuestion = (
+  telemetry: QuizTelemetry,
+  questionIndex: number,
+  update: (current: QuestionTelemetry) => QuestionTelemetry
+): QuizTelemetry => ({
+  ...telemetry,
+  questions: {
+    ...telemetry.questions,
+    [questionIndex]: update(telemetry.questions[questionIndex] ?? emptyQuestionTelemetry()),
+  },
+});
+
+export const useQuestionTelemetry = (active: boolean, currentQuestionIndex: number) => {
+  const [telemetry, setTelemetry] = useState<QuizTelemetry>(EMPTY_TELEMETRY);
+  const segmentStartRef = useRef<number | null>(null); // When the current question became visible
+  const changedThisVisitRef = useRef(false);
+
+  // Move the running time segment into the question's total
+  const flush = useCallback((questionIndex: number) => {
+    if (segmentStartRef.current === null) {
+      return;
+    }
+
+    const elapsed = Date.now() - segmentStartRef.current;
+    segmentStartRef.current = null;
+
+    if (elapsed > 0) {
+      setTelemetry((prev) =>
+        updateQuestion(prev, questionIndex, (q) => ({ ...q, timeOnTaskMs: q.timeOnTaskMs + elapsed }))
+      );
+    }
+  }, []);
+
+  // Question opened: count the visit and start timing
+  useEffect(() => {
+    if (!active) {
+      return;
+    }
+
+    changedThisVisitRef.current = false;
+    setTelemetry((prev) => {
+      const lastVisited = prev.visitOrder[prev.visitOrder.length - 1];
+      if (lastVisited === currentQuestionIndex) {
+        return prev; // Resumed (reload) on the same question
+      }
+
+      const next = updateQuestion(prev, currentQuestionIndex, (q) => ({ ...q, visits: q.visits + 1 }));
+      return { ...next, visitOrder: [...prev.visitOrder, currentQuestionIndex].slice(-MAX_VISIT_ORDER_LENGTH) };
+    });
+
+    segmentStartRef.current = document.visibilityState === 'visible' ? Date.now() : null;
+
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') {
+        flush(currentQuestionIndex);
+      } else if (segmentStartRef.current === null) {
+        segmentStartRef.current = Date.now();
+      }
+    };
+
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => {
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      flush(currentQuestionIndex);
+    };
+  }, [active, currentQuestionIndex, flush]);
+
+  const recordAnswerChange = useCallback((questionIndex: number, coalesce = false) => {
+    if (coalesce && changedThisVisitRef.current) {
+      return;
+    }
+
+    changedThisVisitRef.current = true;
+    setTelemetry((prev) =>
+      updateQuestion(prev, questionIndex, (q) => ({ ...q, answerChanges: q.answerChanges + 1 }))
+    );
+  }, []);
+
+  // Telemetry including the time spent on the current question so far
+  const snapshot = useCallback((): QuizTelemetry => {
+    if (segmentStartRef.current === null) {
+      return telemetry;
+    }
+
+    const elapsed = Date.now() - segmentStartRef.current;
+    return updateQuestion(telemetry, currentQuestionIndex, (q) => ({ ...q, timeOnTaskMs: q.timeOnTaskMs + elapsed }));
+  }, [telemetry, currentQuestionIndex]);
+
+  return { telemetry, setTelemetry, recordAnswerChange, snapshot };
+};
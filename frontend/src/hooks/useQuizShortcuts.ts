@@ -0,0 +1,99 @@
+import { useEffect, useRef } from 'react';
+
+// ============================================================================
+// Keyboard shortcuts for the quiz screen
+// ============================================================================
+// A–D / 1–4  select option        → / J   next question
+// ← / K      previous question     F       flag for review
+// Ctrl+Enter open submit           ?       shortcut help
+// Single-key shortcuts are ignored while typing in a text field so short
+// answers can contain these letters; Ctrl/Cmd+Enter works there too.
+// No shortcut fires while a dialog or menu is open.
+// ============================================================================
+
+export interface QuizShortcutHandlers {
+  onSelectOption: (optionIndex: number) => void;
+  onNext: () => void;
+  onPrevious: () => void;
+  onToggleFlag: () => void;
+  onSubmit: () => void;
+  onShowHelp: () => void;
+}
+
+const OPTION_KEYS = ['a', 'b', 'c', 'd'];
+const NUMBER_KEYS = ['1', '2', '3', '4'];
+
+const isTypingTarget = (target: EventTarget | null) => {
+  if (!(target instanceof HTMLElement)) {
+    return false;
+  }
+
+  const tagName = target.tagName.toLowerCase();
+  return tagName === 'input' || tagName === 'textarea' || tagName === 'select' || target.isContentEditable;
+};
+
+export const useQuizShortcuts = (enabled: boolean, handlers: QuizShortcutHandlers) => {
+  // Latest handlers without re-binding the listener on every render
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  useEffect(() => {
+    if (!enabled) {
+      return;
+    }
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.defaultPrevented || event.isComposing) {
+        return;
+      }
+
+      // Radix dialogs/menus own the keyboard while they are open - Ctrl+Enter included,
+      // so it cannot open the submit dialog over (or from inside) another one
+      if (document.querySelector('[role="dialog"], [role="alertdialog"], [role="menu"]')) {
+        return;
+      }
+
+      const current = handlersRef.current;
+
+      if (event.key === 'Enter' && (event.ctrlKey || event.metaKey)) {
+        event.preventDefault();
+        current.onSubmit();
+        return;
+      }
+
+      if (event.ctrlKey || event.metaKey || event.altKey || isTypingTarget(event.target)) {
+        return;
+      }
+
+      const key = event.key.toLowerCase();
+      // Arrow keys move between options while a radio button has focus
+      const isArrowInRadioGroup = key.startsWith('arrow') &&
+        event.target instanceof HTMLElement && event.target.closest('[role="radiogroup"]') !== null;
+      const optionIndex = OPTION_KEYS.includes(key) ? OPTION_KEYS.indexOf(key) : NUMBER_KEYS.indexOf(key);
+
+      if (isArrowInRadioGroup) {
+        return;
+      }
+
+      if (optionIndex !== -1) {
+        event.preventDefault();
+        current.onSelectOption(optionIndex);
+      } else if (key === 'arrowright' || key === 'j') {
+        event.preventDefault();
+        current.onNext();
+      } else if (key === 'arrowleft' || key === 'k') {
+        event.preventDefault();
+        current.onPrevious();
+      } else if (key === 'f') {
+        event.preventDefault();
+        current.onToggleFlag();
+      } else if (event.key === '?') {
+        event.preventDefault();
+        current.onShowHelp();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [enabled]);
+};
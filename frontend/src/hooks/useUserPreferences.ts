@@ -0,0 +1,23 @@
+import { useCallback, useEffect, useState } from "react";
+import type { UserPreferences } from "@/lib/api";
+import { getActivePreferences, subscribePreferences, updatePreferences } from "@/lib/preferences";
+
+/**
+ * Active preferences plus an updater bound to the user
+ * Re-renders when preferences change anywhere (settings sheet, backend sync)
+ */
+export function useUserPreferences(userId: string) {
+  const [preferences, setPreferences] = useState<UserPreferences>(getActivePreferences);
+
+  useEffect(() => {
+    setPreferences(getActivePreferences());
+    return subscribePreferences(setPreferences);
+  }, []);
+
+  const update = useCallback(
+    (changes: UserPreferences) => updatePreferences(userId, changes),
+    [userId]
+  );
+
+  return { preferences, updatePreferences: update };
+}
@@ -4,23 +4,154 @@
 // Handles communication with backend API for tutorials, questions, and user data
 // ============================================================================
 
+import type { AssessmentState, AttemptHistoryEntry } from './storage';
+import { getLaunchContext } from './launch';
+
 const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001';
 
+// Every backend call carries the launch token - the backend takes learner and tutorial from it
+const authorizedFetch = (url: string, init: RequestInit = {}): Promise<Response> => {
+  const headers = new Headers(init.headers);
+  const token = getLaunchContext()?.token;
+  if (token) {
+    headers.set('Authorization', `Bearer ${token}`);
+  }
+  return fetch(url, { ...init, headers });
+};
+
+// Rejected request; reason is the backend's `error` label when the response had one
+export type HttpError = Error & { status: number; reason?: string };
+
+const toHttpError = async (response: Response): Promise<HttpError> => {
+  const body: { error?: string } | null = await response.json().catch(() => null);
+  return Object.assign(new Error(`HTTP ${response.status}: ${response.statusText}`), {
+    status: response.status,
+    reason: body?.error,
+  });
+};
+
+export const isHttpError = (error: unknown): error is HttpError =>
+  error instanceof Error && typeof (error as Partial<HttpError>).status === 'number';
+
 // ============================================================================
 // TYPE DEFINITIONS - Frontend Data Models
 // ============================================================================
 
-export interface Question {
+export type Difficulty = 'easy' | 'medium' | 'hard';
+
+export interface QuestionOption {
+  id: string;  // "A", "B", "C", "D"
+  text: string;
+}
+
+export type QuestionType = 'multiple-choice' | 'true-false' | 'short-answer' | 'multi-select';
+
+// Multi-select questions are answered with a list of option IDs
+export type AnswerValue = string | string[];
+
+export type ScoringMode = 'all-or-nothing' | 'partial';
+
+// Self-reported certainty per answer (calibration report)
+export type ConfidenceLevel = 'guess' | 'unsure' | 'sure';
+
+// Real code from the tutorial, shown above code comprehension questions
+export interface CodeSnippet {
+  language: string; // highlight.js language name, "plaintext" when unknown
+  snippet: string;
+}
+
+// Answer key & explanation stay on the backend until the quiz is submitted
+interface BaseQuestion {
   id: number;
   question: string;
-  options: Array<{
-    id: string;  // "A", "B", "C", "D"
-    text: string;
-  }>;
-  correctAnswer: string;  // "A", "B", "C", "D"
+  topic?: string; // Concept being tested, used to match questions across attempts
+  code?: CodeSnippet;
+  math?: boolean; // Text contains $...$ formulas (rendered with KaTeX)
+}
+
+export interface MultipleChoiceQuestion extends BaseQuestion {
+  type: 'multiple-choice';
+  options: QuestionOption[]; // A-D
+}
+
+export interface TrueFalseQuestion extends BaseQuestion {
+  type: 'true-false';
+  options: QuestionOption[]; // "true" / "false"
+}
+
+export interface ShortAnswerQuestion extends BaseQuestion {
+  type: 'short-answer';
+}
+
+export interface MultiSelectQuestion extends BaseQuestion {
+  type: 'multi-select';
+  options: QuestionOption[]; // A-D, one or more correct
+}
+
+export type Question = MultipleChoiceQuestion | TrueFalseQuestion | ShortAnswerQuestion | MultiSelectQuestion;
+
+export interface QuestionResult {
+  questionId: number;
+  type?: QuestionType; // Undefined for results saved before question types existed
+  question: string;
+  topic?: string; // Undefined for results saved before topics were generated
+  code?: CodeSnippet;
+  math?: boolean; // Text contains $...$ formulas (rendered with KaTeX)
+  options?: QuestionOption[]; // Not present for short-answer
+  userAnswer: AnswerValue;
+  correctAnswer: AnswerValue;  // Option ID(s), "true"/"false", or the expected short answer
+  acceptedAnswers?: string[]; // Alternative short answers also graded as correct
+  isCorrect: boolean;
+  credit?: number; // 0-1, below 1 but above 0 for partially correct multi-select
+  confidence?: ConfidenceLevel; // As rated by the learner, undefined when not rated
   explanation: string;
 }
 
+// Interaction data per question, captured while taking the quiz
+export interface QuestionTelemetry {
+  timeOnTaskMs: number;  // Time the question was on screen (visible tab only)
+  answerChanges: number; // Changes after the first answer
+  visits: number;        // Times the question was opened
+}
+
+export interface QuizTelemetry {
+  questions: Record<number, QuestionTelemetry>; // By question index
+  visitOrder: number[]; // Question indices in the order they were opened
+}
+
+// Counts of confidence vs. correctness (see lib/calibration.ts)
+export interface CalibrationSummary {
+  mastered: number;       // sure & correct
+  misconceptions: number; // sure & wrong
+  luckyGuesses: number;   // guess/unsure & correct
+  gaps: number;           // guess/unsure & wrong
+  unrated: number;
+}
+
+export interface GradedSubmission {
+  id: string;
+  sessionId: string;
+  score: {
+    correct: number;
+    points?: number; // Sum of credit, differs from `correct` with partial credit
+    total: number;
+    percentage: number; // 0-100
+  };
+  passed: boolean;
+  passingScore: number;
+  scoringMode?: ScoringMode;
+  calibration?: CalibrationSummary;
+  results: QuestionResult[];
+  deadline: string | null;
+  submittedLate: boolean; // Submitted after deadline + grace period
+  submittedAt: string;
+}
+
+export interface GeneratedQuestions {
+  sessionId: string; // Quiz session holding the answer key on the backend
+  questions: Question[];
+}
+
 export interface Tutorial {
   id: string;
   title: string;
@@ -29,6 +160,29 @@ export interface Tutorial {
   category?: string;
 }
 
+export interface QuizConfig {
+  questionCount: number;
+  timeLimitMinutes: number;
+  passingScore: number; // percentage 0-100
+  questionTypes: QuestionType[];
+  maxAttempts: number; // 0 = unlimited
+  startingDifficulty: Difficulty;
+  scoringMode: ScoringMode; // How multi-select questions are scored
+  codeQuestions: boolean; // Code comprehension questions from tutorial code blocks
+}
+
+// Used until the backend config arrives (or if it cannot be fetched)
+export const DEFAULT_QUIZ_CONFIG: QuizConfig = {
+  questionCount: 3,
+  timeLimitMinutes: 5,
+  passingScore: 80,
+  questionTypes: ['multiple-choice'],
+  maxAttempts: 0,
+  startingDifficulty: 'medium',
+  scoringMode: 'all-or-nothing',
+  codeQuestions: true
+};
+
 export interface UserPreferences {
   theme?: 'light' | 'dark';
   fontSize?: 'small' | 'default' | 'large';
@@ -36,15 +190,81 @@ export interface UserPreferences {
   language?: 'id' | 'en';
 }
 
+export const DEFAULT_USER_PREFERENCES: UserPreferences = {
+  theme: 'light',
+  fontSize: 'default',
+  layoutWidth: 'default',
+  language: 'id'
+};
+
+// Dicoding uses its own names for some values (fontSize "medium", layoutWidth "full"/"centered")
+const PREFERENCE_ALIASES: Record<string, Record<string, string>> = {
+  fontSize: { medium: 'default' },
+  layoutWidth: { full: 'fullWidth', centered: 'default' }
+};
+
+const PREFERENCE_VALUES: Record<keyof UserPreferences, string[]> = {
+  theme: ['light', 'dark'],
+  fontSize: ['small', 'default', 'large'],
+  layoutWidth: ['default', 'fullWidth'],
+  language: ['id', 'en']
+};
+
+/**
+ * Keep only the preferences this app understands, with Dicoding aliases mapped
+ */
+const normalizePreferences = (raw: unknown): UserPreferences => {
+  const source = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+  const preferences: Record<string, string> = {};
+
+  (Object.keys(PREFERENCE_VALUES) as (keyof UserPreferences)[]).forEach((key) => {
+    const value = typeof source[key] === 'string' ? source[key] as string : undefined;
+    const normalized = value && (PREFERENCE_ALIASES[key]?.[value] ?? value);
+    if (normalized && PREFERENCE_VALUES[key].includes(normalized)) {
+      preferences[key] = normalized;
+    }
+  });
+
+  return preferences as UserPreferences;
+};
+
 export interface GenerateQuestionsRequest {
   content: string;
-  difficulty?: 'easy' | 'medium' | 'hard';
+  difficulty?: Difficulty;
   questionCount?: number;
   language?: 'id' | 'en';
   tutorialTitle?: string;
   attemptNumber?: number; // For cache busting and variation
   previousScore?: number; // For adaptive difficulty (0-100)
-  userId?: string; // For personalized questions
+  questionTypes?: QuestionType[]; // Allowed (mixed) question formats
+  codeQuestions?: boolean; // Quote tutorial code in code comprehension questions
+}
+
+export interface QuizSessionTiming {
+  sessionId: string;
+  startedAt: string;
+  deadline: string;   // ISO deadline decided by the backend
+  serverTime: string; // Backend clock, used to correct client clock skew
+}
+
+// Learner and tutorial are never sent - the backend takes them from the launch token
+export interface SubmitAnswersRequest {
+  sessionId: string;
+  answers: Record<number, AnswerValue>;
+  confidence?: Record<number, ConfidenceLevel>;
+  telemetry?: QuizTelemetry;
+  queuedAt?: string; // Submitted offline at this time, replayed later by the outbox
+}
+
+// In-progress attempt stored by the backend for cross-device resume
+export interface RemoteDraft {
+  draft: unknown; // AssessmentState as saved by some device - validated before use
+  updatedAt: string;
+}
+
+export interface DraftSaveResult {
+  record: RemoteDraft; // Draft the server holds after the save
+  applied: boolean;    // false when the server already had a newer draft
 }
 
 // Backend response structure
@@ -76,7 +296,7 @@ export const apiService = {
    */
   async getTutorial(tutorialId: string): Promise<Tutorial> {
     try {
-      const response = await fetch(`${API_BASE_URL}/api/tutorials/${tutorialId}`);
+      const response = await authorizedFetch(`${API_BASE_URL}/api/tutorials/${tutorialId}`);
       
       if (!response.ok) {
         throw new Error(`HTTP ${response.status}: ${response.statusText}`);
@@ -94,6 +314,26 @@ export const apiService = {
     }
   },
 
+  /**
+   * Fetch quiz config (jumlah soal, durasi, passing score, dll) untuk tutorial
+   * @param tutorialId - Tutorial ID dari Dicoding
+   */
+  async getQuizConfig(tutorialId: string): Promise<QuizConfig> {
+    const response = await authorizedFetch(`${API_BASE_URL}/api/tutorials/${tutorialId}/quiz-config`);
+
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    const result: ApiResponse<QuizConfig> = await response.json();
+
+    if (!result.success || !result.data) {
+      throw new Error(result.error || 'Failed to fetch quiz config');
+    }
+
+    return { ...DEFAULT_QUIZ_CONFIG, ...result.data };
+  },
+
   /**
    * Fetch all tutorials dengan optional filtering
    */
@@ -109,7 +349,7 @@ export const apiService = {
       if (filters?.search) params.append('search', filters.search);
       
       const url = `${API_BASE_URL}/api/tutorials${params.toString() ? '?' + params.toString() : ''}`;
-      const response = await fetch(url);
+      const response = await authorizedFetch(url);
       
       if (!response.ok) {
         throw new Error(`HTTP ${response.status}: ${response.statusText}`);
@@ -127,33 +367,18 @@ export const apiService = {
   // ========================================================================
 
   /**
-   * Get user preferences untuk theme, font, layout
+   * Get user preferences untuk theme, font, layout, language
+   * Throws when unavailable - defaults must not overwrite the copy saved on the device
    */
   async getUserPreferences(userId: string): Promise<UserPreferences> {
-    try {
-      const response = await fetch(`${API_BASE_URL}/api/users/${userId}/preferences`);
-      
-      if (!response.ok) {
-        // Return default preferences if endpoint fails
-        return {
-          theme: 'light',
-          fontSize: 'default',
-          layoutWidth: 'default',
-          language: 'id'
-        };
-      }
-      
-      const result: ApiResponse<{ preference: UserPreferences }> = await response.json();
-      return result.data?.preference || {};
-    } catch (error) {
-      // Return defaults on error
-      return {
-        theme: 'light',
-        fontSize: 'default',
-        layoutWidth: 'default',
-        language: 'id'
-      };
+    const response = await authorizedFetch(`${API_BASE_URL}/api/users/${userId}/preferences`);
+
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
     }
+
+    const result: ApiResponse<{ preferences: unknown }> = await response.json();
+    return normalizePreferences(result.data?.preferences);
   },
 
   /**
@@ -161,7 +386,7 @@ export const apiService = {
    */
   async updateUserPreferences(userId: string, preferences: UserPreferences): Promise<UserPreferences> {
     try {
-      const response = await fetch(`${API_BASE_URL}/api/users/${userId}/preferences`, {
+      const response = await authorizedFetch(`${API_BASE_URL}/api/users/${userId}/preferences`, {
         method: 'PUT',
         headers: {
           'Content-Type': 'application/json',
@@ -170,11 +395,11 @@ export const apiService = {
       });
 
       if (!response.ok) {
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+        throw await toHttpError(response);
       }
 
-      const result: ApiResponse<{ preference: UserPreferences }> = await response.json();
-      return result.data?.preference || preferences;
+      const result: ApiResponse<{ preferences: unknown }> = await response.json();
+      return result.data?.preferences ? normalizePreferences(result.data.preferences) : preferences;
     } catch (error) {
       console.error('updateUserPreferences error:', error);
       throw error;
@@ -189,9 +414,9 @@ export const apiService = {
    * Generate questions via Backend API (MAIN METHOD)
    * Backend akan handle LLM service communication
    */
-  async generateQuestions(request: GenerateQuestionsRequest): Promise<ApiResponse<{ questions: Question[] }>> {
+  async generateQuestions(request: GenerateQuestionsRequest): Promise<ApiResponse<GeneratedQuestions>> {
     try {
-      const response = await fetch(`${API_BASE_URL}/api/llm/generate-questions`, {
+      const response = await authorizedFetch(`${API_BASE_URL}/api/llm/generate-questions`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -200,7 +425,10 @@ export const apiService = {
           content: request.content,
           difficulty: request.difficulty || 'medium',
           questionCount: request.questionCount || 3,
-          language: request.language || 'id'
+          language: request.language || 'id',
+          attemptNumber: request.attemptNumber || 0,
+          questionTypes: request.questionTypes || ['multiple-choice'],
+          codeQuestions: request.codeQuestions ?? true
         }),
       });
 
@@ -208,7 +436,7 @@ export const apiService = {
         throw new Error(`HTTP ${response.status}: ${response.statusText}`);
       }
 
-      const result: ApiResponse<{ questions: Question[] }> = await response.json();
+      const result: ApiResponse<GeneratedQuestions> = await response.json();
       return result;
     } catch (error) {
       console.error('❌ [API] generateQuestions error:', error);
@@ -216,6 +444,159 @@ export const apiService = {
     }
   },
 
+  // ========================================================================
+  // QUIZ SESSION ENDPOINTS
+  // ========================================================================
+
+  /**
+   * Start quiz session timer di backend
+   * Deadline hanya ditetapkan sekali - reload mendapatkan deadline yang sama
+   */
+  async startSession(sessionId: string, durationMinutes: number): Promise<QuizSessionTiming> {
+    const response = await authorizedFetch(`${API_BASE_URL}/api/sessions/${sessionId}/start`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ durationMinutes }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    const result: { data?: QuizSessionTiming } = await response.json();
+
+    if (!result.data) {
+      throw new Error('Invalid session start response');
+    }
+
+    return result.data;
+  },
+
+  // ========================================================================
+  // SUBMISSION ENDPOINTS
+  // ========================================================================
+
+  /**
+   * Submit answers untuk dinilai di backend
+   * Kunci jawaban & penjelasan baru dikirim setelah submit
+   */
+  async submitAnswers(request: SubmitAnswersRequest): Promise<GradedSubmission> {
+    try {
+      const response = await authorizedFetch(`${API_BASE_URL}/api/submissions`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(request),
+      });
+
+      if (!response.ok) {
+        throw await toHttpError(response);
+      }
+
+      const result: { data?: GradedSubmission } = await response.json();
+
+      if (!result.data) {
+        throw new Error('Invalid submission response');
+      }
+
+      return result.data;
+    } catch (error) {
+      console.error('❌ [API] submitAnswers error:', error);
+      throw error;
+    }
+  },
+
+  // ========================================================================
+  // HISTORY SYNC ENDPOINTS
+  // ========================================================================
+
+  /**
+   * Upload attempts changed on this device
+   * @returns Merged server history (unvalidated - see mergeAttemptHistory)
+   */
+  async syncAttemptHistory(userId: string, tutorialId: string, attempts: AttemptHistoryEntry[]): Promise<unknown[]> {
+    const response = await authorizedFetch(`${API_BASE_URL}/api/users/${userId}/history/${tutorialId}`, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ attempts }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    const result: { data?: unknown[] } = await response.json();
+
+    if (!Array.isArray(result.data)) {
+      throw new Error('Invalid history sync response');
+    }
+
+    return result.data;
+  },
+
+  /**
+   * Fetch the in-progress draft saved by any device
+   * @returns null when the server has no draft
+   */
+  async getDraft(userId: string, tutorialId: string): Promise<RemoteDraft | null> {
+    const response = await authorizedFetch(`${API_BASE_URL}/api/users/${userId}/drafts/${tutorialId}`);
+
+    if (response.status === 404) {
+      return null;
+    }
+
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    const result: { data?: RemoteDraft } = await response.json();
+    return result.data ?? null;
+  },
+
+  /**
+   * Save the in-progress draft; the server keeps whichever draft changed last
+   */
+  async saveDraft(userId: string, tutorialId: string, draft: AssessmentState): Promise<DraftSaveResult> {
+    const response = await authorizedFetch(`${API_BASE_URL}/api/users/${userId}/drafts/${tutorialId}`, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ draft, updatedAt: draft.lastUpdated }),
+    });
+
+    // 409: a newer draft from another device is kept and returned
+    if (!response.ok && response.status !== 409) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    const result: { data?: RemoteDraft; applied?: boolean } = await response.json();
+
+    if (!result.data) {
+      throw new Error('Invalid draft save response');
+    }
+
+    return { record: result.data, applied: Boolean(result.applied) };
+  },
+
+  /**
+   * Remove the server draft (attempt submitted or abandoned)
+   */
+  async deleteDraft(userId: string, tutorialId: string): Promise<void> {
+    const response = await authorizedFetch(`${API_BASE_URL}/api/users/${userId}/drafts/${tutorialId}`, {
+      method: 'DELETE',
+    });
+
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+  },
+
   // ========================================================================
   // HEALTH CHECK ENDPOINTS
   // ========================================================================
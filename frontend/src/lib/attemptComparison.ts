@@ -0,0 +1,123 @@
+/**
+ * Attempt comparison utilities for LearnCheck
+ * Every attempt gets freshly generated questions, so results are matched by
+ * topic (falling back to identical question text for results without a topic)
+ * instead of by question position
+ */
+
+import type { Difficulty, QuestionResult } from './api';
+import type { AttemptHistoryEntry } from './storage';
+
+export type TopicTrend = 'improved' | 'regressed' | 'unchanged';
+
+export interface TopicComparison {
+  key: string;
+  label: string;
+  base: number; // Average credit (0-1) in the older attempt
+  target: number; // Average credit (0-1) in the newer attempt
+  trend: TopicTrend;
+}
+
+export interface AttemptComparison {
+  percentageDelta: number; // Percentage points, newer minus older
+  difficulty: { from: Difficulty; to: Difficulty; change: number }; // change: -1 easier, 0 same, 1 harder
+  timeSpentMs: { base: number | null; target: number | null }; // null when telemetry was not recorded
+  matched: TopicComparison[];
+  onlyInBase: string[]; // Topic labels only tested in the older attempt
+  onlyInTarget: string[]; // Topic labels only tested in the newer attempt
+}
+
+const DIFFICULTY_ORDER: Difficulty[] = ['easy', 'medium', 'hard'];
+
+/**
+ * Percentage of an attempt (legacy entries do not store it)
+ */
+export const getAttemptPercentage = (attempt: AttemptHistoryEntry): number =>
+  attempt.percentage ?? Math.round((attempt.score / attempt.totalQuestions) * 100);
+
+/**
+ * Total time on task, null when the attempt has no telemetry
+ */
+export const getAttemptTimeSpent = (attempt: AttemptHistoryEntry): number | null => {
+  if (!attempt.telemetry) {
+    return null;
+  }
+
+  return Object.values(attempt.telemetry.questions)
+    .reduce((total, question) => total + question.timeOnTaskMs, 0);
+};
+
+const normalizeKey = (text: string) => text.toLowerCase().replace(/\s+/g, ' ').trim();
+
+/**
+ * Average credit per topic, keyed by the normalized topic (or question text)
+ */
+const groupByTopic = (results: QuestionResult[]) => {
+  const groups = new Map<string, { label: string; credits: number[] }>();
+
+  results.forEach((result) => {
+    const label = result.topic || result.question;
+    const key = result.topic ? `topic:${normalizeKey(result.topic)}` : `question:${normalizeKey(result.question)}`;
+    const credit = result.credit ?? (result.isCorrect ? 1 : 0);
+
+    const group = groups.get(key) ?? { label, credits: [] };
+    group.credits.push(credit);
+    groups.set(key, group);
+  });
+
+  return new Map(
+    [...groups].map(([key, { label, credits }]) => [
+      key,
+      { label, average: credits.reduce((sum, credit) => sum + credit, 0) / credits.length },
+    ])
+  );
+};
+
+/**
+ * Compare an older attempt (base) with a newer one (target)
+ */
+export const compareAttempts = (base: AttemptHistoryEntry, target: AttemptHistoryEntry): AttemptComparison => {
+  const baseTopics = groupByTopic(base.results ?? []);
+  const targetTopics = groupByTopic(target.results ?? []);
+
+  const matched: TopicComparison[] = [];
+  const onlyInBase: string[] = [];
+
+  baseTopics.forEach((baseTopic, key) => {
+    const targetTopic = targetTopics.get(key);
+    if (!targetTopic) {
+      onlyInBase.push(baseTopic.label);
+      return;
+    }
+
+    const delta = targetTopic.average - baseTopic.average;
+    matched.push({
+      key,
+      label: targetTopic.label,
+      base: baseTopic.average,
+      target: targetTopic.average,
+      trend: delta > 0 ? 'improved' : delta < 0 ? 'regressed' : 'unchanged',
+    });
+  });
+
+  const onlyInTarget = [...targetTopics]
+    .filter(([key]) => !baseTopics.has(key))
+    .map(([, topic]) => topic.label);
+
+  // Regressions first: those are what the learner should revisit
+  const trendOrder: Record<TopicTrend, number> = { regressed: 0, improved: 1, unchanged: 2 };
+  matched.sort((a, b) => trendOrder[a.trend] - trendOrder[b.trend]);
+
+  return {
+    percentageDelta: getAttemptPercentage(target) - getAttemptPercentage(base),
+    difficulty: {
+      from: base.difficulty,
+      to: target.difficulty,
+      change: Math.sign(DIFFICULTY_ORDER.indexOf(target.difficulty) - DIFFICULTY_ORDER.indexOf(base.difficulty)),
+    },
+    timeSpentMs: { base: getAttemptTimeSpent(base), target: getAttemptTimeSpent(target) },
+    matched,
+    onlyInBase,
+    onlyInTarget,
+  };
+};
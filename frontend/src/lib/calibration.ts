@@ -0,0 +1,50 @@
+/**
+ * Calibration utilities for LearnCheck
+ * Compares self-reported confidence with correctness so confident-but-wrong
+ * answers (misconceptions) stand out from lucky guesses
+ */
+
+import type { CalibrationSummary, ConfidenceLevel, QuestionResult } from './api';
+
+export type CalibrationCategory = Exclude<keyof CalibrationSummary, 'unrated'>;
+
+export const CONFIDENCE_LEVELS: ConfidenceLevel[] = ['guess', 'unsure', 'sure'];
+
+// Display order; labels are the `calibration.<category>.label/description` messages
+export const CALIBRATION_CATEGORIES: CalibrationCategory[] = ['misconceptions', 'luckyGuesses', 'gaps', 'mastered'];
+
+/**
+ * Category of a single graded answer, null when confidence was not rated
+ */
+export const getCalibrationCategory = (result: QuestionResult): CalibrationCategory | null => {
+  if (!result.confidence) {
+    return null;
+  }
+
+  if (result.confidence === 'sure') {
+    return result.isCorrect ? 'mastered' : 'misconceptions';
+  }
+
+  return result.isCorrect ? 'luckyGuesses' : 'gaps';
+};
+
+/**
+ * Question numbers (1-based) per calibration category
+ */
+export const groupByCalibration = (results: QuestionResult[]): Record<CalibrationCategory, number[]> => {
+  const groups: Record<CalibrationCategory, number[]> = {
+    mastered: [],
+    misconceptions: [],
+    luckyGuesses: [],
+    gaps: [],
+  };
+
+  results.forEach((result, index) => {
+    const category = getCalibrationCategory(result);
+    if (category) {
+      groups[category].push(index + 1);
+    }
+  });
+
+  return groups;
+};
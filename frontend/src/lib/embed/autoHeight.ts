@@ -0,0 +1,49 @@
+/**
+ * Iframe auto height
+ * Reports the height of the app's content to the host (`resize` event) so
+ * the host can size the iframe to fit - no inner scrollbars, no clipping
+ * when switching between the intro, the questions and a long result list.
+ */
+
+import { isEmbedded, postToHost } from './channel';
+
+// Layout animations and typing resize the page many times per second
+const REPORT_DELAY_MS = 100;
+// Full-viewport minimums (min-h-screen) would keep the iframe from ever shrinking - see index.css
+const AUTO_HEIGHT_CLASS = 'embed-auto-height';
+
+/**
+ * Observe the element and report its height whenever it settles
+ * @returns stop function (no-op when not embedded or unsupported)
+ */
+export const startHeightReporter = (element: HTMLElement, delay = REPORT_DELAY_MS): (() => void) => {
+  if (!isEmbedded() || typeof ResizeObserver === 'undefined') {
+    return () => undefined;
+  }
+
+  document.documentElement.classList.add(AUTO_HEIGHT_CLASS);
+
+  let lastHeight = 0;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const report = () => {
+    timer = undefined;
+    const height = Math.ceil(element.getBoundingClientRect().height);
+    if (height !== lastHeight) {
+      lastHeight = height;
+      postToHost({ type: 'resize', payload: { height } });
+    }
+  };
+
+  const observer = new ResizeObserver(() => {
+    clearTimeout(timer);
+    timer = setTimeout(report, delay);
+  });
+  observer.observe(element);
+
+  return () => {
+    observer.disconnect();
+    clearTimeout(timer);
+    document.documentElement.classList.remove(AUTO_HEIGHT_CLASS);
+  };
+};
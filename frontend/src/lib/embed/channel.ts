@@ -0,0 +1,100 @@
+/**
+ * Connection to the page embedding LearnCheck
+ * Events are posted only to the host origin, never to '*'. That origin is
+ * taken from the browser (ancestorOrigins / referrer) when it is on the
+ * allowlist, or from the first valid command the host sends. Events emitted
+ * before it is known are held back and delivered once it is.
+ */
+
+import {
+  createEnvelope,
+  isAllowedHostOrigin,
+  parseEmbedCommand,
+  type EmbedCommand,
+  type EmbedEvent,
+} from './protocol';
+
+const MAX_PENDING_EVENTS = 20;
+
+type CommandListener = (command: EmbedCommand) => void;
+
+const listeners = new Set<CommandListener>();
+const pendingEvents: EmbedEvent[] = [];
+let hostOrigin: string | null = null;
+
+export const isEmbedded = (): boolean => typeof window !== 'undefined' && window.parent !== window;
+
+const detectHostOrigin = (): string | null => {
+  const candidates = [window.location.ancestorOrigins?.[0]];
+  try {
+    candidates.push(document.referrer ? new URL(document.referrer).origin : undefined);
+  } catch {
+    // Malformed referrer - rely on the host's connect command
+  }
+
+  return candidates.find(origin => origin && isAllowedHostOrigin(origin)) ?? null;
+};
+
+const deliver = (event: EmbedEvent, origin: string) => {
+  window.parent.postMessage(createEnvelope(event), origin);
+};
+
+/**
+ * Send a lifecycle event to the host (no-op when not embedded)
+ */
+export const postToHost = (event: EmbedEvent): void => {
+  if (!isEmbedded()) {
+    return;
+  }
+
+  hostOrigin ??= detectHostOrigin();
+  if (!hostOrigin) {
+    pendingEvents.push(event);
+    if (pendingEvents.length > MAX_PENDING_EVENTS) {
+      pendingEvents.shift();
+    }
+    return;
+  }
+
+  deliver(event, hostOrigin);
+};
+
+const handleMessage = (event: MessageEvent) => {
+  // Only the direct parent, and only from an allowed origin
+  if (event.source !== window.parent || !isAllowedHostOrigin(event.origin)) {
+    return;
+  }
+
+  const command = parseEmbedCommand(event.data);
+  if (!command) {
+    return;
+  }
+
+  if (!hostOrigin) {
+    hostOrigin = event.origin;
+    pendingEvents.splice(0).forEach(pending => deliver(pending, event.origin));
+  }
+
+  listeners.forEach(listener => listener(command));
+};
+
+/**
+ * Listen for host commands; the window listener is attached while anyone subscribes
+ */
+export const subscribeHostCommands = (listener: CommandListener): (() => void) => {
+  if (!isEmbedded()) {
+    return () => undefined;
+  }
+
+  if (listeners.size === 0) {
+    window.addEventListener('message', handleMessage);
+  }
+  listeners.add(listener);
+
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size === 0) {
+      window.removeEventListener('message', handleMessage);
+    }
+  };
+};
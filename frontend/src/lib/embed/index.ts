@@ -0,0 +1,9 @@
+/**
+ * Embedding LearnCheck in a host page (Dicoding Classroom)
+ * See ./protocol.ts for the message format, ./channel.ts for delivery and
+ * ./autoHeight.ts for iframe height reporting.
+ */
+
+export * from './protocol';
+export { isEmbedded, postToHost, subscribeHostCommands } from './channel';
+export { startHeightReporter } from './autoHeight';
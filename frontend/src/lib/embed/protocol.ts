@@ -0,0 +1,101 @@
+/**
+ * postMessage protocol between LearnCheck (iframe) and its host page
+ * Every message is an envelope { protocol: 'learncheck', version, type, payload }.
+ * Messages with another protocol name or version are ignored, so the host and
+ * the quiz can be upgraded independently - bump EMBED_PROTOCOL_VERSION on
+ * breaking payload changes and keep the README host snippet in sync.
+ */
+
+import { z } from 'zod';
+import type { Difficulty } from '../api';
+import type { Locale } from '../i18n';
+
+export const EMBED_PROTOCOL = 'learncheck';
+export const EMBED_PROTOCOL_VERSION = 1;
+
+// Dicoding Classroom; override with VITE_EMBED_HOST_ORIGINS (comma-separated, `*.` wildcard allowed)
+const DEFAULT_HOST_ORIGINS = ['https://dicoding.com', 'https://*.dicoding.com'];
+
+/**
+ * Lifecycle events sent to the host
+ * Answers themselves are never sent - only progress
+ */
+export type EmbedEvent =
+  | { type: 'ready'; payload: { tutorialId: string; userId: string; locale: Locale } }
+  | {
+      type: 'started';
+      payload: { sessionId: string; attemptNumber: number; totalQuestions: number; difficulty: Difficulty; deadline: string | null };
+    }
+  | { type: 'answered'; payload: { questionIndex: number; answeredCount: number; totalQuestions: number } }
+  | {
+      type: 'submitted';
+      payload: { submissionId: string; attemptNumber: number; correct: number; total: number; percentage: number; passed: boolean };
+    }
+  | { type: 'exited'; payload: { completed: boolean } }
+  // Content height in CSS pixels, debounced (see ./autoHeight.ts)
+  | { type: 'resize'; payload: { height: number } };
+
+/**
+ * Commands accepted from the host (validated by commandSchema below)
+ */
+export type EmbedCommand =
+  // Host announces itself - needed when the browser hides the embedding page (no referrer)
+  | { type: 'connect'; payload: Record<string, never> }
+  | { type: 'setTheme'; payload: { theme: 'light' | 'dark' } }
+  // Submit the current attempt now (e.g. the host closes the lesson)
+  | { type: 'submit'; payload: Record<string, never> };
+
+// Mirrors EmbedCommand - update both together
+const commandSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('connect'), payload: z.object({}).default({}) }),
+  z.object({ type: z.literal('setTheme'), payload: z.object({ theme: z.enum(['light', 'dark']) }) }),
+  z.object({ type: z.literal('submit'), payload: z.object({}).default({}) }),
+]);
+
+const envelopeSchema = z.object({
+  protocol: z.literal(EMBED_PROTOCOL),
+  version: z.literal(EMBED_PROTOCOL_VERSION),
+}).passthrough();
+
+export const createEnvelope = (event: EmbedEvent) => ({
+  protocol: EMBED_PROTOCOL,
+  version: EMBED_PROTOCOL_VERSION,
+  ...event,
+});
+
+/**
+ * Validate a message from the host; null for anything that is not a known
+ * command of this protocol version (other scripts on the page post messages too)
+ */
+export const parseEmbedCommand = (data: unknown): EmbedCommand | null => {
+  if (!envelopeSchema.safeParse(data).success) {
+    return null;
+  }
+
+  const command = commandSchema.safeParse(data);
+  return command.success ? (command.data as EmbedCommand) : null;
+};
+
+export const getAllowedHostOrigins = (): string[] => {
+  const configured = (import.meta.env.VITE_EMBED_HOST_ORIGINS as string | undefined) ?? '';
+  const origins = configured.split(',').map(origin => origin.trim()).filter(Boolean);
+  return origins.length > 0 ? origins : DEFAULT_HOST_ORIGINS;
+};
+
+const matchesOrigin = (pattern: string, origin: string): boolean => {
+  if (pattern === origin) {
+    return true;
+  }
+
+  // https://*.example.com matches any subdomain, but not example.com itself
+  const [scheme, domain] = pattern.split('://*.');
+  if (!domain) {
+    return false;
+  }
+
+  const host = origin.slice(scheme.length + 3);
+  return origin.startsWith(`${scheme}://`) && host.endsWith(`.${domain}`) && !host.includes('/');
+};
+
+export const isAllowedHostOrigin = (origin: string, allowed = getAllowedHostOrigins()): boolean =>
+  allowed.some(pattern => matchesOrigin(pattern, origin));
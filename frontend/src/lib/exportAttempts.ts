@@ -0,0 +1,261 @@
+/**
+ * Attempt history export for LearnCheck
+ * CSV (one row per question), full JSON dump, and a print-optimized review
+ * sheet that the browser can save as PDF
+ */
+
+import type { AnswerValue, QuestionResult } from './api';
+import type { AttemptHistoryEntry } from './storage';
+import { getAttemptPercentage } from './attemptComparison';
+import { createFormatters, type Formatters, type Locale } from './i18n';
+
+export type ExportFormat = 'csv' | 'json' | 'pdf';
+
+export interface ExportContext {
+  userId: string;
+  tutorialId: string;
+  tutorialTitle: string;
+  locale: Locale; // Language of the review sheet
+}
+
+const CSV_COLUMNS = [
+  'attempt',
+  'timestamp',
+  'difficulty',
+  'percentage',
+  'passed',
+  'question_number',
+  'type',
+  'topic',
+  'question',
+  'user_answer',
+  'correct_answer',
+  'is_correct',
+  'credit',
+  'confidence',
+  'explanation',
+];
+
+/**
+ * Readable answer: option IDs become "B. Option text", lists are joined
+ */
+export const formatAnswer = (result: QuestionResult, answer: AnswerValue): string => {
+  const ids = (Array.isArray(answer) ? answer : [answer]).filter(Boolean);
+  if (ids.length === 0) {
+    return '';
+  }
+
+  if (!result.options) {
+    return ids.join(', '); // Short answer
+  }
+
+  return ids
+    .map((id) => {
+      const option = result.options?.find((opt) => opt.id === id);
+      return option ? `${id}. ${option.text}` : id;
+    })
+    .join('; ');
+};
+
+const formatCorrectAnswer = (result: QuestionResult) => {
+  const correct = formatAnswer(result, result.correctAnswer);
+  return result.acceptedAnswers?.length ? `${correct} (${result.acceptedAnswers.join(', ')})` : correct;
+};
+
+const escapeCsvCell = (value: string | number | boolean | undefined) => {
+  const text = value === undefined ? '' : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * CSV with one row per question; legacy attempts without results get a single summary row
+ */
+export const buildAttemptsCsv = (attempts: AttemptHistoryEntry[]): string => {
+  const rows = attempts.flatMap((attempt) => {
+    const attemptCells = [
+      attempt.attemptNumber,
+      attempt.timestamp,
+      attempt.difficulty,
+      getAttemptPercentage(attempt),
+      attempt.passed,
+    ];
+
+    if (!attempt.results) {
+      return [[...attemptCells, '', '', '', '', '', '', '', '', '', '']];
+    }
+
+    return attempt.results.map((result, index) => [
+      ...attemptCells,
+      index + 1,
+      result.type ?? 'multiple-choice',
+      result.topic,
+      result.question,
+      formatAnswer(result, result.userAnswer),
+      formatCorrectAnswer(result),
+      result.isCorrect,
+      result.credit ?? (result.isCorrect ? 1 : 0),
+      result.confidence,
+      result.explanation,
+    ]);
+  });
+
+  // BOM so spreadsheet apps open the UTF-8 file with the right encoding
+  return '\uFEFF' + [CSV_COLUMNS, ...rows]
+    .map((row) => row.map(escapeCsvCell).join(','))
+    .join('\r\n');
+};
+
+/**
+ * Full JSON dump of the history, including questions, answers and telemetry
+ */
+export const buildAttemptsJson = (attempts: AttemptHistoryEntry[], context: ExportContext): string =>
+  JSON.stringify(
+    {
+      exportedAt: new Date().toISOString(),
+      ...context,
+      attempts,
+    },
+    null,
+    2
+  );
+
+const escapeHtml = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+// Messages mark emphasis as *text* (see lib/i18n/messages)
+const renderEmphasis = (message: string) =>
+  escapeHtml(message).replace(/\*([^*]+)\*/g, '<strong>$1</strong>');
+
+const renderResultHtml = ({ t }: Formatters, result: QuestionResult, index: number) => {
+  const status = result.isCorrect
+    ? `<span class="status correct">${t('export.sheet.correct')}</span>`
+    : (result.credit ?? 0) > 0
+    ? `<span class="status partial">${t('export.sheet.partial', { percentage: Math.round((result.credit ?? 0) * 100) })}</span>`
+    : `<span class="status wrong">${t('export.sheet.wrong')}</span>`;
+
+  return `
+    <section class="question">
+      <h3>${t('common.question', { number: index + 1 })} ${status}</h3>
+      ${result.topic ? `<p class="topic">${escapeHtml(t('export.sheet.topic', { topic: result.topic }))}</p>` : ''}
+      <p class="text">${escapeHtml(result.question)}</p>
+      ${result.code ? `<pre>${escapeHtml(result.code.snippet)}</pre>` : ''}
+      <dl>
+        <dt>${t('common.yourAnswer')}</dt><dd>${escapeHtml(formatAnswer(result, result.userAnswer)) || `<em>${t('common.unanswered')}</em>`}</dd>
+        <dt>${t('common.correctAnswer')}</dt><dd>${escapeHtml(formatCorrectAnswer(result))}</dd>
+        ${result.confidence ? `<dt>${t('export.sheet.confidence')}</dt><dd>${t(`confidence.${result.confidence}`)}</dd>` : ''}
+        <dt>${t('common.explanation')}</dt><dd class="text">${escapeHtml(result.explanation)}</dd>
+      </dl>
+    </section>`;
+};
+
+const renderAttemptHtml = (formatters: Formatters, attempt: AttemptHistoryEntry) => {
+  const { t, formatDate } = formatters;
+  const passed = attempt.passed === undefined
+    ? ''
+    : `&middot; ${t(attempt.passed ? 'common.passed' : 'common.notPassed')}`;
+
+  return `
+  <article class="attempt">
+    <h2>${t('common.attempt', { number: attempt.attemptNumber })}</h2>
+    <p class="meta">
+      ${formatDate(attempt.timestamp, 'long')} &middot; ${t('export.sheet.difficulty', { difficulty: t(`difficulty.${attempt.difficulty}`) })} &middot;
+      ${renderEmphasis(t('export.sheet.score', {
+        percentage: getAttemptPercentage(attempt),
+        score: attempt.score,
+        total: attempt.totalQuestions,
+      }))}
+      ${passed}
+    </p>
+    ${attempt.results
+      ? attempt.results.map((result, index) => renderResultHtml(formatters, result, index)).join('')
+      : `<p><em>${t('export.sheet.noDetail')}</em></p>`}
+  </article>`;
+};
+
+/**
+ * Standalone HTML review sheet, styled for printing (A4, no app chrome)
+ */
+export const buildReviewSheetHtml = (attempts: AttemptHistoryEntry[], context: ExportContext): string => {
+  const formatters = createFormatters(context.locale);
+  const { t, formatDate } = formatters;
+
+  return `<!DOCTYPE html>
+<html lang="${context.locale}">
+<head>
+<meta charset="utf-8">
+<title>LearnCheck - ${escapeHtml(context.tutorialTitle)}</title>
+<style>
+  @page { size: A4; margin: 16mm; }
+  body { font-family: system-ui, -apple-system, "Segoe UI", sans-serif; font-size: 11pt; color: #111; line-height: 1.45; }
+  h1 { font-size: 16pt; margin: 0 0 4px; }
+  h2 { font-size: 13pt; margin: 0 0 4px; }
+  h3 { font-size: 11pt; margin: 0 0 6px; }
+  .meta, .topic { color: #555; font-size: 9.5pt; margin: 0 0 10px; }
+  .attempt { break-before: page; }
+  .attempt:first-of-type { break-before: auto; margin-top: 16px; }
+  .question { break-inside: avoid; border: 1px solid #ddd; border-radius: 6px; padding: 10px 12px; margin-bottom: 10px; }
+  .text { white-space: pre-wrap; }
+  pre { background: #f5f5f5; padding: 8px; border-radius: 4px; font-size: 9pt; white-space: pre-wrap; }
+  dl { display: grid; grid-template-columns: 120px 1fr; gap: 4px 8px; margin: 8px 0 0; }
+  dt { font-weight: 600; }
+  dd { margin: 0; }
+  .status { font-size: 9pt; font-weight: 600; padding: 1px 6px; border-radius: 999px; border: 1px solid; margin-left: 6px; }
+  .correct { color: #15803d; }
+  .partial { color: #b45309; }
+  .wrong { color: #b91c1c; }
+</style>
+</head>
+<body>
+  <h1>${escapeHtml(context.tutorialTitle)}</h1>
+  <p class="meta">${escapeHtml(t('export.sheet.user', { userId: context.userId }))} &middot; ${t('export.sheet.exportedAt', { date: formatDate(new Date().toISOString(), 'long') })}</p>
+  ${attempts.map((attempt) => renderAttemptHtml(formatters, attempt)).join('')}
+</body>
+</html>`;
+};
+
+const getExportFilename = (context: ExportContext, extension: string) => {
+  const slug = context.tutorialTitle.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || context.tutorialId;
+  return `learncheck-${slug}-${new Date().toISOString().slice(0, 10)}.${extension}`;
+};
+
+const downloadFile = (filename: string, content: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Export attempts in the chosen format. PDF opens the review sheet in a new
+ * window and triggers the print dialog ("Save as PDF")
+ * @throws Error when the print window is blocked by the browser
+ */
+export const exportAttempts = (format: ExportFormat, attempts: AttemptHistoryEntry[], context: ExportContext) => {
+  if (format === 'csv') {
+    downloadFile(getExportFilename(context, 'csv'), buildAttemptsCsv(attempts), 'text/csv;charset=utf-8');
+    return;
+  }
+
+  if (format === 'json') {
+    downloadFile(getExportFilename(context, 'json'), buildAttemptsJson(attempts, context), 'application/json');
+    return;
+  }
+
+  const printWindow = window.open('', '_blank');
+  if (!printWindow) {
+    throw new Error('Popup diblokir browser');
+  }
+
+  printWindow.document.write(buildReviewSheetHtml(attempts, context));
+  printWindow.document.close();
+  printWindow.focus();
+  printWindow.print();
+};
@@ -0,0 +1,14 @@
+import { createContext } from 'react';
+import { createFormatters, DEFAULT_LOCALE, type Formatters, type Locale } from './index';
+
+export interface I18nContextValue extends Formatters {
+  locale: Locale;
+  setLocale: (locale: Locale) => void;
+}
+
+// Components rendered outside I18nProvider still get the default locale
+export const I18nContext = createContext<I18nContextValue>({
+  locale: DEFAULT_LOCALE,
+  setLocale: () => undefined,
+  ...createFormatters(DEFAULT_LOCALE),
+});
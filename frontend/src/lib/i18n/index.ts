@@ -0,0 +1,96 @@
+/**
+ * Internationalization for LearnCheck
+ * Message catalogs (Indonesian is the source catalog, English must cover
+ * every key), `{name}` interpolation, simple plurals and locale-aware date,
+ * number and duration formatting. React components use the useI18n hook;
+ * plain modules (e.g. exportAttempts) call translate/createFormatters directly.
+ */
+
+import { id, type MessageKey } from './messages/id';
+import { en } from './messages/en';
+
+export type { MessageKey } from './messages/id';
+
+export type Locale = 'id' | 'en';
+
+export const LOCALES: Locale[] = ['id', 'en'];
+export const DEFAULT_LOCALE: Locale = 'id';
+
+const CATALOGS: Record<Locale, Record<MessageKey, string>> = { id, en };
+
+// BCP 47 tags for Intl formatting
+const LOCALE_TAGS: Record<Locale, string> = {
+  id: 'id-ID',
+  en: 'en-US',
+};
+
+export type MessageParams = Record<string, string | number>;
+export type Translator = (key: MessageKey, params?: MessageParams) => string;
+
+/**
+ * Locale for a stored language preference; unknown values fall back to the default
+ */
+export const resolveLocale = (language: string | null | undefined): Locale =>
+  LOCALES.includes(language as Locale) ? (language as Locale) : DEFAULT_LOCALE;
+
+export const getLocaleTag = (locale: Locale): string => LOCALE_TAGS[locale];
+
+/**
+ * Message for a key. Messages with a `count` param may list plural forms
+ * separated by "|" (one|other, picked with Intl.PluralRules); `{name}`
+ * placeholders are replaced by params, numbers formatted for the locale.
+ */
+export const translate = (locale: Locale, key: MessageKey, params: MessageParams = {}): string => {
+  let message = CATALOGS[locale][key] ?? CATALOGS[DEFAULT_LOCALE][key] ?? key;
+
+  if (message.includes('|') && typeof params.count === 'number') {
+    const [one, other = one] = message.split('|');
+    message = new Intl.PluralRules(LOCALE_TAGS[locale]).select(params.count) === 'one' ? one : other;
+  }
+
+  return message.replace(/\{(\w+)\}/g, (placeholder, name: string) => {
+    const value = params[name];
+    if (value === undefined) {
+      return placeholder;
+    }
+    return typeof value === 'number' ? value.toLocaleString(LOCALE_TAGS[locale]) : value;
+  });
+};
+
+export type DateStyle = 'short' | 'long';
+
+const DATE_OPTIONS: Record<DateStyle, Intl.DateTimeFormatOptions> = {
+  short: { day: 'numeric', month: 'short', year: 'numeric', hour: '2-digit', minute: '2-digit' },
+  long: { day: 'numeric', month: 'long', year: 'numeric', hour: '2-digit', minute: '2-digit' },
+};
+
+export interface Formatters {
+  t: Translator;
+  formatDate: (timestamp: string, style?: DateStyle) => string;
+  formatNumber: (value: number, options?: Intl.NumberFormatOptions) => string;
+  formatDuration: (ms: number) => string;
+}
+
+/**
+ * Translator and formatters bound to one locale
+ */
+export const createFormatters = (locale: Locale): Formatters => {
+  const tag = LOCALE_TAGS[locale];
+  const t: Translator = (key, params) => translate(locale, key, params);
+
+  return {
+    t,
+    formatDate: (timestamp, style = 'short') =>
+      new Date(timestamp).toLocaleDateString(tag, DATE_OPTIONS[style]),
+    formatNumber: (value, options) => value.toLocaleString(tag, options),
+    // Compact duration label, e.g. "2m 5d" (menit/detik) or "2m 5s"
+    formatDuration: (ms) => {
+      const totalSeconds = Math.round(ms / 1000);
+      const minutes = Math.floor(totalSeconds / 60);
+      const seconds = totalSeconds % 60;
+      return minutes > 0
+        ? t('duration.minutesSeconds', { minutes, seconds })
+        : t('duration.seconds', { seconds });
+    },
+  };
+};
@@ -0,0 +1,272 @@
+import type { MessageKey } from './id';
+
+/**
+ * English messages - must cover every key of the Indonesian source catalog
+ */
+export const en: Record<MessageKey, string> = {
+  // Shared
+  'common.back': 'Back',
+  'common.backToHistory': 'Back to History',
+  'common.flagged': 'Flagged',
+  'common.question': 'Question {number}',
+  'common.category': 'Category: {title}',
+  'common.totalQuestions': 'Total questions',
+  'common.score': 'Score',
+  'common.passed': 'Passed',
+  'common.notPassed': 'Not Passed',
+  'common.yourAnswer': 'Your answer',
+  'common.correctAnswer': 'Correct answer',
+  'common.unanswered': 'Not answered',
+  'common.explanation': 'Explanation',
+  'common.attempt': 'Attempt {number}',
+  'common.loading': 'Loading...',
+
+  'duration.minutesSeconds': '{minutes}m {seconds}s',
+  'duration.seconds': '{seconds}s',
+
+  'difficulty.easy': 'Easy',
+  'difficulty.medium': 'Medium',
+  'difficulty.hard': 'Hard',
+
+  'confidence.prompt': 'How sure are you of your answer?',
+  'confidence.guess': 'Guessing',
+  'confidence.unsure': 'Unsure',
+  'confidence.sure': 'Sure',
+
+  'calibration.title': 'Confidence Calibration',
+  'calibration.summary': 'How your confidence compares with the correctness of your answers ({rated} of {total} questions rated).',
+  'calibration.misconceptionWarning': 'You were sure but wrong on question {questions}. Review the explanations, as this may point to a misconception.|You were sure but wrong on questions {questions}. Review the explanations, as this may point to a misconception.',
+  'calibration.questions': 'Questions: {questions}',
+  'calibration.misconceptions.label': 'Sure but wrong',
+  'calibration.misconceptions.description': 'Possible misconception - study this material again',
+  'calibration.luckyGuesses.label': 'Lucky guesses',
+  'calibration.luckyGuesses.description': 'Correct, but not sure yet - strengthen your understanding',
+  'calibration.gaps.label': 'Not understood yet',
+  'calibration.gaps.description': 'Wrong, and you knew you were unsure',
+  'calibration.mastered.label': 'Mastered',
+  'calibration.mastered.description': 'Sure and correct',
+
+  // Quiz header & progress
+  'header.defaultTitle': 'Quiz Practice',
+  'progress.category': 'Question category:',
+  'progress.defaultCategory': 'Required Learning Preparation',
+  'progress.current': 'Current question',
+  'progress.answered': 'Question {number} - Answered',
+  'progress.unanswered': 'Question {number} - Not answered',
+  'progress.flaggedSuffix': ', flagged',
+
+  // Question inputs
+  'input.shortAnswerLabel': 'Short answer (1-3 words)',
+  'input.shortAnswerPlaceholder': 'Type your answer...',
+  'input.multiSelectHint': 'Select all correct answers',
+
+  'code.copy': 'Copy',
+  'code.copied': 'Copied',
+  'code.copyLabel': 'Copy code',
+  'code.copyFailedTitle': 'Could not copy code',
+  'code.copyFailedDescription': 'The browser does not allow clipboard access. Copy the code manually.',
+
+  // Loading
+  'loading.generating': '🤖 AI is writing quality questions...',
+  'loading.submitting': 'Processing your answers...',
+  'loading.preparingNew': 'Preparing new questions...',
+  'loading.generatingForYou': '🤖 AI is writing questions just for you...',
+  'loading.quiz': 'Loading quiz...',
+
+  // Intro screen
+  'intro.generatingTitle': 'Generating AI Questions...',
+  'intro.rulesTitle': 'Rules',
+  'intro.generatingMessage': 'AI is analyzing the material and writing quality questions for you...',
+  'intro.generatingHint': 'Questions are matched to a difficulty level based on your previous performance',
+  'intro.purpose': 'This quiz tests your knowledge of *{course}*.',
+  'intro.questionCount': 'There is *{count} question* to answer in this quiz. The rules are as follows:|There are *{count} questions* to answer in this quiz. The rules are as follows:',
+  'intro.duration': 'Time limit: *{minutes} minutes*',
+  'intro.aiGenerated': 'Questions are written by *AI* based on the learning material',
+  'intro.adaptive': '*Adaptive* difficulty that follows your ability',
+  'intro.passingScore': 'Passing score: *{score}%*',
+  'intro.maxAttempts': 'Maximum attempts: *{count}* ({remaining} left)',
+  'intro.goodLuck': 'Good luck!',
+  'intro.start': 'Start',
+  'intro.notReady': 'Questions Not Ready...',
+  'intro.limitReached': 'Attempt Limit Reached',
+  'intro.historyTitle': 'History',
+  'intro.compare': 'Compare ({selected}/2)',
+  'intro.noHistory': 'No attempts for this quiz yet.',
+  'intro.selectToCompare': 'Select to compare',
+  'intro.selectAttempt': 'Select attempt {number} to compare',
+  'intro.date': 'Date',
+  'intro.percentage': 'Percentage',
+  'intro.status': 'Status',
+  'intro.action': 'Action',
+  'intro.flaggedCount': '{count} question flagged|{count} questions flagged',
+  'intro.viewDetail': 'View Details',
+
+  // Export
+  'export.label': 'Export',
+  'export.resultLabel': 'Export Result',
+  'export.csv': 'CSV (per question)',
+  'export.json': 'JSON (full data)',
+  'export.pdf': 'Review sheet (PDF)',
+  'export.failedTitle': 'Export failed',
+  'export.failedDescription': 'Allow popups in your browser to print the review sheet.',
+  'export.sheet.correct': 'Correct',
+  'export.sheet.partial': 'Partial ({percentage}%)',
+  'export.sheet.wrong': 'Wrong',
+  'export.sheet.topic': 'Topic: {topic}',
+  'export.sheet.confidence': 'Confidence',
+  'export.sheet.difficulty': 'Difficulty: {difficulty}',
+  'export.sheet.score': 'Score: *{percentage}%* ({score}/{total} correct)',
+  'export.sheet.noDetail': 'Question details are not available (legacy history format or removed automatically).',
+  'export.sheet.user': 'User: {userId}',
+  'export.sheet.exportedAt': 'Exported {date}',
+
+  // Shortcuts
+  'shortcuts.title': 'Keyboard Shortcuts',
+  'shortcuts.description': 'Take the quiz without a mouse. Letter shortcuts are disabled while typing in an answer field.',
+  'shortcuts.selectAnswer': 'Select an answer (or 1–4)',
+  'shortcuts.next': 'Next question',
+  'shortcuts.previous': 'Previous question',
+  'shortcuts.flag': 'Flag / unflag the question for review',
+  'shortcuts.submit': 'Open submit',
+  'shortcuts.help': 'Show this help',
+  'shortcuts.button': 'Keyboard shortcuts',
+  'shortcuts.buttonTitle': 'Keyboard shortcuts (?)',
+  'shortcuts.hintBefore': 'Press',
+  'shortcuts.hintAfter': 'for keyboard shortcuts',
+
+  // Quiz screen
+  'quiz.previous': 'Previous',
+  'quiz.next': 'Next',
+  'quiz.flag': 'Flag',
+  'quiz.flagTitle': 'Flag for review (F)',
+  'quiz.reviewAndSubmit': 'Review & Submit',
+  'quiz.answeredCount': '{answered} of {total} questions answered',
+
+  // Review before submit
+  'review.title': 'Review Before Submitting',
+  'review.summary': '{answered} of {total} questions answered, {flagged} flagged. Click a question to go back to it.',
+  'review.unanswered': 'Not answered ({count})',
+  'review.allAnswered': 'All questions are answered.',
+  'review.flagged': 'Flagged for review ({count})',
+  'review.noneFlagged': 'No flagged questions.',
+  'review.unansweredWarning': 'Unanswered questions are graded as wrong if you submit now.',
+  'review.ready': 'All questions are answered. Ready to submit.',
+  'review.backToQuestions': 'Back to Questions',
+  'review.submitNow': 'Submit Now',
+
+  // Results
+  'result.title': 'Exam Result',
+  'result.passedMessage': 'Congratulations! You passed this exam.',
+  'result.failedMessage': 'Sorry, you did not meet the passing standard.',
+  'result.tryAgain': 'Try Again',
+  'result.limitReached': 'The limit of {count} attempt for this quiz has been reached.|The limit of {count} attempts for this quiz has been reached.',
+  'result.question': 'Question {number}',
+  'result.partialCredit': '(Partially correct: {percentage}%)',
+  'result.otherAccepted': 'Other accepted answers: {answers}',
+  'result.timeOnTask': 'Time on question',
+  'result.answerChanges': 'Number of answer changes',
+  'result.changedTimes': 'Changed {count}x',
+  'result.visits': 'Number of visits',
+  'result.openedTimes': 'Opened {count}x',
+
+  // History detail
+  'history.title': 'Exam History Details',
+  'history.unavailableTitle': 'Details Not Available',
+  'history.pruned': 'The details of this attempt were removed automatically to save storage space. The score and pass status are still kept.',
+  'history.legacy': 'Sorry, details for this attempt are not available because it uses a legacy format. Please take the quiz again.',
+  'history.visitOrder': 'Question Order',
+
+  // Attempt comparison
+  'compare.title': 'Attempt Comparison',
+  'compare.difficulty': 'Difficulty',
+  'compare.correctAnswers': 'Correct answers',
+  'compare.timeSpent': 'Time spent',
+  'compare.notRecorded': 'Not recorded',
+  'compare.changes': 'Changes',
+  'compare.score': 'Score',
+  'compare.points': '{value} points',
+  'compare.difficultyUp': 'Difficulty went up',
+  'compare.difficultyDown': 'Difficulty went down',
+  'compare.difficultySame': 'Same difficulty',
+  'compare.same': 'Same',
+  'compare.topicsTitle': 'Progress per Topic',
+  'compare.topicsHint': 'Each attempt has different questions, so results are compared by the topics tested.',
+  'compare.noDetail': 'Per-topic details are not available because one of the attempts uses a legacy format or its details were removed automatically.',
+  'compare.noSharedTopics': 'The two attempts have no topics in common.',
+  'compare.onlyIn': 'Only in Attempt {number}',
+  'compare.trend.improved': 'Improved',
+  'compare.trend.regressed': 'Declined',
+  'compare.trend.unchanged': 'Unchanged',
+
+  // Offline submission
+  'queued.title': 'Waiting for Connection',
+  'queued.heading': 'Answers saved on this device',
+  'queued.description': '{answered} of {total} answers will be sent and graded automatically once the connection is back. You may close this page - sending resumes when LearnCheck is opened again.',
+  'queued.retry': 'Try Sending Now',
+
+  // Connection status
+  'connection.offline': 'Offline',
+  'connection.syncing': 'Syncing',
+  'connection.online': 'Online',
+  'connection.pendingOffline': '{count} item waiting to be sent|{count} items waiting to be sent',
+  'connection.savedOnDevice': 'Answers stay saved on this device',
+  'connection.pending': '{count} item pending|{count} items pending',
+
+  // Toasts
+  'toast.progressRestoredTitle': 'Progress restored',
+  'toast.progressRestoredDescription': 'Continuing where you left off',
+  'toast.demoQuestionsTitle': 'Using Demo Questions 📝',
+  'toast.aiQuestionsTitle': 'AI Questions Ready! 🤖',
+  'toast.demoQuestionsDescription': '{count} demo question ready ({difficulty})|{count} demo questions ready ({difficulty})',
+  'toast.aiQuestionsDescription': '{count} AI question ready ({difficulty})|{count} AI questions ready ({difficulty})',
+  'toast.generateFailedTitle': '❌ Could Not Generate AI Questions',
+  'toast.generateFailedDescription': 'Backend API is unavailable. Check the backend connection!',
+  'toast.submittedTitle': 'Quiz completed! ✅',
+  'toast.submittedDescription': 'Your answers have been saved.',
+  'toast.offlineTitle': 'You are offline',
+  'toast.offlineDescription': 'Your answers are saved and will be sent automatically when the connection is back.',
+  'toast.submitFailedTitle': '❌ Could not submit answers',
+  'toast.submitFailedDescription': 'Backend API error. Please submit again!',
+  'toast.queuedRejectedDescription': 'The server rejected the answers saved offline. Please submit again!',
+  'toast.timeUpTitle': "Time's up!",
+  'toast.timeUpDescription': 'The quiz will be submitted automatically.',
+  'toast.exitTitle': 'Leaving the quiz',
+  'toast.exitDescription': 'Thank you for taking the quiz.',
+  'toast.notReadyTitle': 'Questions not ready',
+  'toast.notReadyDescription': 'Questions are being prepared, try again in a moment...',
+  'toast.limitReachedTitle': 'Attempt limit reached',
+  'toast.limitReachedDescription': 'This quiz can only be taken {count} time.|This quiz can only be taken {count} times.',
+  'toast.newQuestionsTitle': 'New questions ready! {emoji}',
+  'toast.newQuestionsDescription': '{count} AI question ({difficulty}) ready|{count} AI questions ({difficulty}) ready',
+  'toast.newQuestionsFailedTitle': '❌ Could not create new questions',
+  'toast.newQuestionsFailedDescription': 'Backend API error. Please try again!',
+
+  // Not found page
+  'notFound.message': 'Oops! Page not found',
+  'notFound.home': 'Return to Home',
+
+  'launch.missing.title': 'Open from your class',
+  'launch.missing.message': 'This quiz can only be opened through the link on the lesson page in Dicoding Classroom.',
+  'launch.invalid.title': 'Invalid link',
+  'launch.invalid.message': 'The quiz link is broken or incomplete. Open the quiz again from the lesson page.',
+  'launch.expired.title': 'Link expired',
+  'launch.expired.message': 'The quiz link has expired. Reload the lesson page to open the quiz again.',
+
+  'settings.open': 'Settings',
+  'settings.title': 'Display Settings',
+  'settings.description': 'Changes apply immediately, are saved on this device and synced to your account.',
+  'settings.theme': 'Theme',
+  'settings.theme.light': 'Light',
+  'settings.theme.dark': 'Dark',
+  'settings.fontSize': 'Font size',
+  'settings.fontSize.small': 'Small',
+  'settings.fontSize.default': 'Default',
+  'settings.fontSize.large': 'Large',
+  'settings.layoutWidth': 'Layout width',
+  'settings.layoutWidth.default': 'Standard',
+  'settings.layoutWidth.fullWidth': 'Full width',
+  'settings.language': 'Language',
+  'settings.language.id': 'Bahasa Indonesia',
+  'settings.language.en': 'English',
+  'settings.language.hint': 'Questions in progress keep their language; new questions are generated in this language.',
+};
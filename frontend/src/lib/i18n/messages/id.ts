@@ -0,0 +1,275 @@
+/**
+ * Indonesian messages - the source catalog. Every key added here must also be
+ * added to en.ts (enforced by its type). Use `{name}` for parameters; messages
+ * taking a `count` may give "one|other" plural forms. `*text*` marks emphasis
+ * where the rendering side supports it (intro rules, review sheet).
+ */
+export const id = {
+  // Shared
+  'common.back': 'Kembali',
+  'common.backToHistory': 'Kembali ke Riwayat',
+  'common.flagged': 'Ditandai',
+  'common.question': 'Soal {number}',
+  'common.category': 'Kategori: {title}',
+  'common.totalQuestions': 'Total soal',
+  'common.score': 'Score',
+  'common.passed': 'Lulus',
+  'common.notPassed': 'Belum Lulus',
+  'common.yourAnswer': 'Jawaban Anda',
+  'common.correctAnswer': 'Jawaban benar',
+  'common.unanswered': 'Tidak dijawab',
+  'common.explanation': 'Penjelasan',
+  'common.attempt': 'Percobaan {number}',
+  'common.loading': 'Memuat...',
+
+  'duration.minutesSeconds': '{minutes}m {seconds}d',
+  'duration.seconds': '{seconds}d',
+
+  'difficulty.easy': 'Mudah',
+  'difficulty.medium': 'Sedang',
+  'difficulty.hard': 'Sulit',
+
+  'confidence.prompt': 'Seberapa yakin jawaban Anda?',
+  'confidence.guess': 'Menebak',
+  'confidence.unsure': 'Ragu-ragu',
+  'confidence.sure': 'Yakin',
+
+  'calibration.title': 'Kalibrasi Keyakinan',
+  'calibration.summary': 'Perbandingan tingkat keyakinan dengan ketepatan jawaban ({rated} dari {total} soal dinilai).',
+  'calibration.misconceptionWarning': 'Anda yakin tetapi salah pada soal {questions}. Tinjau kembali penjelasannya karena ini bisa menandakan miskonsepsi.',
+  'calibration.questions': 'Soal: {questions}',
+  'calibration.misconceptions.label': 'Yakin tapi salah',
+  'calibration.misconceptions.description': 'Kemungkinan miskonsepsi - pelajari ulang materi ini',
+  'calibration.luckyGuesses.label': 'Tebakan beruntung',
+  'calibration.luckyGuesses.description': 'Benar, tapi belum yakin - perkuat pemahaman',
+  'calibration.gaps.label': 'Belum paham',
+  'calibration.gaps.description': 'Salah dan sudah disadari belum paham',
+  'calibration.mastered.label': 'Dikuasai',
+  'calibration.mastered.description': 'Yakin dan benar',
+
+  // Quiz header & progress
+  'header.defaultTitle': 'Latihan Kuis',
+  'progress.category': 'Soal kategori:',
+  'progress.defaultCategory': 'Persiapan Belajar Wajib',
+  'progress.current': 'Soal saat ini',
+  'progress.answered': 'Soal {number} - Sudah dijawab',
+  'progress.unanswered': 'Soal {number} - Belum dijawab',
+  'progress.flaggedSuffix': ', ditandai',
+
+  // Question inputs
+  'input.shortAnswerLabel': 'Jawaban singkat (1-3 kata)',
+  'input.shortAnswerPlaceholder': 'Ketik jawaban Anda...',
+  'input.multiSelectHint': 'Pilih semua jawaban yang benar',
+
+  'code.copy': 'Salin',
+  'code.copied': 'Tersalin',
+  'code.copyLabel': 'Salin kode',
+  'code.copyFailedTitle': 'Gagal menyalin kode',
+  'code.copyFailedDescription': 'Browser tidak mengizinkan akses clipboard. Salin kode secara manual.',
+
+  // Loading
+  'loading.generating': '🤖 AI sedang membuat soal berkualitas...',
+  'loading.submitting': 'Memproses jawaban Anda...',
+  'loading.preparingNew': 'Menyiapkan soal baru...',
+  'loading.generatingForYou': '🤖 AI sedang membuat soal khusus untuk Anda...',
+  'loading.quiz': 'Memuat kuis...',
+
+  // Intro screen
+  'intro.generatingTitle': 'Membuat Soal AI...',
+  'intro.rulesTitle': 'Aturan',
+  'intro.generatingMessage': 'AI sedang menganalisis materi dan membuat soal berkualitas untuk Anda...',
+  'intro.generatingHint': 'Soal akan disesuaikan dengan tingkat kesulitan berdasarkan performa Anda sebelumnya',
+  'intro.purpose': 'Kuis ini bertujuan untuk menguji pengetahuan Anda tentang materi *{course}*.',
+  'intro.questionCount': 'Terdapat *{count} pertanyaan* yang harus dikerjakan dalam kuis ini. Beberapa ketentuannya sebagai berikut:',
+  'intro.duration': 'Durasi ujian: *{minutes} menit*',
+  'intro.aiGenerated': 'Soal dibuat oleh *AI* berdasarkan materi pembelajaran',
+  'intro.adaptive': 'Tingkat kesulitan *adaptif* sesuai kemampuan Anda',
+  'intro.passingScore': 'Syarat kelulusan: *{score}%*',
+  'intro.maxAttempts': 'Maksimal percobaan: *{count} kali* (tersisa {remaining})',
+  'intro.goodLuck': 'Selamat Mengerjakan!',
+  'intro.start': 'Mulai',
+  'intro.notReady': 'Soal Belum Siap...',
+  'intro.limitReached': 'Batas Percobaan Tercapai',
+  'intro.historyTitle': 'Riwayat',
+  'intro.compare': 'Bandingkan ({selected}/2)',
+  'intro.noHistory': 'Belum ada riwayat pengerjaan untuk kuis ini.',
+  'intro.selectToCompare': 'Pilih untuk dibandingkan',
+  'intro.selectAttempt': 'Pilih percobaan {number} untuk dibandingkan',
+  'intro.date': 'Tanggal',
+  'intro.percentage': 'Persentase',
+  'intro.status': 'Status',
+  'intro.action': 'Action',
+  'intro.flaggedCount': '{count} soal ditandai',
+  'intro.viewDetail': 'Lihat Detail',
+
+  // Export
+  'export.label': 'Ekspor',
+  'export.resultLabel': 'Ekspor Hasil',
+  'export.csv': 'CSV (per soal)',
+  'export.json': 'JSON (data lengkap)',
+  'export.pdf': 'Lembar review (PDF)',
+  'export.failedTitle': 'Gagal mengekspor',
+  'export.failedDescription': 'Izinkan popup di browser untuk mencetak lembar review.',
+  'export.sheet.correct': 'Benar',
+  'export.sheet.partial': 'Sebagian ({percentage}%)',
+  'export.sheet.wrong': 'Salah',
+  'export.sheet.topic': 'Topik: {topic}',
+  'export.sheet.confidence': 'Keyakinan',
+  'export.sheet.difficulty': 'Kesulitan: {difficulty}',
+  'export.sheet.score': 'Skor: *{percentage}%* ({score}/{total} benar)',
+  'export.sheet.noDetail': 'Detail soal tidak tersedia (riwayat format lama atau dihapus otomatis).',
+  'export.sheet.user': 'Pengguna: {userId}',
+  'export.sheet.exportedAt': 'Diekspor {date}',
+
+  // Shortcuts
+  'shortcuts.title': 'Pintasan Keyboard',
+  'shortcuts.description': 'Kerjakan kuis tanpa mouse. Pintasan huruf tidak aktif saat mengetik di kolom jawaban.',
+  'shortcuts.selectAnswer': 'Pilih jawaban (atau 1–4)',
+  'shortcuts.next': 'Soal berikutnya',
+  'shortcuts.previous': 'Soal sebelumnya',
+  'shortcuts.flag': 'Tandai / batalkan tanda soal untuk ditinjau',
+  'shortcuts.submit': 'Buka submit',
+  'shortcuts.help': 'Tampilkan bantuan ini',
+  'shortcuts.button': 'Pintasan keyboard',
+  'shortcuts.buttonTitle': 'Pintasan keyboard (?)',
+  'shortcuts.hintBefore': 'Tekan',
+  'shortcuts.hintAfter': 'untuk pintasan keyboard',
+
+  // Quiz screen
+  'quiz.previous': 'Sebelumnya',
+  'quiz.next': 'Selanjutnya',
+  'quiz.flag': 'Tandai',
+  'quiz.flagTitle': 'Tandai untuk ditinjau (F)',
+  'quiz.reviewAndSubmit': 'Tinjau & Submit',
+  'quiz.answeredCount': '{answered} dari {total} pertanyaan terjawab',
+
+  // Review before submit
+  'review.title': 'Tinjau Sebelum Submit',
+  'review.summary': '{answered} dari {total} soal terjawab, {flagged} soal ditandai. Klik soal untuk kembali mengerjakannya.',
+  'review.unanswered': 'Belum dijawab ({count})',
+  'review.allAnswered': 'Semua soal sudah dijawab.',
+  'review.flagged': 'Ditandai untuk ditinjau ({count})',
+  'review.noneFlagged': 'Tidak ada soal yang ditandai.',
+  'review.unansweredWarning': 'Soal yang belum dijawab akan dinilai salah jika Anda submit sekarang.',
+  'review.ready': 'Semua soal sudah dijawab. Siap untuk submit.',
+  'review.backToQuestions': 'Kembali ke Soal',
+  'review.submitNow': 'Submit Sekarang',
+
+  // Results
+  'result.title': 'Hasil Exam',
+  'result.passedMessage': 'Selamat! Anda telah lulus dari ujian ini.',
+  'result.failedMessage': 'Maaf, Anda belum memenuhi standar kelulusan.',
+  'result.tryAgain': 'Coba Lagi',
+  'result.limitReached': 'Batas {count} kali percobaan untuk kuis ini sudah tercapai.',
+  'result.question': 'Pertanyaan {number}',
+  'result.partialCredit': '(Benar sebagian: {percentage}%)',
+  'result.otherAccepted': 'Jawaban lain yang diterima: {answers}',
+  'result.timeOnTask': 'Waktu mengerjakan',
+  'result.answerChanges': 'Jumlah perubahan jawaban',
+  'result.changedTimes': 'Diubah {count}x',
+  'result.visits': 'Jumlah kunjungan',
+  'result.openedTimes': 'Dibuka {count}x',
+
+  // History detail
+  'history.title': 'Detail Riwayat Exam',
+  'history.unavailableTitle': 'Detail Tidak Tersedia',
+  'history.pruned': 'Detail riwayat ini dihapus otomatis untuk menghemat ruang penyimpanan. Skor dan status kelulusan tetap tersimpan.',
+  'history.legacy': 'Maaf, detail untuk riwayat ini tidak tersedia karena menggunakan format lama. Silakan coba lagi dengan mengerjakan kuis baru.',
+  'history.visitOrder': 'Urutan Pengerjaan',
+
+  // Attempt comparison
+  'compare.title': 'Perbandingan Percobaan',
+  'compare.difficulty': 'Kesulitan',
+  'compare.correctAnswers': 'Jawaban benar',
+  'compare.timeSpent': 'Waktu mengerjakan',
+  'compare.notRecorded': 'Tidak tercatat',
+  'compare.changes': 'Perubahan',
+  'compare.score': 'Skor',
+  'compare.points': '{value} poin',
+  'compare.difficultyUp': 'Tingkat kesulitan naik',
+  'compare.difficultyDown': 'Tingkat kesulitan turun',
+  'compare.difficultySame': 'Tingkat kesulitan sama',
+  'compare.same': 'Sama',
+  'compare.topicsTitle': 'Perkembangan per Topik',
+  'compare.topicsHint': 'Soal setiap percobaan berbeda, sehingga hasil dibandingkan berdasarkan topik yang diuji.',
+  'compare.noDetail': 'Detail per topik tidak tersedia karena salah satu riwayat menggunakan format lama atau detailnya sudah dihapus otomatis.',
+  'compare.noSharedTopics': 'Tidak ada topik yang sama di kedua percobaan.',
+  'compare.onlyIn': 'Hanya di Percobaan {number}',
+  'compare.trend.improved': 'Meningkat',
+  'compare.trend.regressed': 'Menurun',
+  'compare.trend.unchanged': 'Tetap',
+
+  // Offline submission
+  'queued.title': 'Menunggu Koneksi',
+  'queued.heading': 'Jawaban tersimpan di perangkat',
+  'queued.description': '{answered} dari {total} jawaban akan dikirim dan dinilai otomatis begitu koneksi kembali. Anda boleh menutup halaman ini - pengiriman dilanjutkan saat LearnCheck dibuka lagi.',
+  'queued.retry': 'Coba Kirim Sekarang',
+
+  // Connection status
+  'connection.offline': 'Offline',
+  'connection.syncing': 'Menyinkronkan',
+  'connection.online': 'Online',
+  'connection.pendingOffline': '{count} data menunggu dikirim',
+  'connection.savedOnDevice': 'Jawaban tetap tersimpan di perangkat',
+  'connection.pending': '{count} data tertunda',
+
+  // Toasts
+  'toast.progressRestoredTitle': 'Progress dimuat',
+  'toast.progressRestoredDescription': 'Melanjutkan dari terakhir kali',
+  'toast.demoQuestionsTitle': 'Menggunakan Soal Demo 📝',
+  'toast.aiQuestionsTitle': 'Soal AI Berhasil Dibuat! 🤖',
+  'toast.demoQuestionsDescription': '{count} soal demo siap dikerjakan ({difficulty})',
+  'toast.aiQuestionsDescription': '{count} soal AI siap dikerjakan ({difficulty})',
+  'toast.generateFailedTitle': '❌ Gagal Generate Soal AI',
+  'toast.generateFailedDescription': 'Backend API tidak tersedia. Cek koneksi backend!',
+  'toast.submittedTitle': 'Kuis selesai! ✅',
+  'toast.submittedDescription': 'Jawaban Anda telah tersimpan.',
+  'toast.offlineTitle': 'Sedang offline',
+  'toast.offlineDescription': 'Jawaban disimpan dan akan dikirim otomatis saat koneksi kembali.',
+  'toast.submitFailedTitle': '❌ Gagal mengirim jawaban',
+  'toast.submitFailedDescription': 'Backend API error. Coba submit lagi!',
+  'toast.queuedRejectedDescription': 'Jawaban yang tersimpan offline ditolak server. Coba submit lagi!',
+  'toast.timeUpTitle': 'Waktu habis!',
+  'toast.timeUpDescription': 'Kuis akan otomatis disubmit.',
+  'toast.exitTitle': 'Keluar dari kuis',
+  'toast.exitDescription': 'Terima kasih telah mengerjakan kuis.',
+  'toast.notReadyTitle': 'Soal belum siap',
+  'toast.notReadyDescription': 'Soal sedang disiapkan, coba lagi sebentar...',
+  'toast.limitReachedTitle': 'Batas percobaan tercapai',
+  'toast.limitReachedDescription': 'Kuis ini hanya bisa dikerjakan {count} kali.',
+  'toast.newQuestionsTitle': 'Soal baru berhasil dibuat! {emoji}',
+  'toast.newQuestionsDescription': '{count} soal AI ({difficulty}) siap dikerjakan',
+  'toast.newQuestionsFailedTitle': '❌ Gagal membuat soal baru',
+  'toast.newQuestionsFailedDescription': 'Backend API error. Coba lagi!',
+
+  // Not found page
+  'notFound.message': 'Oops! Halaman tidak ditemukan',
+  'notFound.home': 'Kembali ke Beranda',
+
+  'launch.missing.title': 'Buka dari kelas Anda',
+  'launch.missing.message': 'Kuis ini hanya dapat dibuka melalui tautan dari halaman materi di Dicoding Classroom.',
+  'launch.invalid.title': 'Tautan tidak valid',
+  'launch.invalid.message': 'Tautan kuis rusak atau tidak lengkap. Buka kembali kuis dari halaman materi.',
+  'launch.expired.title': 'Tautan kedaluwarsa',
+  'launch.expired.message': 'Tautan kuis sudah kedaluwarsa. Muat ulang halaman materi untuk membuka kuis kembali.',
+
+  'settings.open': 'Pengaturan',
+  'settings.title': 'Pengaturan Tampilan',
+  'settings.description': 'Perubahan langsung diterapkan, disimpan di perangkat ini dan disinkronkan ke akun Anda.',
+  'settings.theme': 'Tema',
+  'settings.theme.light': 'Terang',
+  'settings.theme.dark': 'Gelap',
+  'settings.fontSize': 'Ukuran huruf',
+  'settings.fontSize.small': 'Kecil',
+  'settings.fontSize.default': 'Normal',
+  'settings.fontSize.large': 'Besar',
+  'settings.layoutWidth': 'Lebar tampilan',
+  'settings.layoutWidth.default': 'Standar',
+  'settings.layoutWidth.fullWidth': 'Penuh',
+  'settings.language': 'Bahasa',
+  'settings.language.id': 'Bahasa Indonesia',
+  'settings.language.en': 'English',
+  'settings.language.hint': 'Soal yang sedang dikerjakan tetap dalam bahasa semula; soal berikutnya dibuat dalam bahasa ini.',
+};
+
+export type MessageKey = keyof typeof id;
@@ -0,0 +1,79 @@
+/**
+ * Launch context - which learner opened the quiz, for which tutorial
+ * The host (Dicoding Classroom) opens LearnCheck with ?token=<launch token>,
+ * a short-lived JWT signed by the host. The backend verifies it on every API
+ * call (see backend/src/middleware/auth.js); the browser only reads its claims
+ * to know whose data to load, so editing them gains nothing.
+ */
+
+export interface LaunchContext {
+  token: string;
+  userId: string;
+  tutorialId: string;
+  expiresAt: string; // ISO
+}
+
+export type LaunchProblem = 'missing' | 'invalid' | 'expired';
+
+let cachedLaunch: LaunchContext | null | undefined;
+
+const decodeBase64Url = (segment: string): string => {
+  const base64 = segment.replace(/-/g, '+').replace(/_/g, '/');
+  const bytes = Uint8Array.from(atob(base64), char => char.charCodeAt(0));
+  return new TextDecoder().decode(bytes);
+};
+
+/**
+ * Read the claims of a launch token (signature is checked by the backend)
+ */
+export const parseLaunchToken = (token: string): LaunchContext | null => {
+  try {
+    const claims = JSON.parse(decodeBase64Url(token.split('.')[1] ?? ''));
+    if (typeof claims.sub !== 'string' || typeof claims.tutorial_id !== 'string' || typeof claims.exp !== 'number') {
+      return null;
+    }
+
+    return {
+      token,
+      userId: claims.sub,
+      tutorialId: claims.tutorial_id,
+      expiresAt: new Date(claims.exp * 1000).toISOString()
+    };
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Launch context from the page URL; null when the quiz was not opened through a launch
+ */
+export const getLaunchContext = (): LaunchContext | null => {
+  if (cachedLaunch === undefined) {
+    const token = new URLSearchParams(window.location.search).get('token');
+    cachedLaunch = token ? parseLaunchToken(token) : null;
+  }
+  return cachedLaunch;
+};
+
+/**
+ * Why the quiz cannot start, or null when the launch is usable
+ */
+export const getLaunchProblem = (): LaunchProblem | null => {
+  const launch = getLaunchContext();
+  if (!launch) {
+    return new URLSearchParams(window.location.search).has('token') ? 'invalid' : 'missing';
+  }
+  return new Date(launch.expiresAt).getTime() <= Date.now() ? 'expired' : null;
+};
+
+/**
+ * Launch context for screens that only render after a valid launch (see App)
+ * @throws when the quiz was not launched with a token
+ */
+export const requireLaunchContext = (): LaunchContext => {
+  const launch = getLaunchContext();
+  if (!launch) {
+    throw new Error('LearnCheck must be opened with a launch token');
+  }
+  return launch;
+};
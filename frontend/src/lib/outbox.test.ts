@@ -0,0 +1,98 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { apiService, type GradedSubmission } from './api';
+import { getLaunchContext, type LaunchContext } from './launch';
+import { enqueueSubmission, flushOutbox, getOutboxItems } from './outbox';
+import { loadOutbox } from './storage';
+import * as store from './storage/store';
+
+// Without initStore() the store is memory-only; without navigator there is no Web Lock to take
+
+vi.mock('./launch', () => ({ getLaunchContext: vi.fn() }));
+vi.mock('./api', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('./api')>()),
+  apiService: { submitAnswers: vi.fn(), updateUserPreferences: vi.fn() },
+}));
+
+const launchAs = (userId: string, tutorialId = '42') => {
+  vi.mocked(getLaunchContext).mockReturnValue({ token: `token-${userId}`, userId, tutorialId, expiresAt: '2099-01-01T00:00:00.000Z' } as LaunchContext);
+};
+
+const rejectWith = (status: number, reason: string) =>
+  vi.mocked(apiService.submitAnswers).mockRejectedValue(
+    Object.assign(new Error(`HTTP ${status}`), { status, reason })
+  );
+
+const queueAs = (userId: string, sessionId: string, tutorialId = '42') => {
+  launchAs(userId, tutorialId);
+  enqueueSubmission({ sessionId, answers: { 0: 'B' } });
+};
+
+beforeEach(() => {
+  vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  store.keys().forEach(key => store.removeItem(key));
+  vi.resetAllMocks();
+  vi.restoreAllMocks();
+});
+
+describe('items of another learner on the same device', () => {
+  it('are neither delivered nor dropped', async () => {
+    queueAs('budi', 'session-budi');
+    queueAs('siti', 'session-siti');
+    vi.mocked(apiService.submitAnswers).mockResolvedValue({} as GradedSubmission);
+
+    await flushOutbox();
+
+    expect(apiService.submitAnswers).toHaveBeenCalledTimes(1);
+    expect(apiService.submitAnswers).toHaveBeenCalledWith(expect.objectContaining({ sessionId: 'session-siti' }));
+    expect(getOutboxItems()).toEqual([]);
+    expect(loadOutbox()).toEqual([expect.objectContaining({ userId: 'budi', tries: 0 })]);
+  });
+
+  it('are not counted as pending', () => {
+    queueAs('budi', 'session-budi');
+    launchAs('siti');
+
+    expect(getOutboxItems()).toEqual([]);
+
+    launchAs('budi');
+    expect(getOutboxItems()).toHaveLength(1);
+  });
+
+  it('wait for a launch of the tutorial they were queued for', async () => {
+    queueAs('siti', 'session-7', '7');
+    launchAs('siti', '42');
+
+    await flushOutbox();
+
+    expect(apiService.submitAnswers).not.toHaveBeenCalled();
+    expect(loadOutbox()).toHaveLength(1);
+  });
+});
+
+describe('rejected launch tokens', () => {
+  it.each([
+    [401, 'Launch expired'],
+    [403, 'Forbidden'],
+  ])('%i does not count as a try', async (status, reason) => {
+    queueAs('siti', 'session-1');
+    rejectWith(status, reason);
+
+    for (let run = 0; run < 6; run++) {
+      await flushOutbox();
+    }
+
+    expect(loadOutbox()).toEqual([expect.objectContaining({ tries: 0 })]);
+  });
+
+  it('a reached attempt limit rejects the item', async () => {
+    queueAs('siti', 'session-1');
+    rejectWith(403, 'Attempt limit reached');
+
+    await flushOutbox();
+
+    expect(loadOutbox()).toEqual([expect.objectContaining({ tries: 1 })]);
+  });
+});
@@ -0,0 +1,221 @@
+/**
+ * Durable outbox for requests made while offline
+ * Submissions and preference updates that cannot reach the backend are
+ * stored (see loadOutbox/saveOutbox in ./storage) and replayed in order when
+ * connectivity returns - on the `online` event, periodically while items are
+ * pending, and on every app start. Replaying a submission is safe: the
+ * backend returns the original grading for a session that was already graded.
+ * Several learners may share the device, so each item records the launch that
+ * queued it and is only replayed under that learner's launch token.
+ */
+
+import {
+  apiService,
+  isHttpError,
+  type GradedSubmission,
+  type SubmitAnswersRequest,
+  type UserPreferences
+} from './api';
+import { getLaunchContext, type LaunchContext } from './launch';
+import { createId, loadOutbox, saveOutbox, type OutboxItem } from './storage';
+
+const MAX_TRIES = 5; // Rejections by a reachable backend before an item is dropped
+const RETRY_INTERVAL_MS = 30 * 1000; // `online` is not fired reliably (captive portals, flaky mobile data)
+const DELIVERY_LOCK = 'learncheck-outbox';
+
+export type OutboxEvent =
+  | { type: 'queued'; item: OutboxItem }
+  | { type: 'delivered'; item: OutboxItem; result: GradedSubmission | UserPreferences }
+  | { type: 'failed'; item: OutboxItem; error: unknown };
+
+type OutboxListener = (event: OutboxEvent) => void;
+
+const listeners = new Set<OutboxListener>();
+let flushing: Promise<void> | null = null;
+let flushRequested = false;
+
+const emit = (event: OutboxEvent) => {
+  listeners.forEach(listener => listener(event));
+};
+
+/**
+ * fetch() rejects with a TypeError when the request never reached the server
+ */
+export const isNetworkError = (error: unknown): boolean =>
+  error instanceof TypeError || (typeof navigator !== 'undefined' && !navigator.onLine);
+
+/**
+ * The launch token was refused (expired, or not valid for this learner or session).
+ * The item itself was not judged, so it is kept for a launch that can deliver it.
+ * A reached attempt limit is a 403 too, but that one rejects the item.
+ */
+const isLaunchRejection = (error: unknown): boolean =>
+  isHttpError(error) && (error.status === 401 || (error.status === 403 && error.reason === 'Forbidden'));
+
+/**
+ * Whether the current launch may deliver the item. Preferences belong to the
+ * learner, submissions to the learner's quiz session for one tutorial.
+ */
+const belongsToLaunch = (item: OutboxItem, launch: LaunchContext | null): boolean => {
+  if (!launch) {
+    return false;
+  }
+  if (!item.userId) {
+    return true; // Queued before items recorded their owner
+  }
+  return item.userId === launch.userId && (item.kind === 'preferences' || item.tutorialId === launch.tutorialId);
+};
+
+export const subscribeOutbox = (listener: OutboxListener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/**
+ * Items the current launch can deliver; other learners' items stay hidden
+ */
+export const getOutboxItems = (): OutboxItem[] => {
+  const launch = getLaunchContext();
+  return loadOutbox().filter(item => belongsToLaunch(item, launch));
+};
+
+// ============================================================================
+// QUEUEING
+// ============================================================================
+
+const enqueue = (item: OutboxItem, replaces: (queued: OutboxItem) => boolean) => {
+  saveOutbox([...loadOutbox().filter(queued => !replaces(queued)), item]);
+  emit({ type: 'queued', item });
+};
+
+const currentOwner = () => {
+  const launch = getLaunchContext();
+  return { userId: launch?.userId ?? '', tutorialId: launch?.tutorialId ?? '' };
+};
+
+/**
+ * Queue a submission; a resubmit for the same quiz session replaces the queued one
+ */
+export const enqueueSubmission = (request: SubmitAnswersRequest): void => {
+  const createdAt = new Date().toISOString();
+  enqueue(
+    // queuedAt marks an offline replay - the backend times it by the answers it last received in a draft
+    { id: createId(), ...currentOwner(), kind: 'submission', payload: { ...request, queuedAt: createdAt }, createdAt, tries: 0 },
+    queued => queued.kind === 'submission' && queued.payload.sessionId === request.sessionId
+  );
+};
+
+/**
+ * Queue a preference update; only the latest update per user is kept
+ */
+export const enqueuePreferencesUpdate = (userId: string, preferences: UserPreferences): void => {
+  enqueue(
+    {
+      id: createId(),
+      ...currentOwner(),
+      userId,
+      kind: 'preferences',
+      payload: { userId, preferences },
+      createdAt: new Date().toISOString(),
+      tries: 0
+    },
+    queued => queued.kind === 'preferences' && queued.payload.userId === userId
+  );
+};
+
+// ============================================================================
+// REPLAY
+// ============================================================================
+
+const deliver = (item: OutboxItem): Promise<GradedSubmission | UserPreferences> => {
+  switch (item.kind) {
+    case 'submission':
+      return apiService.submitAnswers(item.payload);
+    case 'preferences':
+      return apiService.updateUserPreferences(item.payload.userId, item.payload.preferences);
+  }
+};
+
+// Items may be queued while a delivery is in flight, so the stored list is re-read per update
+const updateStoredItems = (update: (items: OutboxItem[]) => OutboxItem[]) => {
+  saveOutbox(update(loadOutbox()));
+};
+
+const deliverAll = async () => {
+  for (const item of getOutboxItems()) {
+    try {
+      const result = await deliver(item);
+      updateStoredItems(items => items.filter(queued => queued.id !== item.id));
+      emit({ type: 'delivered', item, result });
+    } catch (error) {
+      if (isNetworkError(error)) {
+        return; // Still offline - keep everything for the next attempt
+      }
+      if (isLaunchRejection(error) && item.userId) {
+        return; // Not a verdict on the item - it waits for a launch the backend accepts
+      }
+
+      const tries = item.tries + 1;
+      if (tries >= MAX_TRIES) {
+        updateStoredItems(items => items.filter(queued => queued.id !== item.id));
+        emit({ type: 'failed', item, error });
+      } else {
+        updateStoredItems(items => items.map(queued => (queued.id === item.id ? { ...queued, tries } : queued)));
+      }
+    }
+  }
+};
+
+/**
+ * One tab delivers at a time - `online` fires in every open tab at once, and
+ * tabs updating the stored list together would lose each other's changes.
+ * While another tab holds the lock this one skips the run; whatever is still
+ * stored afterwards is picked up by the next retry.
+ */
+const deliverAllInOneTab = async (): Promise<void> => {
+  if (typeof navigator === 'undefined' || !navigator.locks) {
+    return deliverAll();
+  }
+  await navigator.locks.request(DELIVERY_LOCK, { ifAvailable: true }, async (lock) => {
+    if (lock) {
+      await deliverAll();
+    }
+  });
+};
+
+/**
+ * Deliver queued requests in order; concurrent calls share one run. A call
+ * made during a run adds one more pass, so items queued meanwhile (e.g. a
+ * newer preference change) are not left waiting for the next retry.
+ */
+export const flushOutbox = (): Promise<void> => {
+  flushRequested = true;
+  if (!flushing) {
+    flushing = (async () => {
+      while (flushRequested) {
+        flushRequested = false;
+        await deliverAllInOneTab();
+      }
+    })().finally(() => {
+      flushing = null;
+    });
+  }
+  return flushing;
+};
+
+/**
+ * Replay now and whenever connectivity may have returned. Call once at startup.
+ */
+export const startOutboxReplay = (): void => {
+  const flushIfPending = () => {
+    if (getOutboxItems().length > 0) {
+      flushOutbox();
+    }
+  };
+
+  window.addEventListener('online', flushIfPending);
+  setInterval(flushIfPending, RETRY_INTERVAL_MS);
+  flushIfPending();
+};
@@ -0,0 +1,113 @@
+/**
+ * User UI preferences (theme, font size, layout width, language)
+ * The copy saved on the device is applied at once; edits are sent to the
+ * backend through the outbox so they survive going offline.
+ *
+ * Merge rule when the device and the backend disagree:
+ * - an edit still waiting in the outbox wins - it is newer than anything the
+ *   backend has and replaces the backend copy once delivered
+ * - otherwise the backend wins per field (it may have been changed on another
+ *   device or in Dicoding); fields the backend does not have keep the device value
+ */
+
+import { apiService, DEFAULT_USER_PREFERENCES, type UserPreferences } from './api';
+import { loadUserPreferences, saveUserPreferences } from './storage';
+import { enqueuePreferencesUpdate, flushOutbox, getOutboxItems } from './outbox';
+
+type PreferencesListener = (preferences: UserPreferences) => void;
+
+const listeners = new Set<PreferencesListener>();
+let activePreferences: UserPreferences = DEFAULT_USER_PREFERENCES;
+// Bumped on every local edit so a slower backend fetch cannot undo it
+let revision = 0;
+
+/**
+ * Apply preferences to the document (live, no reload needed)
+ */
+export const applyUserPreferences = (prefs: UserPreferences): void => {
+  const root = document.documentElement;
+
+  // Apply theme
+  if (prefs.theme === 'dark') {
+    root.classList.add('dark');
+  } else {
+    root.classList.remove('dark');
+  }
+
+  // Apply font size
+  if (prefs.fontSize === 'large') {
+    root.style.fontSize = '18px';
+  } else if (prefs.fontSize === 'small') {
+    root.style.fontSize = '14px';
+  } else {
+    root.style.fontSize = '16px';
+  }
+
+  // Apply layout width
+  if (prefs.layoutWidth === 'fullWidth') {
+    root.classList.add('layout-full-width');
+  } else {
+    root.classList.remove('layout-full-width');
+  }
+};
+
+const activate = (preferences: UserPreferences) => {
+  activePreferences = preferences;
+  applyUserPreferences(preferences);
+  listeners.forEach(listener => listener(preferences));
+};
+
+const hasPendingUpdate = (userId: string): boolean =>
+  getOutboxItems().some(item => item.kind === 'preferences' && item.payload.userId === userId);
+
+export const getActivePreferences = (): UserPreferences => activePreferences;
+
+export const subscribePreferences = (listener: PreferencesListener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/**
+ * Apply the preferences saved on this device; null when there are none yet
+ */
+export const loadPreferences = (userId: string): UserPreferences | null => {
+  const saved = loadUserPreferences(userId);
+  if (saved) {
+    activate({ ...DEFAULT_USER_PREFERENCES, ...saved });
+  }
+  return saved;
+};
+
+/**
+ * Fetch the backend copy and merge it with the device copy (see merge rule above)
+ * @throws when the backend cannot be reached - the device copy stays active
+ */
+export const syncPreferences = async (userId: string): Promise<UserPreferences> => {
+  const startedAt = revision;
+  const remote = await apiService.getUserPreferences(userId);
+
+  if (revision !== startedAt || hasPendingUpdate(userId)) {
+    return activePreferences;
+  }
+
+  const merged = { ...DEFAULT_USER_PREFERENCES, ...loadUserPreferences(userId), ...remote };
+  saveUserPreferences(userId, merged);
+  activate(merged);
+  return merged;
+};
+
+/**
+ * Change preferences: applied and saved on the device immediately, then sent
+ * to the backend (queued while offline; only the latest change is kept)
+ */
+export const updatePreferences = (userId: string, changes: UserPreferences): UserPreferences => {
+  const next = { ...activePreferences, ...changes };
+  revision += 1;
+  saveUserPreferences(userId, next);
+  activate(next);
+  enqueuePreferencesUpdate(userId, next);
+  flushOutbox();
+  return next;
+};
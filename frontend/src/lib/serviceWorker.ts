@@ -0,0 +1,17 @@
+/**
+ * Service worker registration (see public/sw.js)
+ * Production builds only - in development the Vite dev server serves
+ * unhashed modules that must never come from a cache.
+ */
+export const registerServiceWorker = (): void => {
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) {
+    return;
+  }
+
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js').catch((error) => {
+      // The app still works online without it
+      console.warn('Service worker registration failed:', error);
+    });
+  });
+};
@@ -0,0 +1,128 @@
+/**
+ * Storage adapters for LearnCheck
+ * Backends that persist raw string records. IndexedDB is the default (large
+ * quota), localStorage is the fallback, and the in-memory adapter keeps
+ * nothing after the tab closes (privacy mode / shared computers).
+ */
+
+export type StorageAdapterName = 'indexeddb' | 'localstorage' | 'memory';
+
+export interface StorageAdapter {
+  name: StorageAdapterName;
+  loadAll: () => Promise<Map<string, string>>; // Every record owned by LearnCheck
+  set: (key: string, value: string) => Promise<void>;
+  remove: (key: string) => Promise<void>;
+}
+
+const DB_NAME = 'learncheck';
+const DB_VERSION = 1;
+const RECORD_STORE = 'records';
+
+// localStorage keys written by LearnCheck (attempt_history_* predates the learncheck_ prefix)
+export const isAppStorageKey = (key: string): boolean =>
+  key.startsWith('learncheck_') || key.startsWith('attempt_history_');
+
+/**
+ * Quota errors differ per browser (name, legacy codes)
+ */
+export const isQuotaExceededError = (error: unknown): boolean =>
+  error instanceof DOMException &&
+  (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED' || error.code === 22);
+
+// ============================================================================
+// INDEXEDDB
+// ============================================================================
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const openDatabase = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB not available'));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(RECORD_STORE);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => reject(new Error('IndexedDB upgrade blocked by another tab'));
+  });
+
+export const createIndexedDbAdapter = async (): Promise<StorageAdapter> => {
+  const db = await openDatabase();
+
+  // Resolves when the transaction commits, so quota errors (raised on commit) reject
+  const write = (apply: (store: IDBObjectStore) => void): Promise<void> =>
+    new Promise((resolve, reject) => {
+      const transaction = db.transaction(RECORD_STORE, 'readwrite');
+      apply(transaction.objectStore(RECORD_STORE));
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+
+  return {
+    name: 'indexeddb',
+    loadAll: async () => {
+      const store = db.transaction(RECORD_STORE, 'readonly').objectStore(RECORD_STORE);
+      const [keys, values] = await Promise.all([
+        requestToPromise(store.getAllKeys()),
+        requestToPromise(store.getAll()),
+      ]);
+      return new Map(keys.map((key, index) => [String(key), values[index] as string]));
+    },
+    set: (key, value) => write(store => store.put(value, key)),
+    remove: (key) => write(store => store.delete(key)),
+  };
+};
+
+// ============================================================================
+// LOCALSTORAGE
+// ============================================================================
+
+export const createLocalStorageAdapter = async (): Promise<StorageAdapter> => {
+  // Throws in Safari private mode / when blocked by browser settings
+  const probe = '__learncheck_probe__';
+  localStorage.setItem(probe, probe);
+  localStorage.removeItem(probe);
+
+  return {
+    name: 'localstorage',
+    loadAll: async () => {
+      const records = new Map<string, string>();
+      for (let i = 0; i < localStorage.length; i++) {
+        const key = localStorage.key(i);
+        if (key && isAppStorageKey(key)) {
+          records.set(key, localStorage.getItem(key) as string);
+        }
+      }
+      return records;
+    },
+    set: async (key, value) => localStorage.setItem(key, value),
+    remove: async (key) => localStorage.removeItem(key),
+  };
+};
+
+// ============================================================================
+// IN-MEMORY
+// ============================================================================
+
+export const createMemoryAdapter = async (): Promise<StorageAdapter> => ({
+  name: 'memory',
+  loadAll: async () => new Map(),
+  set: async () => undefined, // Records only live in the store cache
+  remove: async () => undefined,
+});
+
+export const ADAPTER_FACTORIES: Record<StorageAdapterName, () => Promise<StorageAdapter>> = {
+  indexeddb: createIndexedDbAdapter,
+  localstorage: createLocalStorageAdapter,
+  memory: createMemoryAdapter,
+};
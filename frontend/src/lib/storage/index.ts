@@ -0,0 +1,484 @@
+/**
+ * Client Storage for LearnCheck
+ * Handles state persistence dengan user_id dan tutorial_id sebagai key.
+ * Every persisted record goes through this module: it is validated against
+ * a runtime schema, saved with a schema version and migrated forward on
+ * load. Unreadable records are quarantined (see ./records.ts).
+ * Records live in IndexedDB by default (see ./adapters.ts); call
+ * initStorage() once before the app renders.
+ */
+
+import { z } from 'zod';
+import type { UserPreferences } from '../api';
+import {
+  STORAGE_PREFIX,
+  adoptLegacyKey,
+  createId,
+  quarantine,
+  readRecord,
+  removeRecord,
+  writeRecord,
+  type RecordDefinition
+} from './records';
+import * as store from './store';
+import type { StorageAdapterName } from './adapters';
+import {
+  assessmentStateMigrations,
+  attemptHistoryMigrations,
+  outboxMigrations,
+  progressMigrations,
+  syncStateMigrations,
+  userPreferencesMigrations
+} from './migrations';
+import {
+  assessmentStateSchema,
+  attemptHistoryEntrySchema,
+  outboxItemSchema,
+  progressDataSchema,
+  syncStateSchema,
+  userPreferencesSchema
+} from './schemas';
+import type {
+  AssessmentSession,
+  AssessmentState,
+  AttemptHistoryEntry,
+  OutboxItem,
+  ProgressData,
+  SyncState
+} from './types';
+
+export type {
+  AssessmentSession,
+  AssessmentState,
+  AttemptHistoryEntry,
+  OutboxItem,
+  ProgressData,
+  QuarantinedRecord,
+  StoredAnswers,
+  StoredConfidence,
+  SyncState
+} from './types';
+export type { StorageAdapterName } from './adapters';
+export { clearQuarantinedRecords, createId, listQuarantinedRecords } from './records';
+
+// ============================================================================
+// INITIALIZATION & RETENTION
+// ============================================================================
+
+/**
+ * Attempts keep their full detail (questions, answers, explanations) only up
+ * to these limits; older attempts are pruned to their score summary so the
+ * attempt count, percentages and max-attempt rules keep working
+ */
+export const RETENTION_POLICY = {
+  maxDetailedAttemptsPerTutorial: 10,
+  maxBytes: 4 * 1024 * 1024, // Below the ~5 MB localStorage quota of most browsers
+};
+
+export interface StorageUsage {
+  adapter: StorageAdapterName;
+  bytes: number;
+  maxBytes: number;
+  records: number;
+}
+
+/**
+ * Open the storage backend and load all records into memory.
+ * Falls back IndexedDB -> localStorage -> memory when a backend is unavailable.
+ */
+export const initStorage = async (preferred: StorageAdapterName = 'indexeddb'): Promise<StorageAdapterName> => {
+  const adapter = await store.initStore(preferred);
+
+  // Out of space: drop details of old attempts until well under the budget
+  store.setQuotaExceededHandler(() => pruneAttemptHistory(Math.min(store.getUsedBytes(), RETENTION_POLICY.maxBytes) / 2));
+  pruneAttemptHistory();
+
+  return adapter;
+};
+
+export const getStorageUsage = (): StorageUsage => ({
+  adapter: store.getAdapterName(),
+  bytes: store.getUsedBytes(),
+  maxBytes: RETENTION_POLICY.maxBytes,
+  records: store.keys().length,
+});
+
+// ============================================================================
+// RECORD DEFINITIONS
+// ============================================================================
+
+/**
+ * Bump this (and add a migration) whenever the shape of AssessmentState changes.
+ * Versions 1-7 were stored inside the state, v8+ in the storage envelope.
+ */
+export const ASSESSMENT_STATE_VERSION = 8;
+
+const assessmentStateRecord: RecordDefinition<AssessmentState> = {
+  name: 'assessment state',
+  version: ASSESSMENT_STATE_VERSION,
+  schema: assessmentStateSchema,
+  migrations: assessmentStateMigrations,
+  legacyVersion: (raw) => {
+    const version = (raw as { version?: unknown })?.version;
+    return typeof version === 'number' ? version : 0;
+  }
+};
+
+// History entries are validated one by one so a single corrupted attempt
+// does not hide the rest of the history
+const attemptHistoryRecord: RecordDefinition<unknown[]> = {
+  name: 'attempt history',
+  version: 1,
+  schema: z.array(z.unknown()),
+  migrations: attemptHistoryMigrations
+};
+
+const userPreferencesRecord: RecordDefinition<UserPreferences> = {
+  name: 'user preferences',
+  version: 1,
+  schema: userPreferencesSchema,
+  migrations: userPreferencesMigrations
+};
+
+const syncStateRecord: RecordDefinition<SyncState> = {
+  name: 'sync state',
+  version: 1,
+  schema: syncStateSchema,
+  migrations: syncStateMigrations
+};
+
+const outboxRecord: RecordDefinition<OutboxItem[]> = {
+  name: 'outbox',
+  version: 2,
+  schema: z.array(outboxItemSchema),
+  migrations: outboxMigrations
+};
+
+const progressRecord: RecordDefinition<ProgressData> = {
+  name: 'progress',
+  version: 1,
+  schema: progressDataSchema,
+  migrations: progressMigrations
+};
+
+// ============================================================================
+// STORAGE KEYS
+// ============================================================================
+
+const getAssessmentKey = (userId: string, tutorialId: string): string => {
+  return `${STORAGE_PREFIX}${userId}_${tutorialId}_answers`;
+};
+
+const getHistoryKey = (userId: string, tutorialId: string): string => {
+  return `${STORAGE_PREFIX}${userId}_${tutorialId}_history`;
+};
+
+// Written directly by Index.tsx before history moved into this module
+const getLegacyHistoryKey = (userId: string, tutorialId: string): string => {
+  return `attempt_history_${userId}_${tutorialId}`;
+};
+
+const getPreferencesKey = (userId: string): string => {
+  return `${STORAGE_PREFIX}${userId}_preferences`;
+};
+
+const getSyncStateKey = (userId: string, tutorialId: string): string => {
+  return `${STORAGE_PREFIX}${userId}_${tutorialId}_sync`;
+};
+
+// Shared by all users - each item carries its own userId
+const OUTBOX_KEY = `${STORAGE_PREFIX}outbox`;
+
+const getProgressKey = (userId: string, tutorialId: string): string => {
+  return `${STORAGE_PREFIX}${userId}_${tutorialId}_progress`;
+};
+
+const isHistoryKey = (key: string): boolean => key.startsWith(STORAGE_PREFIX) && key.endsWith('_history');
+
+// ============================================================================
+// ASSESSMENT STATE MANAGEMENT
+// ============================================================================
+
+/**
+ * Save full quiz session (questions, answers, timer) untuk specific tutorial
+ * @returns false when the session failed validation and was not saved
+ */
+export const saveAssessmentState = (session: AssessmentSession, lastUpdated = new Date().toISOString()): boolean => {
+  return writeRecord(getAssessmentKey(session.userId, session.tutorialId), assessmentStateRecord, {
+    ...session,
+    lastUpdated
+  });
+};
+
+/**
+ * Load saved quiz session untuk specific tutorial
+ */
+export const loadAssessmentState = (
+  userId: string,
+  tutorialId: string
+): AssessmentState | null => {
+  return readRecord(getAssessmentKey(userId, tutorialId), assessmentStateRecord);
+};
+
+/**
+ * Clear assessment state (e.g., after submission or reset)
+ */
+export const clearAssessmentState = (userId: string, tutorialId: string): void => {
+  removeRecord(getAssessmentKey(userId, tutorialId));
+};
+
+// ============================================================================
+// ATTEMPT HISTORY
+// ============================================================================
+
+/**
+ * Load attempt history, oldest first. Invalid entries are quarantined
+ * individually and the remaining entries are returned.
+ */
+export const loadAttemptHistory = (userId: string, tutorialId: string): AttemptHistoryEntry[] => {
+  const key = getHistoryKey(userId, tutorialId);
+  adoptLegacyKey(getLegacyHistoryKey(userId, tutorialId), key);
+  return readAttemptHistory(key);
+};
+
+const readAttemptHistory = (key: string): AttemptHistoryEntry[] => {
+  const entries = readRecord(key, attemptHistoryRecord);
+  if (!entries) {
+    return [];
+  }
+
+  const history: AttemptHistoryEntry[] = [];
+  entries.forEach((entry, index) => {
+    const parsed = attemptHistoryEntrySchema.safeParse(entry);
+    if (parsed.success) {
+      history.push(parsed.data as AttemptHistoryEntry);
+    } else {
+      const issue = parsed.error.issues[0];
+      quarantine(`${key}[${index}]`, JSON.stringify(entry), `Invalid attempt: ${issue.path.join('.')} ${issue.message}`);
+    }
+  });
+
+  if (history.length !== entries.length) {
+    writeRecord(key, attemptHistoryRecord, history);
+  }
+
+  return history;
+};
+
+/**
+ * Replace the stored attempt history
+ */
+export const saveAttemptHistory = (userId: string, tutorialId: string, history: AttemptHistoryEntry[]): void => {
+  const invalid = history.findIndex(entry => !attemptHistoryEntrySchema.safeParse(entry).success);
+  if (invalid !== -1) {
+    console.error(`Refusing to save attempt history: entry ${invalid} is invalid`);
+    return;
+  }
+
+  writeRecord(getHistoryKey(userId, tutorialId), attemptHistoryRecord, history);
+};
+
+/**
+ * Append a new attempt and return the updated history
+ * Pass the submission ID as id so the attempt matches the copy recorded by the backend
+ */
+export const appendAttemptHistory = (
+  userId: string,
+  tutorialId: string,
+  entry: Omit<AttemptHistoryEntry, 'id' | 'updatedAt'> & { id?: string }
+): AttemptHistoryEntry[] => {
+  const history = [
+    ...loadAttemptHistory(userId, tutorialId),
+    { id: createId(), ...entry, updatedAt: new Date().toISOString() }
+  ];
+  saveAttemptHistory(userId, tutorialId, history);
+  pruneAttemptHistory();
+  return loadAttemptHistory(userId, tutorialId);
+};
+
+// Last change on any device - attempts recorded before sync existed only have a timestamp
+const modifiedAt = (entry: AttemptHistoryEntry): string => entry.updatedAt ?? entry.timestamp;
+
+/**
+ * Merge attempts from the server into the local history (matched by id).
+ * A server copy replaces the local one only when it changed later, so
+ * attempts pruned here by the retention policy stay pruned. Invalid server
+ * entries are skipped.
+ * @returns Merged history, oldest first
+ */
+export const mergeAttemptHistory = (userId: string, tutorialId: string, remote: unknown[]): AttemptHistoryEntry[] => {
+  const byId = new Map(loadAttemptHistory(userId, tutorialId).map(entry => [entry.id, entry]));
+
+  remote.forEach((candidate) => {
+    const parsed = attemptHistoryEntrySchema.safeParse(candidate);
+    if (!parsed.success) {
+      console.warn('Skipping invalid attempt from server:', parsed.error.issues[0]);
+      return;
+    }
+
+    const entry = parsed.data as AttemptHistoryEntry;
+    const local = byId.get(entry.id);
+    if (!local || modifiedAt(entry) > modifiedAt(local)) {
+      byId.set(entry.id, entry);
+    }
+  });
+
+  const history = [...byId.values()].sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+  saveAttemptHistory(userId, tutorialId, history);
+  pruneAttemptHistory();
+  return loadAttemptHistory(userId, tutorialId);
+};
+
+const hasDetail = (entry: AttemptHistoryEntry) => Boolean(entry.results || entry.questions);
+
+const toSummary = ({
+  questions, userAnswers, flaggedQuestions, confidence, telemetry, results, ...summary
+}: AttemptHistoryEntry): AttemptHistoryEntry => ({ ...summary, pruned: true });
+
+/**
+ * Apply the retention policy across every stored history: keep full detail
+ * for the newest attempts per tutorial, then prune the oldest attempts
+ * overall until storage is below the byte budget
+ * @returns Number of attempts pruned
+ */
+export const pruneAttemptHistory = (maxBytes = RETENTION_POLICY.maxBytes): number => {
+  const histories = new Map(
+    store.keys().filter(isHistoryKey).map(key => [key, readAttemptHistory(key)])
+  );
+  let pruned = 0;
+
+  const pruneEntry = (key: string, index: number) => {
+    const history = [...(histories.get(key) as AttemptHistoryEntry[])];
+    history[index] = toSummary(history[index]);
+    histories.set(key, history);
+    writeRecord(key, attemptHistoryRecord, history);
+    pruned += 1;
+  };
+
+  // 1. Per-tutorial limit (history is stored oldest first)
+  histories.forEach((history, key) => {
+    const detailed = history.map((entry, index) => index).filter(index => hasDetail(history[index]));
+    detailed
+      .slice(0, Math.max(0, detailed.length - RETENTION_POLICY.maxDetailedAttemptsPerTutorial))
+      .forEach(index => pruneEntry(key, index));
+  });
+
+  // 2. Byte budget, oldest attempt first across all tutorials
+  const candidates = [...histories]
+    .flatMap(([key, history]) => history.map((entry, index) => ({ key, index, entry })))
+    .filter(({ entry }) => hasDetail(entry))
+    .sort((a, b) => a.entry.timestamp.localeCompare(b.entry.timestamp));
+
+  for (const { key, index } of candidates) {
+    if (store.getUsedBytes() <= maxBytes) {
+      break;
+    }
+    pruneEntry(key, index);
+  }
+
+  if (pruned > 0) {
+    console.warn(`Storage retention: pruned details of ${pruned} old attempt(s)`);
+  }
+
+  return pruned;
+};
+
+// ============================================================================
+// USER PREFERENCES MANAGEMENT
+// ============================================================================
+
+/**
+ * Save user UI preferences
+ */
+export const saveUserPreferences = (userId: string, preferences: UserPreferences): void => {
+  writeRecord(getPreferencesKey(userId), userPreferencesRecord, preferences);
+};
+
+/**
+ * Load user UI preferences
+ */
+export const loadUserPreferences = (userId: string): UserPreferences | null => {
+  return readRecord(getPreferencesKey(userId), userPreferencesRecord);
+};
+
+// ============================================================================
+// SERVER SYNC STATE
+// ============================================================================
+
+export const loadSyncState = (userId: string, tutorialId: string): SyncState => {
+  return readRecord(getSyncStateKey(userId, tutorialId), syncStateRecord) ?? { attemptsSyncedAt: null, draftSyncedAt: null };
+};
+
+export const saveSyncState = (userId: string, tutorialId: string, state: SyncState): void => {
+  writeRecord(getSyncStateKey(userId, tutorialId), syncStateRecord, state);
+};
+
+// ============================================================================
+// OUTBOX
+// ============================================================================
+
+export const loadOutbox = (): OutboxItem[] => {
+  return readRecord(OUTBOX_KEY, outboxRecord) ?? [];
+};
+
+export const saveOutbox = (items: OutboxItem[]): void => {
+  if (items.length === 0) {
+    removeRecord(OUTBOX_KEY);
+    return;
+  }
+  writeRecord(OUTBOX_KEY, outboxRecord, items);
+};
+
+// ============================================================================
+// PROGRESS TRACKING
+// ============================================================================
+
+/**
+ * Save progress tracking data
+ */
+export const saveProgress = (
+  userId: string,
+  tutorialId: string,
+  progress: ProgressData
+): void => {
+  writeRecord(getProgressKey(userId, tutorialId), progressRecord, progress);
+};
+
+/**
+ * Load progress tracking data
+ */
+export const loadProgress = (
+  userId: string,
+  tutorialId: string
+): ProgressData | null => {
+  return readRecord(getProgressKey(userId, tutorialId), progressRecord);
+};
+
+// ============================================================================
+// UTILITY FUNCTIONS
+// ============================================================================
+
+/**
+ * Get all stored assessment keys untuk specific user
+ */
+export const getAllUserAssessments = (userId: string): string[] => {
+  const prefix = `${STORAGE_PREFIX}${userId}_`;
+  return store.keys().filter(key => key.startsWith(prefix) && key.endsWith('_answers'));
+};
+
+/**
+ * Clear all data untuk specific user (useful for logout/reset)
+ */
+export const clearAllUserData = (userId: string): void => {
+  const prefix = `${STORAGE_PREFIX}${userId}_`;
+  store.keys()
+    .filter(key => key.startsWith(prefix) || key.startsWith(`attempt_history_${userId}_`))
+    .forEach(key => store.removeItem(key));
+};
+
+/**
+ * Check if records survive a reload (false in memory-only / privacy mode)
+ */
+export const isStorageAvailable = (): boolean => {
+  return store.getAdapterName() !== 'memory';
+};
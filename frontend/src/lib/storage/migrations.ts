@@ -0,0 +1,107 @@
+/**
+ * Forward migrations per persisted record
+ * Each entry upgrades data saved at version N (the key) to version N + 1.
+ * Never edit a published migration - add a new version instead.
+ */
+
+import { createId, type Migration } from './records';
+
+type LegacyRecord = Record<string, unknown>;
+
+const withQuestionType = (questions: LegacyRecord[]) =>
+  questions.map(question => ({ type: 'multiple-choice', ...question }));
+
+const asRecord = (data: unknown): LegacyRecord => {
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    throw new Error('Expected an object');
+  }
+  return data as LegacyRecord;
+};
+
+/**
+ * Quiz session (learncheck_{userId}_{tutorialId}_answers)
+ * v2 predates backend grading (no session to grade against) and cannot be migrated.
+ * Up to v7 the version was stored inside the state itself.
+ */
+export const assessmentStateMigrations: Record<number, Migration> = {
+  // v4 added question types
+  3: (data) => {
+    const state = asRecord(data);
+    return {
+      ...state,
+      questions: withQuestionType(state.questions as LegacyRecord[])
+    };
+  },
+  // v5 added flag-for-review markers
+  4: (data) => ({ flaggedQuestions: [], ...asRecord(data) }),
+  // v6 added confidence ratings
+  5: (data) => ({ confidence: {}, ...asRecord(data) }),
+  // v7 added telemetry
+  6: (data) => ({ telemetry: { questions: {}, visitOrder: [] }, ...asRecord(data) }),
+  // v8 moved the version into the storage envelope
+  7: (data) => {
+    const { version, ...state } = asRecord(data);
+    return state;
+  },
+};
+
+/**
+ * Attempt history (learncheck_{userId}_{tutorialId}_history, previously attempt_history_{userId}_{tutorialId})
+ */
+export const attemptHistoryMigrations: Record<number, Migration> = {
+  // v1: entries get a stable ID; questions saved before question types existed become multiple-choice
+  0: (data) => {
+    if (!Array.isArray(data)) {
+      throw new Error('Expected an array');
+    }
+    return data.map(item => {
+      const entry = asRecord(item);
+      return {
+        id: createId(),
+        ...entry,
+        ...(Array.isArray(entry.questions)
+          ? { questions: withQuestionType(entry.questions as LegacyRecord[]) }
+          : {})
+      };
+    });
+  },
+};
+
+/**
+ * User preferences (learncheck_{userId}_preferences)
+ */
+export const userPreferencesMigrations: Record<number, Migration> = {
+  // v1: lastUpdated moved into the storage envelope (savedAt)
+  0: (data) => {
+    const { lastUpdated, ...preferences } = asRecord(data);
+    return preferences;
+  },
+};
+
+/**
+ * Progress tracking (learncheck_{userId}_{tutorialId}_progress)
+ */
+export const progressMigrations: Record<number, Migration> = {
+  // v1: wrapped in the storage envelope, shape unchanged
+  0: (data) => asRecord(data),
+};
+
+export const syncStateMigrations: Record<number, Migration> = {};
+
+/**
+ * Outbox (learncheck_outbox)
+ */
+export const outboxMigrations: Record<number, Migration> = {
+  // v2: items record the launch that queued them. Queued submissions do not say whose they
+  // were, so their owner stays unknown; preference updates name their learner.
+  1: (data) => {
+    if (!Array.isArray(data)) {
+      throw new Error('Expected an array');
+    }
+    return data.map(item => {
+      const queued = asRecord(item);
+      const payload = queued.kind === 'preferences' ? asRecord(queued.payload) : {};
+      return { userId: typeof payload.userId === 'string' ? payload.userId : '', tutorialId: '', ...queued };
+    });
+  },
+};
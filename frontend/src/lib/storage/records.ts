@@ -0,0 +1,197 @@
+/**
+ * Versioned record layer on top of the key-value store (./store.ts)
+ * Every record is saved in an envelope with its schema version. Reads run
+ * forward migrations up to the current version and validate the result;
+ * records that cannot be read are quarantined instead of deleted.
+ */
+
+import type { ZodTypeAny } from 'zod';
+import * as store from './store';
+import type { QuarantinedRecord } from './types';
+
+export const STORAGE_PREFIX = 'learncheck_';
+const QUARANTINE_PREFIX = `${STORAGE_PREFIX}quarantine_`;
+
+/**
+ * Upgrade data saved at version N to version N + 1
+ */
+export type Migration = (data: unknown) => unknown;
+
+export interface RecordDefinition<T> {
+  name: string; // Used in logs and quarantine reasons
+  version: number; // Current schema version
+  schema: ZodTypeAny; // Must produce T (zod cannot infer it without strictNullChecks)
+  migrations: Record<number, Migration>; // Keyed by the version they upgrade from
+  legacyVersion?: (raw: unknown) => number; // Version of data saved before envelopes existed (default 0)
+}
+
+interface RecordEnvelope {
+  schemaVersion: number;
+  savedAt: string;
+  data: unknown;
+}
+
+const isEnvelope = (value: unknown): value is RecordEnvelope =>
+  typeof value === 'object' &&
+  value !== null &&
+  typeof (value as RecordEnvelope).schemaVersion === 'number' &&
+  'data' in value;
+
+/**
+ * Random ID for new records (attempts, quarantine entries)
+ */
+export const createId = (): string =>
+  typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function'
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+// ============================================================================
+// QUARANTINE
+// ============================================================================
+
+/**
+ * Move an unreadable value aside so it can be inspected or recovered later
+ */
+export const quarantine = (key: string, raw: string, reason: string): void => {
+  const record: QuarantinedRecord = {
+    key,
+    reason,
+    raw,
+    quarantinedAt: new Date().toISOString()
+  };
+
+  store.setItem(`${QUARANTINE_PREFIX}${createId()}`, JSON.stringify(record));
+  store.removeItem(key);
+  console.warn(`Quarantined storage record "${key}": ${reason}`);
+};
+
+const getQuarantineKeys = () => store.keys().filter(key => key.startsWith(QUARANTINE_PREFIX));
+
+/**
+ * All quarantined records, oldest first
+ */
+export const listQuarantinedRecords = (): QuarantinedRecord[] => {
+  return getQuarantineKeys()
+    .map(key => JSON.parse(store.getItem(key) as string) as QuarantinedRecord)
+    .sort((a, b) => a.quarantinedAt.localeCompare(b.quarantinedAt));
+};
+
+/**
+ * Permanently delete quarantined records
+ */
+export const clearQuarantinedRecords = (): void => {
+  getQuarantineKeys().forEach(key => store.removeItem(key));
+};
+
+// ============================================================================
+// READ / WRITE
+// ============================================================================
+
+/**
+ * Validate and save a record in a versioned envelope
+ * (persisted in the background - quota errors are handled by the store)
+ * @returns false when the data does not match the schema
+ */
+export const writeRecord = <T>(key: string, definition: RecordDefinition<T>, data: T): boolean => {
+  const parsed = definition.schema.safeParse(data);
+  if (!parsed.success) {
+    console.error(`Refusing to save invalid ${definition.name}:`, parsed.error.issues);
+    return false;
+  }
+
+  try {
+    const envelope: RecordEnvelope = {
+      schemaVersion: definition.version,
+      savedAt: new Date().toISOString(),
+      data: parsed.data
+    };
+    store.setItem(key, JSON.stringify(envelope));
+    return true;
+  } catch (error) {
+    console.error(`Failed to save ${definition.name}:`, error);
+    return false;
+  }
+};
+
+/**
+ * Read a record, migrating older versions forward (and saving the upgrade)
+ * @returns null when missing, written by a newer app version, or quarantined
+ */
+export const readRecord = <T>(key: string, definition: RecordDefinition<T>): T | null => {
+  const raw = store.getItem(key);
+  if (raw === null) {
+    return null;
+  }
+
+  let stored: unknown;
+  try {
+    stored = JSON.parse(raw);
+  } catch (error) {
+    quarantine(key, raw, 'Invalid JSON');
+    return null;
+  }
+
+  let version = isEnvelope(stored) ? stored.schemaVersion : definition.legacyVersion?.(stored) ?? 0;
+  let data = isEnvelope(stored) ? stored.data : stored;
+
+  if (version > definition.version) {
+    // Saved by a newer build (e.g. another tab after a deploy) - leave it alone
+    console.warn(`${definition.name} has schema v${version}, newer than supported v${definition.version}`);
+    return null;
+  }
+
+  const needsUpgrade = version < definition.version || !isEnvelope(stored);
+
+  while (version < definition.version) {
+    const migrate = definition.migrations[version];
+    if (!migrate) {
+      quarantine(key, raw, `No migration for ${definition.name} from v${version}`);
+      return null;
+    }
+
+    try {
+      data = migrate(data);
+    } catch (error) {
+      quarantine(key, raw, `Migration of ${definition.name} from v${version} failed: ${(error as Error).message}`);
+      return null;
+    }
+    version += 1;
+  }
+
+  const parsed = definition.schema.safeParse(data);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    quarantine(key, raw, `Invalid ${definition.name}: ${issue.path.join('.') || '(root)'} ${issue.message}`);
+    return null;
+  }
+
+  if (needsUpgrade) {
+    writeRecord(key, definition, parsed.data);
+  }
+
+  return parsed.data as T;
+};
+
+/**
+ * Move a value from a key used before this module owned it to its current key.
+ * When the current key already holds data the legacy value is quarantined.
+ */
+export const adoptLegacyKey = (legacyKey: string, key: string): void => {
+  const legacy = store.getItem(legacyKey);
+  if (legacy === null) {
+    return;
+  }
+
+  if (store.getItem(key) !== null) {
+    // Both exist (old build still running somewhere) - keep the legacy copy recoverable
+    quarantine(legacyKey, legacy, `Superseded by "${key}"`);
+    return;
+  }
+
+  store.setItem(key, legacy);
+  store.removeItem(legacyKey);
+};
+
+export const removeRecord = (key: string): void => {
+  store.removeItem(key);
+};
@@ -0,0 +1,181 @@
+/**
+ * Runtime schemas for persisted records
+ * Mirror the types in ./types.ts and ../api.ts - update both together.
+ * Objects that mirror backend responses use passthrough() so fields added
+ * by a newer backend survive a save/load round trip.
+ */
+
+import { z } from 'zod';
+
+const difficultySchema = z.enum(['easy', 'medium', 'hard']);
+const questionTypeSchema = z.enum(['multiple-choice', 'true-false', 'short-answer', 'multi-select']);
+const confidenceLevelSchema = z.enum(['guess', 'unsure', 'sure']);
+const answerValueSchema = z.union([z.string(), z.array(z.string())]);
+
+const optionSchema = z.object({
+  id: z.string(),
+  text: z.string(),
+}).passthrough();
+
+const codeSnippetSchema = z.object({
+  language: z.string(),
+  snippet: z.string(),
+});
+
+const baseQuestionShape = {
+  id: z.number(),
+  question: z.string(),
+  topic: z.string().optional(),
+  code: codeSnippetSchema.optional(),
+  math: z.boolean().optional(),
+};
+
+export const questionSchema = z.discriminatedUnion('type', [
+  z.object({ ...baseQuestionShape, type: z.literal('multiple-choice'), options: z.array(optionSchema) }).passthrough(),
+  z.object({ ...baseQuestionShape, type: z.literal('true-false'), options: z.array(optionSchema) }).passthrough(),
+  z.object({ ...baseQuestionShape, type: z.literal('short-answer') }).passthrough(),
+  z.object({ ...baseQuestionShape, type: z.literal('multi-select'), options: z.array(optionSchema) }).passthrough(),
+]);
+
+export const questionResultSchema = z.object({
+  questionId: z.number(),
+  type: questionTypeSchema.optional(),
+  question: z.string(),
+  topic: z.string().optional(),
+  code: codeSnippetSchema.optional(),
+  math: z.boolean().optional(),
+  options: z.array(optionSchema).optional(),
+  userAnswer: answerValueSchema,
+  correctAnswer: answerValueSchema,
+  acceptedAnswers: z.array(z.string()).optional(),
+  isCorrect: z.boolean(),
+  credit: z.number().min(0).max(1).optional(),
+  confidence: confidenceLevelSchema.optional(),
+  explanation: z.string(),
+}).passthrough();
+
+const storedAnswersSchema = z.record(z.string(), answerValueSchema);
+const storedConfidenceSchema = z.record(z.string(), confidenceLevelSchema);
+
+export const quizTelemetrySchema = z.object({
+  questions: z.record(
+    z.string(),
+    z.object({
+      timeOnTaskMs: z.number().nonnegative(),
+      answerChanges: z.number().int().nonnegative(),
+      visits: z.number().int().nonnegative(),
+    })
+  ),
+  visitOrder: z.array(z.number().int()),
+});
+
+const gradedSubmissionSchema = z.object({
+  id: z.string(),
+  sessionId: z.string(),
+  score: z.object({
+    correct: z.number(),
+    points: z.number().optional(),
+    total: z.number(),
+    percentage: z.number(),
+  }),
+  passed: z.boolean(),
+  passingScore: z.number(),
+  scoringMode: z.enum(['all-or-nothing', 'partial']).optional(),
+  calibration: z.object({
+    mastered: z.number(),
+    misconceptions: z.number(),
+    luckyGuesses: z.number(),
+    gaps: z.number(),
+    unrated: z.number(),
+  }).optional(),
+  results: z.array(questionResultSchema),
+  deadline: z.string().nullable(),
+  submittedLate: z.boolean(),
+  submittedAt: z.string(),
+}).passthrough();
+
+export const assessmentStateSchema = z.object({
+  sessionId: z.string().min(1),
+  questions: z.array(questionSchema).min(1),
+  difficulty: difficultySchema,
+  attemptNumber: z.number().int().nonnegative(),
+  deadline: z.string().nullable(),
+  answers: storedAnswersSchema,
+  flaggedQuestions: z.array(z.number().int()),
+  confidence: storedConfidenceSchema,
+  telemetry: quizTelemetrySchema,
+  currentQuestionIndex: z.number().int().nonnegative(),
+  isSubmitted: z.boolean(),
+  result: gradedSubmissionSchema.nullable(),
+  lastUpdated: z.string(),
+  tutorialId: z.string(),
+  userId: z.string(),
+});
+
+export const attemptHistoryEntrySchema = z.object({
+  id: z.string().min(1),
+  attemptNumber: z.number().int().nonnegative(),
+  score: z.number().nonnegative(),
+  totalQuestions: z.number().int().positive(),
+  percentage: z.number().optional(),
+  passed: z.boolean().optional(),
+  difficulty: difficultySchema,
+  timestamp: z.string(),
+  updatedAt: z.string().optional(),
+  questions: z.array(questionSchema).optional(),
+  userAnswers: storedAnswersSchema.optional(),
+  flaggedQuestions: z.array(z.number().int()).optional(),
+  confidence: storedConfidenceSchema.optional(),
+  telemetry: quizTelemetrySchema.optional(),
+  results: z.array(questionResultSchema).optional(),
+  pruned: z.boolean().optional(),
+});
+
+export const userPreferencesSchema = z.object({
+  theme: z.enum(['light', 'dark']).optional(),
+  fontSize: z.enum(['small', 'default', 'large']).optional(),
+  layoutWidth: z.enum(['default', 'fullWidth']).optional(),
+  language: z.enum(['id', 'en']).optional(),
+});
+
+export const syncStateSchema = z.object({
+  attemptsSyncedAt: z.string().nullable(),
+  draftSyncedAt: z.string().nullable(),
+});
+
+const outboxItemBaseShape = {
+  id: z.string().min(1),
+  userId: z.string(),
+  tutorialId: z.string(),
+  createdAt: z.string(),
+  tries: z.number().int().nonnegative(),
+};
+
+export const outboxItemSchema = z.discriminatedUnion('kind', [
+  z.object({
+    ...outboxItemBaseShape,
+    kind: z.literal('submission'),
+    payload: z.object({
+      sessionId: z.string().min(1),
+      answers: storedAnswersSchema,
+      confidence: storedConfidenceSchema.optional(),
+      telemetry: quizTelemetrySchema.optional(),
+      queuedAt: z.string().optional(),
+    }),
+  }),
+  z.object({
+    ...outboxItemBaseShape,
+    kind: z.literal('preferences'),
+    payload: z.object({
+      userId: z.string(),
+      preferences: userPreferencesSchema,
+    }),
+  }),
+]);
+
+export const progressDataSchema = z.object({
+  completedQuestions: z.number().int().nonnegative(),
+  totalQuestions: z.number().int().nonnegative(),
+  lastActiveTimestamp: z.string(),
+  timeSpent: z.number().nonnegative(),
+});
@@ -0,0 +1,196 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  ASSESSMENT_STATE_VERSION,
+  clearQuarantinedRecords,
+  listQuarantinedRecords,
+  loadAssessmentState,
+  loadAttemptHistory,
+  loadOutbox,
+  loadUserPreferences
+} from './index';
+import * as store from './store';
+
+// Without initStore() the store is memory-only, which is all these tests need
+
+const USER = 'siti';
+const TUTORIAL = '42';
+const ASSESSMENT_KEY = `learncheck_${USER}_${TUTORIAL}_answers`;
+const HISTORY_KEY = `learncheck_${USER}_${TUTORIAL}_history`;
+const LEGACY_HISTORY_KEY = `attempt_history_${USER}_${TUTORIAL}`;
+
+const legacyQuestion = {
+  id: 1,
+  question: 'Apa itu JSX?',
+  options: ['A', 'B', 'C', 'D'].map(id => ({ id, text: `Opsi ${id}` })),
+};
+
+// Quiz session as saved by the v3 build: version inside the state, no question types
+const assessmentStateV3 = {
+  version: 3,
+  sessionId: 'session-1',
+  questions: [legacyQuestion],
+  difficulty: 'medium',
+  attemptNumber: 0,
+  deadline: null,
+  answers: { 0: 'B' },
+  currentQuestionIndex: 0,
+  isSubmitted: false,
+  result: null,
+  lastUpdated: '2024-05-01T10:00:00.000Z',
+  tutorialId: TUTORIAL,
+  userId: USER,
+};
+
+const legacyAttempt = {
+  attemptNumber: 1,
+  score: 2,
+  totalQuestions: 3,
+  difficulty: 'medium',
+  timestamp: '2024-05-01T10:00:00.000Z',
+};
+
+const envelope = (schemaVersion: number, data: unknown) =>
+  JSON.stringify({ schemaVersion, savedAt: '2024-05-01T10:00:00.000Z', data });
+
+const storedEnvelope = (key: string) => JSON.parse(store.getItem(key) as string);
+
+beforeEach(() => {
+  vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  store.keys().forEach(key => store.removeItem(key));
+  vi.restoreAllMocks();
+});
+
+describe('migrations', () => {
+  it('upgrades a v3 quiz session to the current version and saves the upgrade', () => {
+    store.setItem(ASSESSMENT_KEY, JSON.stringify(assessmentStateV3));
+
+    const state = loadAssessmentState(USER, TUTORIAL);
+
+    expect(state).toMatchObject({
+      sessionId: 'session-1',
+      answers: { 0: 'B' },
+      flaggedQuestions: [],
+      confidence: {},
+      telemetry: { questions: {}, visitOrder: [] },
+    });
+    expect(state?.questions[0].type).toBe('multiple-choice');
+    expect(state).not.toHaveProperty('version');
+
+    const saved = storedEnvelope(ASSESSMENT_KEY);
+    expect(saved.schemaVersion).toBe(ASSESSMENT_STATE_VERSION);
+    expect(saved.data).toEqual(state);
+  });
+
+  it('keeps values a migration would otherwise default', () => {
+    const questions = [{ ...legacyQuestion, type: 'multiple-choice' }];
+    store.setItem(ASSESSMENT_KEY, JSON.stringify({ ...assessmentStateV3, version: 4, questions, flaggedQuestions: [0] }));
+
+    expect(loadAssessmentState(USER, TUTORIAL)?.flaggedQuestions).toEqual([0]);
+  });
+
+  it('moves legacy attempt history to its current key and gives entries an ID', () => {
+    store.setItem(LEGACY_HISTORY_KEY, JSON.stringify([{ ...legacyAttempt, questions: [legacyQuestion] }]));
+
+    const [attempt] = loadAttemptHistory(USER, TUTORIAL);
+
+    expect(attempt.id).toEqual(expect.any(String));
+    expect(attempt.questions?.[0].type).toBe('multiple-choice');
+    expect(store.getItem(LEGACY_HISTORY_KEY)).toBeNull();
+    expect(storedEnvelope(HISTORY_KEY).schemaVersion).toBe(1);
+    expect(loadAttemptHistory(USER, TUTORIAL)[0].id).toBe(attempt.id); // ID is stable once saved
+  });
+
+  it('moves lastUpdated of preferences into the envelope', () => {
+    store.setItem(`learncheck_${USER}_preferences`, JSON.stringify({ theme: 'dark', lastUpdated: '2024-05-01T10:00:00.000Z' }));
+
+    expect(loadUserPreferences(USER)).toEqual({ theme: 'dark' });
+  });
+
+  it('records the learner of outbox items queued before items had an owner', () => {
+    store.setItem('learncheck_outbox', envelope(1, [
+      { id: 'a', kind: 'submission', payload: { sessionId: 'session-1', answers: {} }, createdAt: '2024-05-01T10:00:00.000Z', tries: 0 },
+      { id: 'b', kind: 'preferences', payload: { userId: USER, preferences: {} }, createdAt: '2024-05-01T10:00:00.000Z', tries: 0 },
+    ]));
+
+    expect(loadOutbox().map(({ userId, tutorialId }) => ({ userId, tutorialId }))).toEqual([
+      { userId: '', tutorialId: '' },
+      { userId: USER, tutorialId: '' },
+    ]);
+  });
+
+  it('leaves records written by a newer version alone', () => {
+    const newer = envelope(ASSESSMENT_STATE_VERSION + 1, { sessionId: 'from-the-future' });
+    store.setItem(ASSESSMENT_KEY, newer);
+
+    expect(loadAssessmentState(USER, TUTORIAL)).toBeNull();
+    expect(store.getItem(ASSESSMENT_KEY)).toBe(newer);
+    expect(listQuarantinedRecords()).toEqual([]);
+  });
+});
+
+describe('quarantine', () => {
+  it('quarantines invalid JSON with its raw value', () => {
+    store.setItem(ASSESSMENT_KEY, '{not json');
+
+    expect(loadAssessmentState(USER, TUTORIAL)).toBeNull();
+    expect(store.getItem(ASSESSMENT_KEY)).toBeNull();
+    expect(listQuarantinedRecords()).toEqual([
+      expect.objectContaining({ key: ASSESSMENT_KEY, raw: '{not json', reason: 'Invalid JSON' }),
+    ]);
+  });
+
+  it('quarantines versions without a migration path', () => {
+    store.setItem(ASSESSMENT_KEY, JSON.stringify({ ...assessmentStateV3, version: 2 }));
+
+    expect(loadAssessmentState(USER, TUTORIAL)).toBeNull();
+    expect(listQuarantinedRecords()[0].reason).toBe('No migration for assessment state from v2');
+  });
+
+  it('quarantines a record whose migration throws', () => {
+    store.setItem(LEGACY_HISTORY_KEY, JSON.stringify({ not: 'an array' }));
+
+    expect(loadAttemptHistory(USER, TUTORIAL)).toEqual([]);
+    expect(listQuarantinedRecords()[0].reason).toBe('Migration of attempt history from v0 failed: Expected an array');
+  });
+
+  it('quarantines a record that fails schema validation', () => {
+    store.setItem(ASSESSMENT_KEY, envelope(ASSESSMENT_STATE_VERSION, { sessionId: '' }));
+
+    expect(loadAssessmentState(USER, TUTORIAL)).toBeNull();
+    expect(listQuarantinedRecords()[0].reason).toMatch(/^Invalid assessment state: sessionId /);
+  });
+
+  it('quarantines single invalid attempts and keeps the rest of the history', () => {
+    store.setItem(HISTORY_KEY, envelope(1, [
+      { id: 'a', ...legacyAttempt },
+      { id: 'b', ...legacyAttempt, totalQuestions: 0 },
+    ]));
+
+    expect(loadAttemptHistory(USER, TUTORIAL).map(attempt => attempt.id)).toEqual(['a']);
+    expect(listQuarantinedRecords()).toEqual([expect.objectContaining({ key: `${HISTORY_KEY}[1]` })]);
+    expect(storedEnvelope(HISTORY_KEY).data).toHaveLength(1);
+  });
+
+  it('keeps a superseded legacy history recoverable', () => {
+    store.setItem(HISTORY_KEY, envelope(1, [{ id: 'current', ...legacyAttempt }]));
+    store.setItem(LEGACY_HISTORY_KEY, JSON.stringify([legacyAttempt]));
+
+    expect(loadAttemptHistory(USER, TUTORIAL).map(attempt => attempt.id)).toEqual(['current']);
+    expect(listQuarantinedRecords()).toEqual([
+      expect.objectContaining({ key: LEGACY_HISTORY_KEY, reason: `Superseded by "${HISTORY_KEY}"` }),
+    ]);
+  });
+
+  it('clears quarantined records', () => {
+    store.setItem(ASSESSMENT_KEY, '{not json');
+    loadAssessmentState(USER, TUTORIAL);
+
+    clearQuarantinedRecords();
+
+    expect(listQuarantinedRecords()).toEqual([]);
+    expect(store.keys()).toEqual([]);
+  });
+});
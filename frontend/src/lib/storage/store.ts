@@ -0,0 +1,213 @@
+/**
+ * Synchronous key-value store over an async storage adapter
+ * Records are hydrated into memory once (initStore, before the app renders),
+ * reads are served from memory, and writes are persisted in the background.
+ * Keeps the storage API synchronous while IndexedDB is the default backend.
+ * Writes made by other tabs are applied to the memory copy as they commit.
+ */
+
+import {
+  ADAPTER_FACTORIES,
+  isAppStorageKey,
+  isQuotaExceededError,
+  type StorageAdapter,
+  type StorageAdapterName
+} from './adapters';
+
+const cache = new Map<string, string>();
+let adapter: StorageAdapter | null = null;
+let usedBytes = 0;
+let quotaExceededHandler: (() => void) | null = null;
+let syncChannel: BroadcastChannel | null = null;
+let stopSync: (() => void) | null = null;
+
+const SYNC_CHANNEL = 'learncheck-storage';
+
+// Strings are UTF-16 in both localStorage and memory - 2 bytes per code unit
+const recordSize = (key: string, value: string) => (key.length + value.length) * 2;
+
+// ============================================================================
+// CROSS-TAB SYNC
+// ============================================================================
+
+interface SyncMessage {
+  key: string;
+  value: string | null; // null: removed
+}
+
+/**
+ * Another tab wrote a record - update the memory copy only, that tab already persisted it
+ */
+const applyRemoteChange = ({ key, value }: SyncMessage) => {
+  const previous = cache.get(key);
+  usedBytes -= previous === undefined ? 0 : recordSize(key, previous);
+
+  if (value === null) {
+    cache.delete(key);
+  } else {
+    usedBytes += recordSize(key, value);
+    cache.set(key, value);
+  }
+};
+
+/**
+ * Follow writes of other tabs: localStorage reports them with `storage` events,
+ * IndexedDB writes are announced on a BroadcastChannel once committed (see persist).
+ * The in-memory adapter is private to its tab.
+ */
+const startSync = (name: StorageAdapterName) => {
+  stopSync?.();
+  stopSync = null;
+
+  if (name === 'localstorage') {
+    const handleStorage = (event: StorageEvent) => {
+      if (event.storageArea === localStorage && event.key && isAppStorageKey(event.key)) {
+        applyRemoteChange({ key: event.key, value: event.newValue });
+      }
+    };
+    window.addEventListener('storage', handleStorage);
+    stopSync = () => window.removeEventListener('storage', handleStorage);
+  } else if (name === 'indexeddb' && typeof BroadcastChannel !== 'undefined') {
+    const channel = new BroadcastChannel(SYNC_CHANNEL);
+    channel.onmessage = (event: MessageEvent<SyncMessage>) => applyRemoteChange(event.data);
+    syncChannel = channel;
+    stopSync = () => {
+      channel.close();
+      syncChannel = null;
+    };
+  }
+};
+
+// ============================================================================
+// INITIALIZATION
+// ============================================================================
+
+// Fallback order when the preferred adapter cannot be opened
+const FALLBACKS: Record<StorageAdapterName, StorageAdapterName[]> = {
+  indexeddb: ['indexeddb', 'localstorage', 'memory'],
+  localstorage: ['localstorage', 'memory'],
+  memory: ['memory'],
+};
+
+/**
+ * Copy records left in localStorage (before IndexedDB became the default) into the adapter
+ */
+const importFromLocalStorage = async (target: StorageAdapter) => {
+  const keys: string[] = [];
+  try {
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i);
+      if (key && isAppStorageKey(key)) {
+        keys.push(key);
+      }
+    }
+  } catch (error) {
+    return; // localStorage blocked - nothing to import
+  }
+
+  for (const key of keys) {
+    const value = localStorage.getItem(key) as string;
+    if (!cache.has(key)) {
+      await target.set(key, value);
+      cache.set(key, value);
+    }
+    localStorage.removeItem(key);
+  }
+};
+
+/**
+ * Open the preferred adapter (falling back when unavailable) and load every record
+ * @returns Name of the adapter in use
+ */
+export const initStore = async (preferred: StorageAdapterName = 'indexeddb'): Promise<StorageAdapterName> => {
+  for (const name of FALLBACKS[preferred]) {
+    try {
+      const candidate = await ADAPTER_FACTORIES[name]();
+      const records = await candidate.loadAll();
+
+      cache.clear();
+      records.forEach((value, key) => cache.set(key, value));
+      adapter = candidate;
+
+      if (name === 'indexeddb') {
+        // Keys that fail to import stay in localStorage and are retried next load
+        await importFromLocalStorage(candidate).catch((error) => {
+          console.warn('Failed to import localStorage records into IndexedDB:', error);
+        });
+      }
+      break;
+    } catch (error) {
+      console.warn(`Storage adapter "${name}" unavailable:`, error);
+    }
+  }
+
+  usedBytes = 0;
+  cache.forEach((value, key) => {
+    usedBytes += recordSize(key, value);
+  });
+
+  startSync(adapter?.name ?? 'memory');
+  return adapter?.name ?? 'memory';
+};
+
+/**
+ * Called when the backend rejects a write for lack of space; should free
+ * space synchronously (the failed write is retried once afterwards)
+ */
+export const setQuotaExceededHandler = (handler: (() => void) | null): void => {
+  quotaExceededHandler = handler;
+};
+
+// ============================================================================
+// PERSISTENCE
+// ============================================================================
+
+const persist = (key: string, retry = true): void => {
+  if (!adapter) {
+    return; // Not initialized - memory only
+  }
+
+  const value = cache.get(key);
+  const operation = value === undefined ? adapter.remove(key) : adapter.set(key, value);
+
+  operation.then(() => {
+    syncChannel?.postMessage({ key, value: value ?? null } satisfies SyncMessage);
+  }, (error) => {
+    if (retry && isQuotaExceededError(error) && quotaExceededHandler) {
+      quotaExceededHandler();
+      persist(key, false); // Writes the latest value, not the one that failed
+      return;
+    }
+    console.error(`Failed to persist storage record "${key}":`, error);
+  });
+};
+
+// ============================================================================
+// KEY-VALUE API
+// ============================================================================
+
+export const getItem = (key: string): string | null => cache.get(key) ?? null;
+
+export const setItem = (key: string, value: string): void => {
+  const previous = cache.get(key);
+  usedBytes += recordSize(key, value) - (previous === undefined ? 0 : recordSize(key, previous));
+  cache.set(key, value);
+  persist(key);
+};
+
+export const removeItem = (key: string): void => {
+  const previous = cache.get(key);
+  if (previous === undefined) {
+    return;
+  }
+
+  usedBytes -= recordSize(key, previous);
+  cache.delete(key);
+  persist(key);
+};
+
+export const keys = (): string[] => [...cache.keys()];
+
+export const getUsedBytes = (): number => usedBytes;
+
+export const getAdapterName = (): StorageAdapterName => adapter?.name ?? 'memory';
@@ -0,0 +1,112 @@
+/**
+ * Persisted record types for LearnCheck
+ * Runtime schemas for these live in ./schemas.ts
+ */
+
+import type {
+  AnswerValue,
+  ConfidenceLevel,
+  Difficulty,
+  GradedSubmission,
+  Question,
+  QuestionResult,
+  QuizTelemetry,
+  SubmitAnswersRequest,
+  UserPreferences
+} from '../api';
+
+export interface StoredAnswers {
+  [questionIndex: number]: AnswerValue; // "0": "A", "1": "true", "2": "jawaban singkat", "3": ["A", "C"], etc.
+}
+
+export interface StoredConfidence {
+  [questionIndex: number]: ConfidenceLevel;
+}
+
+/**
+ * Satu sesi kuis lengkap - disimpan dan dipulihkan sebagai satu unit
+ * supaya jawaban yang dipulihkan tetap menunjuk ke soal yang sama
+ */
+export interface AssessmentState {
+  sessionId: string; // Backend quiz session (holds the answer key)
+  questions: Question[];
+  difficulty: Difficulty;
+  attemptNumber: number;
+  deadline: string | null; // ISO timestamp saat timer habis, null jika belum mulai
+  answers: StoredAnswers;
+  flaggedQuestions: number[]; // Question indices marked for review
+  confidence: StoredConfidence;
+  telemetry: QuizTelemetry; // Time on task, answer changes, visit order
+  currentQuestionIndex: number;
+  isSubmitted: boolean;
+  result: GradedSubmission | null; // Graded response from backend after submit
+  lastUpdated: string;
+  tutorialId: string;
+  userId: string;
+}
+
+export type AssessmentSession = Omit<AssessmentState, 'lastUpdated'>;
+
+/**
+ * Satu entry riwayat attempt
+ */
+export interface AttemptHistoryEntry {
+  id: string; // Stable across devices/exports, generated when the attempt is recorded
+  attemptNumber: number;
+  score: number; // Jumlah jawaban benar
+  totalQuestions: number;
+  percentage?: number; // Undefined for legacy entries
+  passed?: boolean; // Graded against the passing score at that time
+  difficulty: Difficulty;
+  timestamp: string;
+  updatedAt?: string; // Last change on any device, used to resolve sync conflicts (defaults to timestamp)
+  questions?: Question[];
+  userAnswers?: StoredAnswers;
+  flaggedQuestions?: number[]; // Questions flagged for review during the attempt
+  confidence?: StoredConfidence; // Self-rated confidence per question
+  telemetry?: QuizTelemetry; // Interaction data - undefined for older entries
+  results?: QuestionResult[]; // Graded results - undefined for legacy entries
+  pruned?: boolean; // Detail removed by the storage retention policy
+}
+
+/**
+ * Server sync bookkeeping per tutorial
+ */
+export interface SyncState {
+  attemptsSyncedAt: string | null; // Attempts changed after this are still to be uploaded
+  draftSyncedAt: string | null; // lastUpdated of the draft last accepted by the server
+}
+
+/**
+ * Request made while offline, replayed by ../outbox.ts when the backend is reachable
+ */
+interface OutboxItemBase {
+  id: string;
+  // Launch that queued the item - the device may be shared, so only this learner's launch delivers it.
+  // Empty for items queued before the owner was recorded (any launch delivers those).
+  userId: string;
+  tutorialId: string;
+  createdAt: string;
+  tries: number; // Failed deliveries that were not network errors
+}
+
+export type OutboxItem =
+  | (OutboxItemBase & { kind: 'submission'; payload: SubmitAnswersRequest })
+  | (OutboxItemBase & { kind: 'preferences'; payload: { userId: string; preferences: UserPreferences } });
+
+export interface ProgressData {
+  completedQuestions: number;
+  totalQuestions: number;
+  lastActiveTimestamp: string;
+  timeSpent: number; // in seconds
+}
+
+/**
+ * Record moved aside because it could not be parsed, migrated or validated
+ */
+export interface QuarantinedRecord {
+  key: string; // Storage key the record was read from
+  reason: string;
+  raw: string; // Original stored value, untouched
+  quarantinedAt: string;
+}
@@ -0,0 +1,128 @@
+/**
+ * Server sync for attempt history and in-progress drafts
+ * Local storage stays the source of truth for the UI; the backend copy lets
+ * learners continue on another device. Conflicts are resolved by timestamp
+ * (the record changed last wins). Every call may fail while offline - changes
+ * that were not uploaded are picked up by the next successful sync.
+ */
+
+import { apiService, type RemoteDraft } from './api';
+import {
+  loadAssessmentState,
+  loadAttemptHistory,
+  loadSyncState,
+  mergeAttemptHistory,
+  saveAssessmentState,
+  saveSyncState,
+  type AssessmentState,
+  type AttemptHistoryEntry,
+  type SyncState
+} from './storage';
+
+const DRAFT_PUSH_DELAY_MS = 2000; // Auto-save fires on every answer - upload at most once per pause
+
+const scheduledDraftPushes = new Map<string, ReturnType<typeof setTimeout>>();
+
+const updateSyncState = (userId: string, tutorialId: string, changes: Partial<SyncState>) => {
+  saveSyncState(userId, tutorialId, { ...loadSyncState(userId, tutorialId), ...changes });
+};
+
+// ============================================================================
+// ATTEMPT HISTORY
+// ============================================================================
+
+/**
+ * Upload attempts changed since the last sync and merge the server history back
+ * @returns Merged local history, oldest first
+ * @throws When the backend is unreachable (local history is left untouched)
+ */
+export const syncAttemptHistory = async (userId: string, tutorialId: string): Promise<AttemptHistoryEntry[]> => {
+  const startedAt = new Date().toISOString();
+  const { attemptsSyncedAt } = loadSyncState(userId, tutorialId);
+
+  const changed = loadAttemptHistory(userId, tutorialId).filter(
+    entry => attemptsSyncedAt === null || (entry.updatedAt ?? entry.timestamp) > attemptsSyncedAt
+  );
+
+  const remote = await apiService.syncAttemptHistory(userId, tutorialId, changed);
+  const history = mergeAttemptHistory(userId, tutorialId, remote);
+
+  // Attempts recorded while the request was in flight are uploaded next time
+  updateSyncState(userId, tutorialId, { attemptsSyncedAt: startedAt });
+  return history;
+};
+
+// ============================================================================
+// DRAFTS
+// ============================================================================
+
+/**
+ * Upload the local draft, or remove the server draft once the attempt is
+ * submitted / abandoned here
+ */
+export const pushDraft = async (userId: string, tutorialId: string): Promise<void> => {
+  const key = `${userId}_${tutorialId}`;
+  clearTimeout(scheduledDraftPushes.get(key));
+  scheduledDraftPushes.delete(key);
+
+  const state = loadAssessmentState(userId, tutorialId);
+  const { draftSyncedAt } = loadSyncState(userId, tutorialId);
+
+  if (!state || state.isSubmitted) {
+    // Only drafts this device uploaded (or adopted) are removed - never another device's
+    if (draftSyncedAt !== null) {
+      await apiService.deleteDraft(userId, tutorialId);
+      updateSyncState(userId, tutorialId, { draftSyncedAt: null });
+    }
+    return;
+  }
+
+  if (state.lastUpdated === draftSyncedAt) {
+    return;
+  }
+
+  // Rejected when another device saved later - that draft wins and is resumed on next load
+  await apiService.saveDraft(userId, tutorialId, state);
+  updateSyncState(userId, tutorialId, { draftSyncedAt: state.lastUpdated });
+};
+
+/**
+ * Debounced pushDraft for auto-save; failures are retried by the next push
+ */
+export const scheduleDraftPush = (userId: string, tutorialId: string): void => {
+  const key = `${userId}_${tutorialId}`;
+  clearTimeout(scheduledDraftPushes.get(key));
+  scheduledDraftPushes.set(key, setTimeout(() => {
+    pushDraft(userId, tutorialId).catch(() => {
+      // Offline - the draft stays local until the next successful push
+    });
+  }, DRAFT_PUSH_DELAY_MS));
+};
+
+/**
+ * Load the saved session, adopting the server draft when another device
+ * changed it more recently than this one
+ */
+export const loadNewestDraft = async (userId: string, tutorialId: string): Promise<AssessmentState | null> => {
+  const local = loadAssessmentState(userId, tutorialId);
+
+  let remote: RemoteDraft | null;
+  try {
+    remote = await apiService.getDraft(userId, tutorialId);
+  } catch (error) {
+    return local; // Offline - resume whatever this device has
+  }
+
+  if (!remote || (local && local.lastUpdated >= remote.updatedAt)) {
+    return local;
+  }
+
+  // Validated by the storage module; an invalid server draft leaves the local one in place
+  const { lastUpdated, ...session } = { ...(remote.draft as AssessmentState), userId, tutorialId };
+  if (!saveAssessmentState(session, remote.updatedAt)) {
+    return local;
+  }
+
+  updateSyncState(userId, tutorialId, { draftSyncedAt: remote.updatedAt });
+  return loadAssessmentState(userId, tutorialId);
+};
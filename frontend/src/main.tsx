@@ -1,5 +1,23 @@
 import { createRoot } from "react-dom/client";
 import App from "./App.tsx";
 import "./index.css";
+import { initStorage, type StorageAdapterName } from "./lib/storage";
+import { startOutboxReplay } from "./lib/outbox";
+import { registerServiceWorker } from "./lib/serviceWorker";
+import { startHeightReporter } from "./lib/embed";
 
-createRoot(document.getElementById("root")!).render(<App />);
+// ?storage=memory keeps nothing after the tab closes (privacy mode / shared computers)
+const STORAGE_ADAPTERS: StorageAdapterName[] = ["indexeddb", "localstorage", "memory"];
+const requestedAdapter = new URLSearchParams(window.location.search).get("storage") as StorageAdapterName | null;
+
+// Storage is read synchronously by the app, so records are loaded before the first render
+initStorage(STORAGE_ADAPTERS.includes(requestedAdapter) ? requestedAdapter : "indexeddb").finally(() => {
+  const root = document.getElementById("root")!;
+  createRoot(root).render(<App />);
+  // Embedded in Dicoding: the host sizes the iframe to the content
+  startHeightReporter(root);
+  // Requests queued offline in a previous visit are replayed once storage is loaded
+  startOutboxReplay();
+});
+
+registerServiceWorker();
@@ -14,19 +14,59 @@ import LoadingSpinner from "@/components/LoadingSpinner";
 import IntroScreen from "@/components/IntroScreen";
 import QuizHeader from "@/components/QuizHeader";
 import Timer from "@/components/Timer";
-import { ChevronLeft, ChevronRight, RotateCcw, Send, LogOut } from "lucide-react";
+import ShortcutHelpDialog from "@/components/ShortcutHelpDialog";
+import SettingsSheet from "@/components/SettingsSheet";
+import SubmitReviewScreen from "@/components/SubmitReviewScreen";
+import CalibrationReport from "@/components/CalibrationReport";
+import AttemptComparison from "@/components/AttemptComparison";
+import ExportMenu from "@/components/ExportMenu";
+import { ChevronLeft, ChevronRight, RotateCcw, Send, LogOut, Flag, Keyboard, CloudOff } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
-import { apiService, type Question, type UserPreferences } from "@/lib/api";
+import { useI18n } from "@/hooks/useI18n";
+import { useQuizShortcuts } from "@/hooks/useQuizShortcuts";
+import { useQuestionTelemetry, EMPTY_TELEMETRY } from "@/hooks/useQuestionTelemetry";
+import {
+  apiService,
+  DEFAULT_QUIZ_CONFIG,
+  type AnswerValue,
+  type ConfidenceLevel,
+  type Difficulty,
+  type GradedSubmission,
+  type Question,
+  type QuizConfig,
+  type QuizTelemetry,
+  type SubmitAnswersRequest,
+  type UserPreferences
+} from "@/lib/api";
 import { 
   saveAssessmentState, 
-  loadAssessmentState, 
   clearAssessmentState,
-  saveUserPreferences,
-  loadUserPreferences 
+  loadUserPreferences,
+  loadAttemptHistory,
+  appendAttemptHistory,
+  type AttemptHistoryEntry,
+  type StoredAnswers,
+  type StoredConfidence
 } from "@/lib/storage";
+import { exportAttempts, type ExportFormat } from "@/lib/exportAttempts";
+import { loadNewestDraft, pushDraft, scheduleDraftPush, syncAttemptHistory } from "@/lib/sync";
+import {
+  enqueueSubmission,
+  flushOutbox,
+  getOutboxItems,
+  isNetworkError,
+  subscribeOutbox,
+  type OutboxEvent
+} from "@/lib/outbox";
+import { getActivePreferences, loadPreferences, syncPreferences, updatePreferences } from "@/lib/preferences";
+import { isEmbedded, postToHost } from "@/lib/embed";
+import { useEmbedHost } from "@/hooks/useEmbedHost";
+import { requireLaunchContext } from "@/lib/launch";
+import { resolveLocale } from "@/lib/i18n";
 
 const Index = () => {
   const { toast } = useToast();
+  const { t, locale } = useI18n();
   
   // ========================================================================
   // STATE MANAGEMENT
@@ -35,138 +75,144 @@ const Index = () => {
   const [hasStarted, setHasStarted] = useState(false);
   const [showRules, setShowRules] = useState(false); // Track if showing rules modal
   const [viewingHistoryIndex, setViewingHistoryIndex] = useState<number | null>(null); // Track which history to view
+  const [comparingAttempts, setComparingAttempts] = useState<[number, number] | null>(null); // History indexes, older first
   const [currentQuestionIndex, setCurrentQuestionIndex] = useState(0);
-  const [userAnswers, setUserAnswers] = useState<Record<number, string>>({});
+  const [userAnswers, setUserAnswers] = useState<StoredAnswers>({});
+  const [flaggedQuestions, setFlaggedQuestions] = useState<number[]>([]); // Question indices marked for review
+  const [confidence, setConfidence] = useState<StoredConfidence>({}); // Self-rated confidence per question
+  const [showShortcutHelp, setShowShortcutHelp] = useState(false);
+  const [isReviewing, setIsReviewing] = useState(false); // Pre-submit review screen
   const [isSubmitted, setIsSubmitted] = useState(false);
+  const [isSubmissionQueued, setIsSubmissionQueued] = useState(false); // Submitted offline, waiting in the outbox
   const [isLoading, setIsLoading] = useState(false);
   const [questions, setQuestions] = useState<Question[]>([]);
+  const [sessionId, setSessionId] = useState<string | null>(null); // Backend quiz session (answer key)
+  const [gradedResult, setGradedResult] = useState<GradedSubmission | null>(null);
   const [isGeneratingQuestions, setIsGeneratingQuestions] = useState(false);
   const [apiError, setApiError] = useState<string | null>(null);
-  const [userPreferences, setUserPreferences] = useState<UserPreferences | null>(null);
   const [tutorialTitle, setTutorialTitle] = useState<string>("AI di Balik Layar: Integrasi AI di Back-End");
-  const [attemptHistory, setAttemptHistory] = useState<any[]>([]);
+  const [attemptHistory, setAttemptHistory] = useState<AttemptHistoryEntry[]>([]);
+  const [quizConfig, setQuizConfig] = useState<QuizConfig>(DEFAULT_QUIZ_CONFIG); // Per-tutorial config from backend
   
   // Adaptive difficulty tracking
   const [attemptNumber, setAttemptNumber] = useState(0);
-  const [currentDifficulty, setCurrentDifficulty] = useState<'easy' | 'medium' | 'hard'>('medium');
+  const [currentDifficulty, setCurrentDifficulty] = useState<Difficulty>('medium');
   const [previousScore, setPreviousScore] = useState<number | null>(null);
+
+  // Timer deadline (ISO) - set once when the attempt starts, persisted with the session
+  const [deadline, setDeadline] = useState<string | null>(null);
   
   // Ref to prevent infinite loop
   const isGeneratingRef = useRef(false);
+  // Guards against double submit (button + time up firing together)
+  const isSubmittingRef = useRef(false);
+  // Latest outbox handler - the subscription is made once but needs current state
+  const outboxEventRef = useRef<(event: OutboxEvent) => void>(() => undefined);
+  // Pending preferences fetch - question generation waits for the language preference
+  const preferencesRequestRef = useRef<Promise<UserPreferences | null>>(Promise.resolve(null));
 
   // ========================================================================
   // URL PARAMETERS
   // ========================================================================
-  // Get tutorial_id and user_id from query params (from Dicoding iFrame)
+  // Learner and tutorial come from the signed launch token (see lib/launch)
   // ========================================================================
   
-  const urlParams = new URLSearchParams(window.location.search);
-  const tutorialId = urlParams.get('tutorial_id') || '1';
-  const userId = urlParams.get('user_id') || 'demo_user';
+  const { tutorialId, userId } = requireLaunchContext();
 
   const currentQuestion = questions[currentQuestionIndex];
   const totalQuestions = questions.length;
   const currentAnswer = userAnswers[currentQuestionIndex] || "";
-  const quizDuration = 5; // 5 minutes
+  // Short answers / multi-select can be cleared back to empty, so only count non-empty values
+  const isQuestionAnswered = (index: number) => {
+    const answer = userAnswers[index];
+    return Array.isArray(answer) ? answer.length > 0 : Boolean(answer?.trim());
+  };
+  const answeredQuestions = questions.map((_, index) => index).filter(isQuestionAnswered);
+  const answeredCount = answeredQuestions.length;
+  const quizDuration = quizConfig.timeLimitMinutes;
+  const isQuizScreenActive = hasStarted && !isSubmitted && !isSubmissionQueued && !isLoading && viewingHistoryIndex === null && totalQuestions > 0;
+
+  // Time on task only runs on the question screen (not on the review screen)
+  const {
+    telemetry,
+    setTelemetry,
+    recordAnswerChange,
+    snapshot: snapshotTelemetry
+  } = useQuestionTelemetry(isQuizScreenActive && !isReviewing, currentQuestionIndex);
+  const hasReachedMaxAttempts = quizConfig.maxAttempts > 0 && attemptHistory.length >= quizConfig.maxAttempts;
 
   // ========================================================================
   // LOAD SAVED STATE ON MOUNT
   // ========================================================================
   useEffect(() => {
-    // Load saved assessment state if exists
-    const savedState = loadAssessmentState(userId, tutorialId);
-    if (savedState && !savedState.isSubmitted) {
-      setUserAnswers(savedState.answers);
-      setCurrentQuestionIndex(savedState.currentQuestionIndex);
-      
-      toast({
-        title: "Progress dimuat",
-        description: "Melanjutkan dari terakhir kali",
-      });
-    }
+    // Apply the preferences saved on this device, then merge the backend copy
+    loadPreferences(userId);
+    preferencesRequestRef.current = syncPreferences(userId).catch(() => {
+      // Offline - device copy (or defaults) stays active
+      return null;
+    });
 
-    // Load user preferences
-    const savedPreferences = loadUserPreferences(userId);
-    if (savedPreferences) {
-      setUserPreferences(savedPreferences);
-      applyUserPreferences(savedPreferences);
-    } else {
-      // Fetch from API if not in localStorage
-      fetchUserPreferences();
-    }
+    // Tell the embedding page (Dicoding) the quiz is loaded
+    postToHost({
+      type: 'ready',
+      payload: { tutorialId, userId, locale: resolveLocale(getActivePreferences().language) }
+    });
 
-    // Load attempt history
-    const historyKey = `attempt_history_${userId}_${tutorialId}`;
-    const savedHistory = localStorage.getItem(historyKey);
-    if (savedHistory) {
-      try {
-        const parsedHistory = JSON.parse(savedHistory);
-        setAttemptHistory(parsedHistory);
-      } catch (error) {
-        // Silent fail - use empty history
-      }
-    }
-  }, [tutorialId, userId]);
+    // Load attempt history (invalid entries are quarantined by the storage module)
+    setAttemptHistory(loadAttemptHistory(userId, tutorialId));
 
-  // ========================================================================
-  // AUTO-SAVE ANSWERS
-  // ========================================================================
-  useEffect(() => {
-    if (hasStarted && Object.keys(userAnswers).length > 0) {
-      saveAssessmentState(userId, tutorialId, userAnswers, currentQuestionIndex, isSubmitted);
-    }
-  }, [userAnswers, currentQuestionIndex, isSubmitted, hasStarted, userId, tutorialId]);
+    // Then merge attempts made on other devices; retried whenever the browser comes back online
+    const syncHistory = () => {
+      syncAttemptHistory(userId, tutorialId).then(setAttemptHistory).catch(() => {
+        // Offline - local history stays as-is
+      });
+    };
+    const syncWithServer = () => {
+      syncHistory();
+      pushDraft(userId, tutorialId).catch(() => {
+        // Still unreachable - draft is uploaded by a later push
+      });
+    };
 
-  // ========================================================================
-  // FETCH USER PREFERENCES FROM API
-  // ========================================================================
-  const fetchUserPreferences = async () => {
-    try {
-      const preferences = await apiService.getUserPreferences(userId);
-      setUserPreferences(preferences);
-      saveUserPreferences(userId, preferences);
-      applyUserPreferences(preferences);
-    } catch (error) {
-      // Silent fail - use defaults
-    }
-  };
+    syncHistory();
+    window.addEventListener('online', syncWithServer);
+    return () => window.removeEventListener('online', syncWithServer);
+  }, [tutorialId, userId]);
 
   // ========================================================================
-  // APPLY USER PREFERENCES TO UI
+  // AUTO-SAVE SESSION
   // ========================================================================
+  // Saves the whole session (questions included) as soon as questions exist,
+  // so a reload resumes the exact same quiz instead of generating a new one
   // ========================================================================
-  
-  const applyUserPreferences = (prefs: UserPreferences) => {
-    const root = document.documentElement;
-    
-    // Apply theme
-    if (prefs.theme === 'dark') {
-      root.classList.add('dark');
-    } else {
-      root.classList.remove('dark');
-    }
-
-    // Apply font size
-    if (prefs.fontSize === 'large') {
-      root.style.fontSize = '18px';
-    } else if (prefs.fontSize === 'small') {
-      root.style.fontSize = '14px';
-    } else {
-      root.style.fontSize = '16px';
-    }
-
-    // Apply layout width
-    if (prefs.layoutWidth === 'fullWidth') {
-      root.classList.add('layout-full-width');
-    } else {
-      root.classList.remove('layout-full-width');
+  useEffect(() => {
+    if (questions.length > 0 && sessionId) {
+      saveAssessmentState({
+        userId,
+        tutorialId,
+        sessionId,
+        questions,
+        difficulty: currentDifficulty,
+        attemptNumber,
+        deadline,
+        answers: userAnswers,
+        flaggedQuestions,
+        confidence,
+        telemetry,
+        currentQuestionIndex,
+        isSubmitted,
+        result: gradedResult
+      });
+      // Lets the attempt continue on another device
+      scheduleDraftPush(userId, tutorialId);
     }
-  };
+  }, [questions, sessionId, currentDifficulty, attemptNumber, deadline, userAnswers, flaggedQuestions, confidence, telemetry, currentQuestionIndex, isSubmitted, gradedResult, userId, tutorialId]);
 
   // ========================================================================
-  // GENERATE QUESTIONS ON INITIAL MOUNT ONLY
+  // RESTORE SAVED SESSION OR GENERATE QUESTIONS ON INITIAL MOUNT ONLY
   // ========================================================================
   // Uses ref to prevent infinite loop - only generates once on mount
+  // An unfinished saved session is resumed as-is (same questions & answers)
   // ========================================================================
   
   useEffect(() => {
@@ -177,36 +223,104 @@ const Index = () => {
 
     isGeneratingRef.current = true;
 
+    // Quiz config is optional - defaults keep the quiz usable if it fails
+    const fetchQuizConfig = async (): Promise<QuizConfig> => {
+      try {
+        const config = await apiService.getQuizConfig(tutorialId);
+        setQuizConfig(config);
+        return config;
+      } catch (error) {
+        return DEFAULT_QUIZ_CONFIG;
+      }
+    };
+
+    const restoreSavedSession = async (): Promise<boolean> => {
+      // May be a draft started on another device
+      const savedState = await loadNewestDraft(userId, tutorialId);
+      if (!savedState || savedState.isSubmitted) {
+        return false;
+      }
+
+      setQuestions(savedState.questions);
+      setSessionId(savedState.sessionId);
+      setCurrentDifficulty(savedState.difficulty);
+      setAttemptNumber(savedState.attemptNumber);
+      setDeadline(savedState.deadline);
+      setUserAnswers(savedState.answers);
+      setFlaggedQuestions(savedState.flaggedQuestions);
+      setConfidence(savedState.confidence);
+      setTelemetry(savedState.telemetry);
+      setCurrentQuestionIndex(savedState.currentQuestionIndex);
+      setIsSubmissionQueued(getOutboxItems().some(
+        item => item.kind === 'submission' && item.payload.sessionId === savedState.sessionId
+      ));
+      // Attempt already running before reload - go straight back to the quiz
+      setHasStarted(savedState.deadline !== null);
+
+      toast({
+        title: t("toast.progressRestoredTitle"),
+        description: t("toast.progressRestoredDescription"),
+      });
+
+      // Only title & config are needed, questions come from the saved session
+      fetchQuizConfig();
+      try {
+        const tutorial = await apiService.getTutorial(tutorialId);
+        setTutorialTitle(tutorial.title);
+      } catch (error) {
+        // Silent fail - keep default title
+      }
+
+      return true;
+    };
+
+    // Questions follow the learner's language preference, which may still be loading
+    const resolveQuestionLanguage = async () =>
+      resolveLocale((loadUserPreferences(userId) ?? await preferencesRequestRef.current)?.language);
+
     const generateQuestionsFromAPI = async () => {
       setIsGeneratingQuestions(true);
       setApiError(null);
       
       try {
-        // 1. Fetch tutorial content from mock Dicoding API
-        const tutorial = await apiService.getTutorial(tutorialId);
+        // 1. Fetch tutorial content from mock Dicoding API + quiz config + language
+        const [tutorial, config, language] = await Promise.all([
+          apiService.getTutorial(tutorialId),
+          fetchQuizConfig(),
+          resolveQuestionLanguage()
+        ]);
         
         // Save tutorial title for intro screen
         setTutorialTitle(tutorial.title);
 
+        // First attempt starts at the difficulty configured for this tutorial
+        const startingDifficulty = config.startingDifficulty;
+        setCurrentDifficulty(startingDifficulty);
+
         // 2. Generate questions via LLM with adaptive difficulty
         const response = await apiService.generateQuestions({
           content: tutorial.content,
-          difficulty: currentDifficulty,
-          questionCount: 3,
-          language: 'id',
+          difficulty: startingDifficulty,
+          questionCount: config.questionCount,
+          language,
           tutorialTitle: tutorial.title,
           attemptNumber, // For cache busting
           previousScore: previousScore || undefined, // For adaptive difficulty
-          userId // For personalized questions
+          questionTypes: config.questionTypes,
+          codeQuestions: config.codeQuestions
         });
 
         // 3. Handle response
         if (response.data?.questions && response.data.questions.length > 0) {
+          setSessionId(response.data.sessionId);
           setQuestions(response.data.questions);
           
           toast({
-            title: response.fallback ? "Menggunakan Soal Demo 📝" : "Soal AI Berhasil Dibuat! 🤖",
-            description: `${response.data.questions.length} soal ${response.fallback ? 'demo' : 'AI'} siap dikerjakan (${response.difficulty || currentDifficulty})`,
+            title: response.fallback ? t("toast.demoQuestionsTitle") : t("toast.aiQuestionsTitle"),
+            description: t(response.fallback ? "toast.demoQuestionsDescription" : "toast.aiQuestionsDescription", {
+              count: response.data.questions.length,
+              difficulty: t(`difficulty.${(response.difficulty as Difficulty) || startingDifficulty}`)
+            }),
             variant: response.fallback ? "default" : "default"
           });
         } else {
@@ -218,8 +332,8 @@ const Index = () => {
         isGeneratingRef.current = false; // Reset on error
         
         toast({
-          title: "❌ Gagal Generate Soal AI",
-          description: "Backend API tidak tersedia. Cek koneksi backend!",
+          title: t("toast.generateFailedTitle"),
+          description: t("toast.generateFailedDescription"),
           variant: "destructive"
         });
       } finally {
@@ -227,28 +341,103 @@ const Index = () => {
       }
     };
 
-    generateQuestionsFromAPI();
+    restoreSavedSession().then((restored) => {
+      if (!restored) {
+        generateQuestionsFromAPI();
+      }
+    });
   }, [tutorialId]); // Only run once on mount - tutorialId is static from URL
   
   // ========================================================================
   // HANDLERS
   // ========================================================================
 
-  const handleAnswerSelect = (answerId: string) => {
+  const handleAnswerSelect = (answer: AnswerValue) => {
+    // Changing an existing answer (typing a short answer counts once per visit)
+    if (isQuestionAnswered(currentQuestionIndex) && JSON.stringify(currentAnswer) !== JSON.stringify(answer)) {
+      recordAnswerChange(currentQuestionIndex, currentQuestion?.type === "short-answer");
+    }
+
+    // Progress for the host - reported once per question, not on every change
+    const isNowAnswered = Array.isArray(answer) ? answer.length > 0 : Boolean(answer.trim());
+    if (!isQuestionAnswered(currentQuestionIndex) && isNowAnswered) {
+      postToHost({
+        type: 'answered',
+        payload: { questionIndex: currentQuestionIndex, answeredCount: answeredCount + 1, totalQuestions }
+      });
+    }
+
     setUserAnswers((prev) => ({
       ...prev,
-      [currentQuestionIndex]: answerId,
+      [currentQuestionIndex]: answer,
     }));
   };
 
+  // Keyboard: A-D / 1-4 pick the n-th option (toggles for multi-select)
+  const handleSelectOptionByIndex = (optionIndex: number) => {
+    if (!currentQuestion || currentQuestion.type === "short-answer") {
+      return;
+    }
+
+    const option = currentQuestion.options[optionIndex];
+    if (!option) {
+      return;
+    }
+
+    if (currentQuestion.type === "multi-select") {
+      const selected = Array.isArray(currentAnswer) ? currentAnswer : [];
+      const next = selected.includes(option.id)
+        ? selected.filter((id) => id !== option.id)
+        : [...selected, option.id];
+      handleAnswerSelect(currentQuestion.options.map((o) => o.id).filter((id) => next.includes(id)));
+      return;
+    }
+
+    handleAnswerSelect(option.id);
+  };
+
+  const handleConfidenceChange = (level: ConfidenceLevel | undefined) => {
+    setConfidence((prev) => {
+      const next = { ...prev };
+      if (level) {
+        next[currentQuestionIndex] = level;
+      } else {
+        delete next[currentQuestionIndex];
+      }
+      return next;
+    });
+  };
+
+  const handleToggleFlag = () => {
+    setFlaggedQuestions((prev) =>
+      prev.includes(currentQuestionIndex)
+        ? prev.filter((index) => index !== currentQuestionIndex)
+        : [...prev, currentQuestionIndex].sort((a, b) => a - b)
+    );
+  };
+
+  // Submit button and Ctrl+Enter open the review screen; the final submit happens there
+  const handleRequestSubmit = () => {
+    setIsReviewing(true);
+  };
+
+  const handleGoToQuestion = (questionIndex: number) => {
+    setIsReviewing(false);
+    setCurrentQuestionIndex(questionIndex);
+  };
+
   const handlePrevious = () => {
     if (currentQuestionIndex > 0) {
       setCurrentQuestionIndex(currentQuestionIndex - 1);
     }
   };
 
+  // Next needs an answer to the current question - checked here so the
+  // button and the → / J shortcut follow the same rule
+  const canGoNext = currentQuestionIndex < totalQuestions - 1 && isQuestionAnswered(currentQuestionIndex);
+
   const handleNext = () => {
-    if (currentQuestionIndex < totalQuestions - 1) {
+    if (canGoNext) {
       setCurrentQuestionIndex(currentQuestionIndex + 1);
     }
   };
@@ -261,45 +450,128 @@ const Index = () => {
     // Auto-save akan trigger via useEffect
   };
 
-  const handleSubmit = () => {
-    setIsLoading(true);
+  // Shows the graded result and records the attempt - directly after submit,
+  // or when a submission queued offline is delivered by the outbox
+  const completeSubmission = (result: GradedSubmission, finalTelemetry: QuizTelemetry) => {
+    setGradedResult(result);
+    setIsSubmitted(true);
+    setIsSubmissionQueued(false);
     
-    setTimeout(() => {
+    // Final state is persisted by the auto-save effect (isSubmitted: true)
+    
+    // Save graded attempt to history
+    const newHistoryEntry: Omit<AttemptHistoryEntry, 'updatedAt'> = {
+      id: result.id, // Same ID as the copy the backend recorded with the submission
+      attemptNumber: attemptNumber,
+      score: result.score.correct,
+      totalQuestions: result.score.total,
+      percentage: result.score.percentage,
+      passed: result.passed,
+      difficulty: currentDifficulty,
+      timestamp: result.submittedAt,
+      questions: questions, // Save questions for history view
+      userAnswers: userAnswers, // Save user answers for history view
+      flaggedQuestions,
+      confidence,
+      telemetry: finalTelemetry,
+      results: result.results
+    };
+    
+    setAttemptHistory(appendAttemptHistory(userId, tutorialId, newHistoryEntry));
+    postToHost({
+      type: 'submitted',
+      payload: {
+        submissionId: result.id,
+        attemptNumber,
+        correct: result.score.correct,
+        total: result.score.total,
+        percentage: result.score.percentage,
+        passed: result.passed
+      }
+    });
+    syncAttemptHistory(userId, tutorialId).then(setAttemptHistory).catch(() => {
+      // Offline - uploaded by the next sync
+    });
+    
+    toast({
+      title: t("toast.submittedTitle"),
+      description: t("toast.submittedDescription"),
+    });
+  };
+
+  const handleSubmit = async () => {
+    if (!sessionId || isSubmittingRef.current || isSubmitted || isSubmissionQueued) {
+      return;
+    }
+
+    isSubmittingRef.current = true;
+    setIsLoading(true);
+
+    // Includes the time spent on the question shown while submitting
+    const finalTelemetry = snapshotTelemetry();
+    const request: SubmitAnswersRequest = {
+      sessionId,
+      answers: userAnswers,
+      confidence,
+      telemetry: finalTelemetry
+    };
+
+    try {
+      // Grading happens on the backend - answer key never reaches the browser
+      const result = await apiService.submitAnswers(request);
+      completeSubmission(result, finalTelemetry);
+    } catch (error) {
+      if (isNetworkError(error)) {
+        // Answers are kept on the device and sent (then graded) once back online
+        enqueueSubmission(request);
+        setIsSubmissionQueued(true);
+        toast({
+          title: t("toast.offlineTitle"),
+          description: t("toast.offlineDescription"),
+        });
+      } else {
+        toast({
+          title: t("toast.submitFailedTitle"),
+          description: t("toast.submitFailedDescription"),
+          variant: "destructive"
+        });
+      }
+    } finally {
+      isSubmittingRef.current = false;
       setIsLoading(false);
-      setIsSubmitted(true);
-      
-      // Save final state
-      saveAssessmentState(userId, tutorialId, userAnswers, currentQuestionIndex, true);
-      
-      // Calculate and save to history
-      const score = calculateScore();
-      const newHistoryEntry = {
-        attemptNumber: attemptNumber,
-        score: score,
-        totalQuestions: questions.length,
-        difficulty: currentDifficulty,
-        timestamp: new Date().toISOString(),
-        questions: questions, // Save questions for history view
-        userAnswers: userAnswers // Save user answers for history view
-      };
-      
-      const historyKey = `attempt_history_${userId}_${tutorialId}`;
-      const updatedHistory = [...attemptHistory, newHistoryEntry];
-      setAttemptHistory(updatedHistory);
-      localStorage.setItem(historyKey, JSON.stringify(updatedHistory));
-      
-      toast({
-        title: "Kuis selesai! ✅",
-        description: "Jawaban Anda telah tersimpan.",
-      });
-    }, 1000);
+    }
   };
 
+  outboxEventRef.current = (event) => {
+    if (event.type === 'queued' || event.item.kind !== 'submission' || event.item.payload.sessionId !== sessionId) {
+      return;
+    }
+
+    if (event.type === 'delivered') {
+      if (!isSubmitted) {
+        completeSubmission(event.result as GradedSubmission, event.item.payload.telemetry ?? telemetry);
+      }
+      return;
+    }
+
+    // Rejected by the backend (e.g. quiz session expired) - back to the quiz to retry
+    setIsSubmissionQueued(false);
+    toast({
+      title: t("toast.submitFailedTitle"),
+      description: t("toast.queuedRejectedDescription"),
+      variant: "destructive"
+    });
+  };
+
+  useEffect(() => subscribeOutbox((event) => outboxEventRef.current(event)), []);
+
+  // Timer guarantees a single call per deadline, including deadlines
+  // that already passed while the tab was closed (fires right after resume)
   const handleTimeUp = () => {
     if (!isSubmitted) {
       toast({
-        title: "Waktu habis!",
-        description: "Kuis akan otomatis disubmit.",
+        title: t("toast.timeUpTitle"),
+        description: t("toast.timeUpDescription"),
         variant: "destructive",
       });
       handleSubmit();
@@ -309,47 +581,93 @@ const Index = () => {
   const handleExit = () => {
     // Clear state and redirect back to parent (Dicoding)
     clearAssessmentState(userId, tutorialId);
+    pushDraft(userId, tutorialId).catch(() => {
+      // Offline - the server draft expires with its quiz session
+    });
     
     toast({
-      title: "Keluar dari kuis",
-      description: "Terima kasih telah mengerjakan kuis.",
+      title: t("toast.exitTitle"),
+      description: t("toast.exitDescription"),
     });
     
     setTimeout(() => {
-      if (window.parent !== window) {
-        window.parent.postMessage({ type: 'LEARNCHECK_EXIT' }, '*');
+      if (isEmbedded()) {
+        postToHost({ type: 'exited', payload: { completed: isSubmitted } });
       } else {
         window.location.href = '/';
       }
     }, 1000);
   };
 
-  const handleStart = () => {
-    if (questions.length === 0 || isGeneratingQuestions) {
+  const handleExport = (format: ExportFormat, attempts: AttemptHistoryEntry[]) => {
+    try {
+      exportAttempts(format, attempts, { userId, tutorialId, tutorialTitle, locale });
+    } catch (error) {
+      toast({
+        title: t("export.failedTitle"),
+        description: t("export.failedDescription"),
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleStart = async () => {
+    if (questions.length === 0 || isGeneratingQuestions || !sessionId) {
       toast({
-        title: "Soal belum siap",
-        description: "Soal sedang disiapkan, coba lagi sebentar...",
+        title: t("toast.notReadyTitle"),
+        description: t("toast.notReadyDescription"),
+        variant: "destructive"
+      });
+      return;
+    }
+
+    // A resumed attempt (deadline already set) may always continue
+    if (hasReachedMaxAttempts && !deadline) {
+      toast({
+        title: t("toast.limitReachedTitle"),
+        description: t("toast.limitReachedDescription", { count: quizConfig.maxAttempts }),
         variant: "destructive"
       });
       return;
     }
 
     setIsLoading(true);
-    setTimeout(() => {
-      setHasStarted(true);
-      setIsLoading(false);
-    }, 500);
+
+    // Deadline is fixed once per attempt so it survives reloads
+    let attemptDeadline = deadline;
+    if (!attemptDeadline) {
+      try {
+        // Server confirms the deadline; convert it to the local clock to absorb skew
+        const timing = await apiService.startSession(sessionId, quizDuration);
+        const clockOffset = Date.now() - new Date(timing.serverTime).getTime();
+        attemptDeadline = new Date(new Date(timing.deadline).getTime() + clockOffset).toISOString();
+      } catch (error) {
+        // Backend unavailable - fall back to a local deadline
+        attemptDeadline = new Date(Date.now() + quizDuration * 60 * 1000).toISOString();
+      }
+      setDeadline(attemptDeadline);
+    }
+
+    setHasStarted(true);
+    setIsLoading(false);
+    postToHost({
+      type: 'started',
+      payload: { sessionId, attemptNumber, totalQuestions, difficulty: currentDifficulty, deadline: attemptDeadline }
+    });
   };
 
   const handleTryAgain = async () => {
+    if (hasReachedMaxAttempts) {
+      return;
+    }
+
     setIsLoading(true);
     
     // ========================================================================
     // CALCULATE ADAPTIVE DIFFICULTY BASED ON PREVIOUS SCORE
     // ========================================================================
     
-    const score = calculateScore();
-    const scorePercentage = (score / questions.length) * 100;
+    const scorePercentage = gradedResult?.score.percentage ?? 0;
     setPreviousScore(scorePercentage);
     
     let nextDifficulty = currentDifficulty;
@@ -365,12 +683,21 @@ const Index = () => {
     
     // Clear saved state
     clearAssessmentState(userId, tutorialId);
+    pushDraft(userId, tutorialId).catch(() => {
+      // Offline - the server draft expires with its quiz session
+    });
     
     // Reset state
     setUserAnswers({});
+    setFlaggedQuestions([]);
+    setConfidence({});
+    setTelemetry(EMPTY_TELEMETRY);
+    setIsReviewing(false);
     setCurrentQuestionIndex(0);
     setIsSubmitted(false);
+    setGradedResult(null);
     setHasStarted(false);
+    setDeadline(null);
     
     // Increment attempt number for cache busting
     const nextAttempt = attemptNumber + 1;
@@ -387,22 +714,27 @@ const Index = () => {
       const response = await apiService.generateQuestions({
         content: tutorial.content,
         difficulty: nextDifficulty,
-        questionCount: 3,
-        language: 'id',
+        questionCount: quizConfig.questionCount,
+        language: locale, // UI locale already follows the language preference
         tutorialTitle: tutorial.title,
         attemptNumber: nextAttempt,
         previousScore: scorePercentage,
-        userId
+        questionTypes: quizConfig.questionTypes,
+        codeQuestions: quizConfig.codeQuestions
       });
 
       if (response.data?.questions && response.data.questions.length > 0) {
+        setSessionId(response.data.sessionId);
         setQuestions(response.data.questions);
         
         const difficultyEmoji = nextDifficulty === 'hard' ? '🔥' : nextDifficulty === 'easy' ? '🌱' : '⚡';
         
         toast({
-          title: `Soal baru berhasil dibuat! ${difficultyEmoji}`,
-          description: `${response.data.questions.length} soal AI (${nextDifficulty}) siap dikerjakan`,
+          title: t("toast.newQuestionsTitle", { emoji: difficultyEmoji }),
+          description: t("toast.newQuestionsDescription", {
+            count: response.data.questions.length,
+            difficulty: t(`difficulty.${nextDifficulty}`)
+          }),
         });
       } else {
         throw new Error('No questions generated');
@@ -410,8 +742,8 @@ const Index = () => {
     } catch (error) {
       
       toast({
-        title: "❌ Gagal membuat soal baru",
-        description: "Backend API error. Coba lagi!",
+        title: t("toast.newQuestionsFailedTitle"),
+        description: t("toast.newQuestionsFailedDescription"),
         variant: "destructive"
       });
     } finally {
@@ -420,16 +752,52 @@ const Index = () => {
     }
   };
 
-  const calculateScore = () => {
-    let correct = 0;
-    questions.forEach((question, index) => {
-      if (userAnswers[index] === question.correctAnswer) {
-        correct++;
-      }
-    });
-    return correct;
+  // ========================================================================
+  // KEYBOARD SHORTCUTS
+  // ========================================================================
+  // Active only on the question screen (not intro, history, results or
+  // while the help dialog is open). On the review screen only Ctrl+Enter
+  // (final submit) and ? work.
+  // ========================================================================
+
+  const onQuestionScreen = (handler: () => void) => () => {
+    if (!isReviewing) {
+      handler();
+    }
   };
 
+  useQuizShortcuts(isQuizScreenActive && !showShortcutHelp, {
+    onSelectOption: (optionIndex) => {
+      if (!isReviewing) {
+        handleSelectOptionByIndex(optionIndex);
+      }
+    },
+    onNext: onQuestionScreen(handleNext),
+    onPrevious: onQuestionScreen(handlePrevious),
+    onToggleFlag: onQuestionScreen(handleToggleFlag),
+    onSubmit: isReviewing ? handleSubmit : handleRequestSubmit,
+    onShowHelp: () => setShowShortcutHelp(true),
+  });
+
+  // ========================================================================
+  // EMBED HOST COMMANDS
+  // ========================================================================
+
+  useEmbedHost({
+    // Host theme (e.g. Dicoding dark mode) - saved like a change in the settings panel
+    onSetTheme: (theme) => {
+      if (getActivePreferences().theme !== theme) {
+        updatePreferences(userId, { theme });
+      }
+    },
+    // Only an attempt in progress can be force-submitted (skips the review screen)
+    onSubmit: () => {
+      if (hasStarted) {
+        handleSubmit();
+      }
+    },
+  });
+
   // ========================================================================
   // RENDER: Loading screen with countdown
   // ========================================================================
@@ -441,12 +809,12 @@ const Index = () => {
           <LoadingSpinner 
             message={
               isSubmitted 
-                ? "Memproses jawaban Anda..." 
+                ? t("loading.submitting") 
                 : hasStarted 
-                ? "Menyiapkan soal baru..." 
+                ? t("loading.preparingNew") 
                 : isGeneratingQuestions
-                ? "🤖 AI sedang membuat soal khusus untuk Anda..."
-                : "Memuat kuis..."
+                ? t("loading.generatingForYou")
+                : t("loading.quiz")
             }
             showCountdown={isGeneratingQuestions && !hasStarted}
             estimatedSeconds={15}
@@ -460,21 +828,58 @@ const Index = () => {
   // RENDER: Show IntroScreen before quiz starts
   // ========================================================================
   
-  if (!hasStarted && viewingHistoryIndex === null) {
+  if (!hasStarted && viewingHistoryIndex === null && comparingAttempts === null) {
     return (
       <IntroScreen 
         onStart={handleStart} 
         totalQuestions={totalQuestions}
         duration={quizDuration}
+        passingScore={quizConfig.passingScore}
+        maxAttempts={quizConfig.maxAttempts}
+        canStart={!hasReachedMaxAttempts || deadline !== null}
         courseName={tutorialTitle}
         isGenerating={isGeneratingQuestions}
         estimatedGenerationTime={15}
         attemptHistory={attemptHistory}
         onViewDetail={(index) => setViewingHistoryIndex(index)}
+        onCompare={(first, second) => setComparingAttempts([first, second])}
+        onExport={(format) => handleExport(format, attemptHistory)}
+        userId={userId}
       />
     );
   }
 
+  // ========================================================================
+  // RENDER: Compare two attempts from history
+  // ========================================================================
+
+  if (comparingAttempts !== null) {
+    const [baseIndex, targetIndex] = comparingAttempts;
+
+    return (
+      <div className="min-h-screen bg-background flex flex-col">
+        <QuizHeader 
+          title={t("compare.title")} 
+          onBack={() => setComparingAttempts(null)}
+          showBackButton={true}
+          userId={userId}
+        />
+
+        <div className="flex-1 px-4 py-6">
+          <div className="max-w-3xl mx-auto">
+            <AttemptComparison base={attemptHistory[baseIndex]} target={attemptHistory[targetIndex]} />
+
+            <div className="flex justify-center gap-3 py-6">
+              <Button onClick={() => setComparingAttempts(null)} size="lg" variant="outline">
+                {t("common.backToHistory")}
+              </Button>
+            </div>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
   // ========================================================================
   // RENDER: Show history detail (result cards from previous attempt)
   // ========================================================================
@@ -482,26 +887,28 @@ const Index = () => {
   if (viewingHistoryIndex !== null) {
     const historyAttempt = attemptHistory[viewingHistoryIndex];
     
-    // Check if this history has questions data (new format)
-    if (!historyAttempt.questions || !historyAttempt.userAnswers) {
-      // Old format without questions data - show error message
+    // Check if this history has graded results (new format)
+    if (!historyAttempt.results) {
+      // Old format or pruned by the retention policy - show explanation
       return (
         <div className="min-h-screen bg-background flex flex-col">
           <QuizHeader 
-            title="Detail Riwayat Exam" 
+            title={t("history.title")} 
             onBack={() => setViewingHistoryIndex(null)}
             showBackButton={true}
+            userId={userId}
           />
           <div className="flex-1 px-4 py-6">
             <div className="max-w-3xl mx-auto">
               <div className="bg-card rounded-lg border border-border p-6 shadow-sm">
-                <h2 className="text-xl font-semibold text-foreground mb-4">Detail Tidak Tersedia</h2>
+                <h2 className="text-xl font-semibold text-foreground mb-4">{t("history.unavailableTitle")}</h2>
                 <p className="text-muted-foreground mb-4">
-                  Maaf, detail untuk riwayat ini tidak tersedia karena menggunakan format lama. 
-                  Silakan coba lagi dengan mengerjakan kuis baru.
+                  {historyAttempt.pruned
+                    ? t("history.pruned")
+                    : t("history.legacy")}
                 </p>
                 <Button onClick={() => setViewingHistoryIndex(null)} size="lg" variant="outline">
-                  Kembali ke Riwayat
+                  {t("common.backToHistory")}
                 </Button>
               </div>
             </div>
@@ -510,17 +917,18 @@ const Index = () => {
       );
     }
     
-    const score = historyAttempt.score;
-    const percentage = Math.round((score / historyAttempt.totalQuestions) * 100);
-    const isPassed = percentage >= 80;
+    const percentage = historyAttempt.percentage ?? Math.round((historyAttempt.score / historyAttempt.totalQuestions) * 100);
+    const isPassed = historyAttempt.passed ?? percentage >= quizConfig.passingScore;
+    const historyFlags = historyAttempt.flaggedQuestions ?? [];
 
     return (
       <div className="min-h-screen bg-background flex flex-col">
         {/* Header */}
         <QuizHeader 
-          title="Detail Riwayat Exam" 
+          title={t("history.title")} 
           onBack={() => setViewingHistoryIndex(null)}
           showBackButton={true}
+          userId={userId}
         />
 
         {/* Main content */}
@@ -530,42 +938,53 @@ const Index = () => {
             <div className="bg-card rounded-lg border border-border p-6 shadow-sm mb-6">
               <div className="flex items-start justify-between mb-4">
                 <div>
-                  <h2 className="text-xl font-semibold text-foreground mb-2">Total soal</h2>
+                  <h2 className="text-xl font-semibold text-foreground mb-2">{t("common.totalQuestions")}</h2>
                   <div className="text-5xl font-bold text-primary mb-2">{historyAttempt.totalQuestions}</div>
                 </div>
                 <div className="text-right">
-                  <h2 className="text-xl font-semibold text-foreground mb-2">Score</h2>
-                  <div className="text-5xl font-bold text-success">{score * 20}</div>
+                  <h2 className="text-xl font-semibold text-foreground mb-2">{t("common.score")}</h2>
+                  <div className="text-5xl font-bold text-success">{percentage}</div>
                 </div>
               </div>
               
               <div className="pt-4 border-t border-border">
                 <p className={`text-base font-medium ${isPassed ? 'text-success' : 'text-error'}`}>
                   {isPassed 
-                    ? 'Selamat! Anda telah lulus dari ujian ini.' 
-                    : 'Maaf, Anda belum memenuhi standar kelulusan.'}
+                    ? t("result.passedMessage") 
+                    : t("result.failedMessage")}
                 </p>
               </div>
             </div>
 
+            {/* Confidence vs. correctness (hidden when nothing was rated) */}
+            <CalibrationReport results={historyAttempt.results} />
+
             {/* Category label for results */}
             <div className="mb-4">
               <h3 className="text-base font-semibold text-foreground">
-                Kategori: {tutorialTitle}
+                {t("common.category", { title: tutorialTitle })}
               </h3>
             </div>
 
+            {/* Order in which questions were opened during the attempt */}
+            {historyAttempt.telemetry && historyAttempt.telemetry.visitOrder.length > 0 && (
+              <div className="bg-card rounded-lg border border-border p-4 shadow-sm mb-6">
+                <h3 className="text-sm font-semibold text-foreground mb-2">{t("history.visitOrder")}</h3>
+                <p className="text-sm text-muted-foreground">
+                  {historyAttempt.telemetry.visitOrder.map((index) => t("common.question", { number: index + 1 })).join(" → ")}
+                </p>
+              </div>
+            )}
+
             {/* Result cards - from history */}
             <div className="space-y-4 mb-6">
-              {historyAttempt.questions.map((question: any, index: number) => (
+              {historyAttempt.results.map((result, index) => (
                 <ResultCard
-                  key={question.id}
+                  key={result.questionId}
                   questionNumber={index + 1}
-                  question={question.question}
-                  options={question.options}
-                  userAnswer={historyAttempt.userAnswers[index] || ""}
-                  correctAnswer={question.correctAnswer}
-                  explanation={question.explanation}
+                  result={result}
+                  flagged={historyFlags.includes(index)}
+                  telemetry={historyAttempt.telemetry?.questions[index]}
                 />
               ))}
             </div>
@@ -573,7 +992,39 @@ const Index = () => {
             {/* Back button */}
             <div className="flex justify-center gap-3 pb-6">
               <Button onClick={() => setViewingHistoryIndex(null)} size="lg" variant="outline">
-                Kembali ke Riwayat
+                {t("common.backToHistory")}
+              </Button>
+            </div>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  // ========================================================================
+  // RENDER: Submitted offline - waiting for the outbox to deliver
+  // ========================================================================
+
+  if (isSubmissionQueued && !isSubmitted) {
+    return (
+      <div className="min-h-screen bg-background flex flex-col">
+        <QuizHeader 
+          title={t("queued.title")} 
+          onBack={handleExit}
+          showBackButton={true}
+          userId={userId}
+        />
+
+        <div className="flex-1 px-4 py-6">
+          <div className="max-w-3xl mx-auto">
+            <div className="bg-card rounded-lg border border-border p-6 shadow-sm text-center">
+              <CloudOff className="w-10 h-10 mx-auto mb-4 text-warning" />
+              <h2 className="text-xl font-semibold text-foreground mb-2">{t("queued.heading")}</h2>
+              <p className="text-muted-foreground mb-6">
+                {t("queued.description", { answered: answeredCount, total: totalQuestions })}
+              </p>
+              <Button onClick={() => flushOutbox()} size="lg" variant="outline">
+                {t("queued.retry")}
               </Button>
             </div>
           </div>
@@ -586,18 +1037,18 @@ const Index = () => {
   // RENDER: Show results after submission
   // ========================================================================
   
-  if (isSubmitted) {
-    const score = calculateScore();
-    const percentage = Math.round((score / totalQuestions) * 100);
-    const isPassed = percentage >= 80; // Passing score 80%
+  if (isSubmitted && gradedResult) {
+    const { percentage } = gradedResult.score;
+    const isPassed = gradedResult.passed; // Passing score decided by backend
 
     return (
       <div className="min-h-screen bg-background flex flex-col">
         {/* Header */}
         <QuizHeader 
-          title="Hasil Exam" 
+          title={t("result.title")} 
           onBack={handleExit}
           showBackButton={true}
+          userId={userId}
         />
 
         {/* Main content */}
@@ -607,51 +1058,62 @@ const Index = () => {
             <div className="bg-card rounded-lg border border-border p-6 shadow-sm mb-6">
               <div className="flex items-start justify-between mb-4">
                 <div>
-                  <h2 className="text-xl font-semibold text-foreground mb-2">Total soal</h2>
-                  <div className="text-5xl font-bold text-primary mb-2">{totalQuestions}</div>
+                  <h2 className="text-xl font-semibold text-foreground mb-2">{t("common.totalQuestions")}</h2>
+                  <div className="text-5xl font-bold text-primary mb-2">{gradedResult.score.total}</div>
                 </div>
                 <div className="text-right">
-                  <h2 className="text-xl font-semibold text-foreground mb-2">Score</h2>
-                  <div className="text-5xl font-bold text-success">{score * 20}</div>
+                  <h2 className="text-xl font-semibold text-foreground mb-2">{t("common.score")}</h2>
+                  <div className="text-5xl font-bold text-success">{percentage}</div>
                 </div>
               </div>
               
               <div className="pt-4 border-t border-border">
                 <p className={`text-base font-medium ${isPassed ? 'text-success' : 'text-error'}`}>
                   {isPassed 
-                    ? 'Selamat! Anda telah lulus dari ujian ini.' 
-                    : 'Maaf, Anda belum memenuhi standar kelulusan.'}
+                    ? t("result.passedMessage") 
+                    : t("result.failedMessage")}
                 </p>
               </div>
             </div>
 
-            {/* Category label for results */}
-            <div className="mb-4">
+            {/* Confidence vs. correctness (hidden when nothing was rated) */}
+            <CalibrationReport results={gradedResult.results} />
+
+            {/* Category label for results, with export of this attempt */}
+            <div className="mb-4 flex items-center justify-between gap-4">
               <h3 className="text-base font-semibold text-foreground">
-                Kategori: {tutorialTitle}
+                {t("common.category", { title: tutorialTitle })}
               </h3>
+              {attemptHistory.length > 0 && (
+                <ExportMenu
+                  label={t("export.resultLabel")}
+                  onExport={(format) => handleExport(format, attemptHistory.slice(-1))}
+                />
+              )}
             </div>
 
-            {/* Result cards - preserved with explanations as requested */}
+            {/* Result cards - rendered from the graded response (explanations included) */}
             <div className="space-y-4 mb-6">
-              {questions.map((question, index) => (
+              {gradedResult.results.map((result, index) => (
                 <ResultCard
-                  key={question.id}
+                  key={result.questionId}
                   questionNumber={index + 1}
-                  question={question.question}
-                  options={question.options}
-                  userAnswer={userAnswers[index] || ""}
-                  correctAnswer={question.correctAnswer}
-                  explanation={question.explanation}
+                  result={result}
+                  flagged={flaggedQuestions.includes(index)}
                 />
               ))}
             </div>
 
             {/* Action buttons */}
-            <div className="flex justify-center gap-3 pb-6">
-              <Button onClick={handleTryAgain} size="lg" variant="outline">
-                Coba Lagi
+            <div className="flex flex-col items-center gap-2 pb-6">
+              <Button onClick={handleTryAgain} size="lg" variant="outline" disabled={hasReachedMaxAttempts}>
+                {t("result.tryAgain")}
               </Button>
+              {hasReachedMaxAttempts && (
+                <p className="text-sm text-muted-foreground">
+                  {t("result.limitReached", { count: quizConfig.maxAttempts })}
+                </p>
+              )}
             </div>
           </div>
         </div>
@@ -662,105 +1124,108 @@ const Index = () => {
   return (
     <div className="min-h-screen bg-background flex flex-col">
       {/* Progress Indicator with timer on the right */}
-      <div className="bg-background border-b border-border">
-        <div className="max-w-3xl mx-auto px-4 py-4">
-          {/* Category label */}
-          <div className="mb-3 flex items-center justify-between">
-            <span className="text-sm text-muted-foreground">
-              Soal kategori: <span className="font-medium text-foreground">{tutorialTitle}</span>
-            </span>
+      <ProgressIndicator
+        currentQuestion={currentQuestionIndex + 1}
+        totalQuestions={totalQuestions}
+        answeredQuestions={answeredQuestions}
+        flaggedQuestions={flaggedQuestions}
+        onQuestionClick={handleGoToQuestion}
+        category={tutorialTitle}
+        actions={
+          <div className="flex items-center gap-2">
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => setShowShortcutHelp(true)}
+              title={t("shortcuts.buttonTitle")}
+              aria-label={t("shortcuts.button")}
+            >
+              <Keyboard className="w-4 h-4" />
+            </Button>
+            <SettingsSheet userId={userId} />
             {/* Timer on the right */}
-            <Timer duration={quizDuration} onTimeUp={handleTimeUp} />
+            {deadline && <Timer deadline={deadline} onTimeUp={handleTimeUp} />}
           </div>
-          
-          {/* Clickable numbered boxes - horizontal compact layout */}
-          <div className="flex items-center gap-2 flex-wrap">
-            {Array.from({ length: totalQuestions }).map((_, index) => {
-              const questionNumber = index + 1;
-              const isCurrentQuestion = index === currentQuestionIndex;
-              const isAnswered = Object.keys(userAnswers).map(Number).includes(index);
-              
-              return (
-                <button
-                  key={index}
-                  onClick={() => setCurrentQuestionIndex(index)}
-                  className={`
-                    w-10 h-10 rounded border-2 
-                    flex items-center justify-center
-                    transition-all duration-200
-                    text-sm font-semibold
-                    cursor-pointer hover:scale-105
-                    ${isCurrentQuestion 
-                      ? 'border-primary bg-primary text-white shadow-sm' 
-                      : isAnswered
-                      ? 'border-border bg-card text-foreground'
-                      : 'border-border bg-background text-muted-foreground'
-                    }
-                  `}
-                  title={
-                    isCurrentQuestion 
-                      ? 'Soal saat ini' 
-                      : isAnswered 
-                      ? `Soal ${questionNumber} - Sudah dijawab` 
-                      : `Soal ${questionNumber} - Belum dijawab`
-                  }
-                >
-                  {questionNumber}
-                </button>
-              );
-            })}
-          </div>
-        </div>
-      </div>
+        }
+      />
 
       {/* Main content area */}
       <div className="flex-1 px-4 py-6">
         <div className="max-w-3xl mx-auto">
-          {/* Question Card - preserved as requested */}
-          <QuestionCard
-            question={currentQuestion.question}
-            options={currentQuestion.options}
-            selectedAnswer={currentAnswer}
-            onAnswerSelect={handleAnswerSelect}
-          />
+          {isReviewing ? (
+            <SubmitReviewScreen
+              questions={questions}
+              answeredQuestions={answeredQuestions}
+              flaggedQuestions={flaggedQuestions}
+              onGoToQuestion={handleGoToQuestion}
+              onBack={() => setIsReviewing(false)}
+              onSubmit={handleSubmit}
+            />
+          ) : (
+            <>
+              {/* Question Card - preserved as requested */}
+              <QuestionCard
+                question={currentQuestion}
+                selectedAnswer={currentAnswer}
+                onAnswerSelect={handleAnswerSelect}
+                confidence={confidence[currentQuestionIndex]}
+                onConfidenceChange={handleConfidenceChange}
+              />
 
-          {/* Navigation buttons - simplified Dicoding style */}
-          <div className="flex items-center justify-between mt-6">
-            <Button
-              onClick={handlePrevious}
-              disabled={currentQuestionIndex === 0}
-              variant="outline"
-              size="lg"
-            >
-              Sebelumnya
-            </Button>
+              {/* Navigation buttons - simplified Dicoding style */}
+              <div className="flex items-center justify-between mt-6">
+                <Button
+                  onClick={handlePrevious}
+                  disabled={currentQuestionIndex === 0}
+                  variant="outline"
+                  size="lg"
+                >
+                  {t("quiz.previous")}
+                </Button>
 
-            {currentQuestionIndex < totalQuestions - 1 ? (
-              <Button
-                onClick={handleNext}
-                disabled={!currentAnswer}
-                size="lg"
-              >
-                Selanjutnya
-              </Button>
-            ) : (
-              <Button
-                onClick={handleSubmit}
-                disabled={Object.keys(userAnswers).length < totalQuestions}
-                size="lg"
-                className="bg-primary hover:bg-primary/90"
-              >
-                Submit
-              </Button>
-            )}
-          </div>
+                <Button
+                  onClick={handleToggleFlag}
+                  variant="ghost"
+                  size="lg"
+                  aria-pressed={flaggedQuestions.includes(currentQuestionIndex)}
+                  title={t("quiz.flagTitle")}
+                >
+                  <Flag
+                    className={`w-4 h-4 mr-2 ${flaggedQuestions.includes(currentQuestionIndex) ? 'text-warning fill-warning' : ''}`}
+                  />
+                  {flaggedQuestions.includes(currentQuestionIndex) ? t('common.flagged') : t('quiz.flag')}
+                </Button>
 
-          {/* Answer progress counter */}
-          <div className="mt-4 text-center text-sm text-muted-foreground">
-            {Object.keys(userAnswers).length} dari {totalQuestions} pertanyaan terjawab
-          </div>
+                {currentQuestionIndex < totalQuestions - 1 ? (
+                  <Button
+                    onClick={handleNext}
+                    disabled={!canGoNext}
+                    size="lg"
+                  >
+                    {t("quiz.next")}
+                  </Button>
+                ) : (
+                  <Button
+                    onClick={handleRequestSubmit}
+                    size="lg"
+                    className="bg-primary hover:bg-primary/90"
+                  >
+                    {t("quiz.reviewAndSubmit")}
+                  </Button>
+                )}
+              </div>
+
+              {/* Answer progress counter */}
+              <div className="mt-4 text-center text-sm text-muted-foreground">
+                {t("quiz.answeredCount", { answered: answeredCount, total: totalQuestions })}
+                <span className="hidden sm:inline"> · {t("shortcuts.hintBefore")} <kbd className="font-mono">?</kbd> {t("shortcuts.hintAfter")}</span>
+              </div>
+            </>
+          )}
         </div>
       </div>
+
+      <ShortcutHelpDialog open={showShortcutHelp} onOpenChange={setShowShortcutHelp} />
     </div>
   );
 };
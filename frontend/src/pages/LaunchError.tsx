@@ -0,0 +1,24 @@
+import { KeyRound } from "lucide-react";
+import { useI18n } from "@/hooks/useI18n";
+import type { LaunchProblem } from "@/lib/launch";
+
+interface LaunchErrorProps {
+  problem: LaunchProblem;
+}
+
+// Shown instead of the quiz when the page was not opened with a valid launch token
+const LaunchError = ({ problem }: LaunchErrorProps) => {
+  const { t } = useI18n();
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-background p-4">
+      <div className="max-w-md text-center">
+        <KeyRound className="w-10 h-10 mx-auto mb-4 text-muted-foreground" />
+        <h1 className="mb-2 text-2xl font-bold text-foreground">{t(`launch.${problem}.title`)}</h1>
+        <p className="text-muted-foreground">{t(`launch.${problem}.message`)}</p>
+      </div>
+    </div>
+  );
+};
+
+export default LaunchError;
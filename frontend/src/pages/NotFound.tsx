@@ -1,15 +1,17 @@
 import { useLocation } from "react-router-dom";
+import { useI18n } from "@/hooks/useI18n";
 
 const NotFound = () => {
   const location = useLocation();
+  const { t } = useI18n();
 
   return (
     <div className="flex min-h-screen items-center justify-center bg-gray-100">
       <div className="text-center">
         <h1 className="mb-4 text-4xl font-bold">404</h1>
-        <p className="mb-4 text-xl text-gray-600">Oops! Page not found</p>
+        <p className="mb-4 text-xl text-gray-600">{t("notFound.message")}</p>
         <a href="/" className="text-blue-500 underline hover:text-blue-700">
-          Return to Home
+          {t("notFound.home")}
         </a>
       </div>
     </div>
@@ -22,6 +22,7 @@ function loadTutorialContent(filename) {
 /**
  * Mock tutorials mapped to real content from mock-materi folder
  * Each tutorial corresponds to a .txt file in mock-materi/
+ * Optional `quizConfig` overrides LearnCheck backend quiz defaults per tutorial
  */
 const mockTutorials = [
   {
@@ -61,6 +62,10 @@ const mockTutorials = [
     content: loadTutorialContent('Taksonomi-AI.txt'),
     estimatedTime: 30,
     prerequisites: ['Pengenalan AI'],
+    quizConfig: {
+      startingDifficulty: 'easy',
+      questionTypes: ['multiple-choice', 'true-false', 'short-answer']
+    },
     learningObjectives: [
       'Memahami hierarki keilmuan AI',
       'Membedakan AI, Machine Learning, dan Deep Learning',
@@ -105,6 +110,15 @@ const mockTutorials = [
     content: loadTutorialContent('AI-Workflow.txt'),
     estimatedTime: 60,
     prerequisites: ['Pengenalan AI', 'Taksonomi AI'],
+    quizConfig: {
+      questionCount: 5,
+      timeLimitMinutes: 10,
+      passingScore: 70,
+      maxAttempts: 3,
+      startingDifficulty: 'medium',
+      questionTypes: ['multiple-choice', 'multi-select'],
+      scoringMode: 'partial'
+    },
     learningObjectives: [
       'Memahami tahapan lengkap AI development lifecycle',
       'Mengerti proses pengumpulan dan preprocessing data',
@@ -0,0 +1,68 @@
+// Mock Learning Record Store - In-memory xAPI LRS for development
+// The backend posts quiz statements here when XAPI_LRS_ENDPOINT is not set.
+// Inspect them: GET /xapi/statements?registration=<sessionId>&verb=<verb IRI>
+const crypto = require('crypto');
+const express = require('express');
+
+const router = express.Router();
+
+const MAX_STATEMENTS = 10000;
+const statements = new Map(); // id -> stored statement, in arrival order
+
+// Batches of statements are larger than the default JSON body limit
+router.use(express.json({ limit: '5mb' }));
+
+router.use((req, res, next) => {
+  if (!req.headers['x-experience-api-version']) {
+    return res.status(400).json({ error: 'X-Experience-API-Version header is required', status: 'error' });
+  }
+  res.set('X-Experience-API-Version', '1.0.3');
+  next();
+});
+
+// POST /xapi/statements - Store one statement or a batch
+router.post('/statements', (req, res) => {
+  const batch = Array.isArray(req.body) ? req.body : [req.body];
+  const invalid = batch.find(statement => !statement?.actor || !statement.verb?.id || !statement.object?.id);
+  if (invalid) {
+    return res.status(400).json({ error: 'Statement needs actor, verb.id and object.id', status: 'error' });
+  }
+
+  const ids = batch.map(statement => {
+    const id = statement.id || crypto.randomUUID();
+    // Same ID again (a retried batch) keeps the first copy, like a real LRS
+    if (!statements.has(id)) {
+      statements.set(id, {
+        ...statement,
+        id,
+        timestamp: statement.timestamp || new Date().toISOString(),
+        stored: new Date().toISOString()
+      });
+      console.log(`📈 xAPI ${statement.verb.display?.['en-US'] || statement.verb.id} ${statement.object.id}`);
+    }
+    return id;
+  });
+
+  // Oldest statements go first once the store is full
+  while (statements.size > MAX_STATEMENTS) {
+    statements.delete(statements.keys().next().value);
+  }
+
+  res.json(ids);
+});
+
+// GET /xapi/statements - Newest first, filtered by registration and/or verb
+router.get('/statements', (req, res) => {
+  const { registration, verb } = req.query;
+  const limit = Math.min(parseInt(req.query.limit, 10) || 100, 1000);
+
+  const result = [...statements.values()]
+    .filter(statement => !registration || statement.context?.registration === registration)
+    .filter(statement => !verb || statement.verb.id === verb)
+    .reverse()
+    .slice(0, limit);
+
+  res.json({ statements: result, more: '' });
+});
+
+module.exports = router;
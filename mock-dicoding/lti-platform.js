@@ -0,0 +1,155 @@
+// Mock LTI 1.3 Platform - Stands in for Moodle/Canvas during development
+// Start a launch: GET /lti/platform/start?user_id=budi&tutorial_id=1
+// Scores received through Assignment and Grade Services: GET /lti/platform/scores
+const crypto = require('crypto');
+const express = require('express');
+
+const router = express.Router();
+
+// Browser-facing URLs (issuer, tool login/launch) vs. URLs the backend calls (line items)
+const PLATFORM_URL = (process.env.MOCK_LTI_PLATFORM_URL || 'http://localhost:3002').replace(/\/$/, '');
+const PLATFORM_API_URL = (process.env.LTI_PLATFORM_API_URL || PLATFORM_URL).replace(/\/$/, '');
+const TOOL_URL = (process.env.LTI_TOOL_URL || 'http://localhost:3001').replace(/\/$/, '');
+const TOOL_JWKS_URL = process.env.LTI_TOOL_JWKS_URL || `${TOOL_URL}/lti/jwks`;
+const CLIENT_ID = 'learncheck-dev';
+const DEPLOYMENT_ID = '1';
+
+const LTI_CLAIM = 'https://purl.imsglobal.org/spec/lti/claim';
+const AGS_SCOPES = [
+  'https://purl.imsglobal.org/spec/lti-ags/scope/lineitem',
+  'https://purl.imsglobal.org/spec/lti-ags/scope/score'
+];
+
+// New key on every start - the tool refetches our JWKS when it sees an unknown kid
+const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+const KID = crypto.randomUUID();
+
+const accessTokens = new Map(); // token -> expiresAt
+const receivedScores = [];
+
+const encode = (value) => Buffer.from(JSON.stringify(value)).toString('base64url');
+const decode = (segment) => JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'));
+
+const signIdToken = (claims) => {
+  const unsigned = `${encode({ alg: 'RS256', typ: 'JWT', kid: KID })}.${encode(claims)}`;
+  return `${unsigned}.${crypto.sign('sha256', Buffer.from(unsigned), privateKey).toString('base64url')}`;
+};
+
+const escapeHtml = (value) => String(value).replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+
+// GET /lti/platform/start - What clicking the activity in a course does
+router.get('/start', (req, res) => {
+  const userId = String(req.query.user_id || 'student_123');
+  const tutorialId = String(req.query.tutorial_id || '1');
+  const contextId = String(req.query.context_id || 'course-101');
+  const resourceLinkId = String(req.query.resource_link_id || `quiz-${tutorialId}`);
+
+  const query = new URLSearchParams({
+    iss: PLATFORM_URL,
+    login_hint: userId,
+    target_link_uri: `${TOOL_URL}/lti/launch`,
+    lti_message_hint: encode({ tutorialId, contextId, resourceLinkId }),
+    client_id: CLIENT_ID,
+    lti_deployment_id: DEPLOYMENT_ID
+  });
+  res.redirect(`${TOOL_URL}/lti/login?${query.toString()}`);
+});
+
+// GET /lti/platform/authorize - OIDC authentication response (auto-submitted form_post)
+router.get('/authorize', (req, res) => {
+  const { client_id: clientId, redirect_uri: redirectUri, login_hint: loginHint, lti_message_hint: messageHint, state, nonce } = req.query;
+
+  if (clientId !== CLIENT_ID || redirectUri !== `${TOOL_URL}/lti/launch` || !loginHint || !nonce) {
+    return res.status(400).json({ error: 'invalid_request', status: 'error' });
+  }
+
+  const { tutorialId, contextId, resourceLinkId } = decode(messageHint);
+  const now = Math.floor(Date.now() / 1000);
+  const idToken = signIdToken({
+    iss: PLATFORM_URL,
+    aud: CLIENT_ID,
+    sub: loginHint,
+    iat: now,
+    exp: now + 300,
+    nonce,
+    name: `Mahasiswa ${loginHint}`,
+    [`${LTI_CLAIM}/message_type`]: 'LtiResourceLinkRequest',
+    [`${LTI_CLAIM}/version`]: '1.3.0',
+    [`${LTI_CLAIM}/deployment_id`]: DEPLOYMENT_ID,
+    [`${LTI_CLAIM}/target_link_uri`]: redirectUri,
+    [`${LTI_CLAIM}/resource_link`]: { id: resourceLinkId, title: `LearnCheck - Tutorial ${tutorialId}` },
+    [`${LTI_CLAIM}/context`]: { id: contextId, label: contextId, title: 'Kelas Pemrograman Web' },
+    [`${LTI_CLAIM}/roles`]: ['http://purl.imsglobal.org/vocab/lis/v2/membership#Learner'],
+    [`${LTI_CLAIM}/custom`]: { tutorial_id: tutorialId },
+    'https://purl.imsglobal.org/spec/lti-ags/claim/endpoint': {
+      scope: AGS_SCOPES,
+      lineitem: `${PLATFORM_API_URL}/lti/platform/lineitems/${encodeURIComponent(`${contextId}-${resourceLinkId}`)}`
+    }
+  });
+
+  res.send(`<!DOCTYPE html>
+<html><body>
+<form id="launch" method="POST" action="${escapeHtml(redirectUri)}">
+  <input type="hidden" name="id_token" value="${escapeHtml(idToken)}">
+  <input type="hidden" name="state" value="${escapeHtml(state || '')}">
+  <noscript><button type="submit">Launch</button></noscript>
+</form>
+<script>document.getElementById('launch').submit();</script>
+</body></html>`);
+});
+
+// GET /lti/platform/jwks - Platform public key
+router.get('/jwks', (req, res) => {
+  res.json({ keys: [{ ...publicKey.export({ format: 'jwk' }), kid: KID, alg: 'RS256', use: 'sig' }] });
+});
+
+// POST /lti/platform/token - client_credentials grant with the tool's signed client assertion
+router.post('/token', express.urlencoded({ extended: false }), async (req, res) => {
+  try {
+    const [header, payload, signature] = String(req.body.client_assertion || '').split('.');
+    const { kid } = decode(header);
+    const claims = decode(payload);
+
+    const jwks = await (await fetch(TOOL_JWKS_URL)).json();
+    const jwk = jwks.keys.find(key => key.kid === kid);
+    const valid = jwk && crypto.verify(
+      'sha256',
+      Buffer.from(`${header}.${payload}`),
+      crypto.createPublicKey({ key: jwk, format: 'jwk' }),
+      Buffer.from(signature, 'base64url')
+    );
+
+    if (!valid || claims.iss !== CLIENT_ID || claims.exp < Date.now() / 1000) {
+      return res.status(401).json({ error: 'invalid_client', status: 'error' });
+    }
+
+    const token = crypto.randomUUID();
+    accessTokens.set(token, Date.now() + 3600 * 1000);
+    res.json({ access_token: token, token_type: 'Bearer', expires_in: 3600, scope: req.body.scope });
+  } catch (error) {
+    res.status(400).json({ error: 'invalid_request', message: error.message, status: 'error' });
+  }
+});
+
+// POST /lti/platform/lineitems/:id/scores - AGS score publish
+router.post(
+  '/lineitems/:id/scores',
+  express.json({ type: ['application/json', 'application/vnd.ims.lis.v1.score+json'] }),
+  (req, res) => {
+    const token = (req.headers.authorization || '').replace(/^Bearer /, '');
+    if (!(accessTokens.get(token) > Date.now())) {
+      return res.status(401).json({ error: 'invalid_token', status: 'error' });
+    }
+
+    receivedScores.push({ lineitem: req.params.id, ...req.body, receivedAt: new Date().toISOString() });
+    console.log(`📝 LTI score for ${req.body.userId} on ${req.params.id}: ${req.body.scoreGiven}/${req.body.scoreMaximum}`);
+    res.status(204).end();
+  }
+);
+
+// GET /lti/platform/scores - Gradebook of the mock platform
+router.get('/scores', (req, res) => {
+  res.json({ data: receivedScores, status: 'success' });
+});
+
+module.exports = router;
@@ -1,14 +1,25 @@
+const crypto = require('crypto');
 const express = require('express');
 const cors = require('cors');
 const morgan = require('morgan');
 const { mockTutorials } = require('./data/tutorials');
+const ltiPlatform = require('./lti-platform');
+const mockLrs = require('./lrs');
 
 const app = express();
 const PORT = process.env.PORT || 3002;
+// Dicoding launches LearnCheck with a signed token; the backend verifies it with the same secret
+const LAUNCH_TOKEN_SECRET = process.env.LAUNCH_TOKEN_SECRET || 'learncheck-dev-launch-secret';
+const LAUNCH_TOKEN_TTL_SECONDS = parseInt(process.env.LAUNCH_TOKEN_TTL_SECONDS) || 4 * 60 * 60;
+const LEARNCHECK_URL = process.env.LEARNCHECK_URL || 'http://localhost:8080';
 
 // Middleware
 app.use(cors());
 app.use(morgan('combined'));
+
+// Mock xAPI LRS - mounted before the default JSON parser, it accepts larger batches
+app.use('/xapi', mockLrs);
+
 app.use(express.json());
 
 // Mock user preferences data
@@ -142,6 +153,49 @@ app.put('/api/users/:userId/preferences', (req, res) => {
   });
 });
 
+// Launch token: HS256 JWT { sub, tutorial_id, iat, exp }
+const signLaunchToken = (userId, tutorialId) => {
+  const now = Math.floor(Date.now() / 1000);
+  const encode = (value) => Buffer.from(JSON.stringify(value)).toString('base64url');
+  const unsigned = `${encode({ alg: 'HS256', typ: 'JWT' })}.${encode({
+    sub: userId,
+    tutorial_id: tutorialId,
+    iat: now,
+    exp: now + LAUNCH_TOKEN_TTL_SECONDS
+  })}`;
+  const signature = crypto.createHmac('sha256', LAUNCH_TOKEN_SECRET).update(unsigned).digest('base64url');
+  return `${unsigned}.${signature}`;
+};
+
+// POST /api/launch-tokens - Token for building the iframe src { userId, tutorialId }
+app.post('/api/launch-tokens', (req, res) => {
+  const { userId, tutorialId } = req.body || {};
+  if (!userId || !tutorialId) {
+    return res.status(400).json({
+      error: 'userId and tutorialId are required',
+      status: 'error'
+    });
+  }
+
+  res.json({
+    data: {
+      token: signLaunchToken(String(userId), String(tutorialId)),
+      expiresIn: LAUNCH_TOKEN_TTL_SECONDS
+    },
+    status: 'success'
+  });
+});
+
+// GET /launch?user_id=...&tutorial_id=... - Opens LearnCheck the way Dicoding Classroom does
+app.get('/launch', (req, res) => {
+  const userId = req.query.user_id || 'demo_user';
+  const tutorialId = req.query.tutorial_id || '1';
+  res.redirect(`${LEARNCHECK_URL}/?token=${signLaunchToken(String(userId), String(tutorialId))}`);
+});
+
+// Mock LTI 1.3 platform (Moodle/Canvas stand-in)
+app.use('/lti/platform', ltiPlatform);
+
 // Health check
 app.get('/health', (req, res) => {
   res.json({
@@ -154,6 +208,12 @@ app.get('/health', (req, res) => {
       'GET /api/tutorials/:id', 
       'GET /api/users/:userId/preferences',
       'PUT /api/users/:userId/preferences',
+      'POST /api/launch-tokens',
+      'GET /launch',
+      'GET /lti/platform/start',
+      'GET /lti/platform/scores',
+      'POST /xapi/statements',
+      'GET /xapi/statements',
       'GET /health'
     ]
   });
@@ -169,6 +229,12 @@ app.use('*', (req, res) => {
       'GET /api/tutorials/:id', 
       'GET /api/users/:userId/preferences',
       'PUT /api/users/:userId/preferences',
+      'POST /api/launch-tokens',
+      'GET /launch',
+      'GET /lti/platform/start',
+      'GET /lti/platform/scores',
+      'POST /xapi/statements',
+      'GET /xapi/statements',
       'GET /health'
     ]
   });